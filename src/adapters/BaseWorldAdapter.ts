@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChunkBlockArray } from '../utils/ChunkArray';
+import {
+  ColliderBox,
+  EntityChanges,
+  WorldAdapter,
+  WorldCapabilities,
+  WorldCapability,
+  WorldCapabilityReport,
+  WorldChunk
+} from '../types';
+
+/**
+ * Shared part of the built-in world adapters
+ * Capabilities are probed once, when the adapter is created. loadMap, the block
+ * type registry and entities look the same in every SDK version so far; block
+ * placement and chunk access are left to the version-specific subclasses.
+ */
+export abstract class BaseWorldAdapter implements WorldAdapter {
+  static readonly CAPABILITIES: WorldCapability[] = [
+    'loadMap',
+    'setBlock',
+    'readChunks',
+    'injectChunks',
+    'chunkEvents',
+    'chunkStorage',
+    'registerBlockTypes',
+    'listBlockTypes',
+    'colliders',
+    'entities'
+  ];
+  
+  private static cachedSdkVersion: string | null | undefined;
+  private static cachedSdk: any | null | undefined;
+  
+  abstract readonly name: string;
+  readonly world: any;
+  readonly capabilities: WorldCapabilities;
+  
+  constructor(world: any) {
+    this.world = world;
+    this.capabilities = this.probe();
+  }
+  
+  /**
+   * Version of the hytopia package installed next to the game (null if it can't be read)
+   */
+  static sdkVersion(): string | null {
+    if (this.cachedSdkVersion !== undefined) {
+      return this.cachedSdkVersion;
+    }
+    
+    let version: string | null = null;
+    try {
+      const pkgPath = path.join(process.cwd(), 'node_modules', 'hytopia', 'package.json');
+      const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf-8'));
+      if (pkg && typeof pkg.version === 'string') {
+        version = pkg.version;
+      }
+    } catch {}
+    this.cachedSdkVersion = version;
+    return version;
+  }
+  
+  /**
+   * Exports of the hytopia package installed next to the game (null if it can't be loaded)
+   * Used for SDK classes the world doesn't hand out, like Collider, Chunk and Entity.
+   */
+  static sdk(): any | null {
+    if (this.cachedSdk !== undefined) {
+      return this.cachedSdk;
+    }
+    
+    let sdk: any = null;
+    try {
+      sdk = require(require.resolve('hytopia', { paths: [process.cwd()] }));
+    } catch {}
+    this.cachedSdk = sdk;
+    return sdk;
+  }
+  
+  /**
+   * Use these SDK exports instead of loading hytopia (bundled games, ES module builds, tests)
+   * Affects adapters created afterwards.
+   */
+  static useSdk(sdk: any): void {
+    this.cachedSdk = sdk ?? null;
+  }
+  
+  abstract setBlock(coordinate: { x: number; y: number; z: number }, id: number): void;
+  abstract getChunks(): WorldChunk[];
+  abstract clearChunks(): void;
+  abstract injectChunk(origin: { x: number; y: number; z: number }, blocks: ChunkBlockArray): number;
+  abstract announceChunks(origins: Array<{ x: number; y: number; z: number }>): number;
+  abstract addColliders(boxes: ColliderBox[]): number;
+  abstract replaceColliders(origin: { x: number; y: number; z: number }, boxes: ColliderBox[]): number;
+  abstract isInjected(origin: { x: number; y: number; z: number }): boolean;
+  
+  /**
+   * Which capabilities were found and which are missing
+   */
+  report(): WorldCapabilityReport {
+    return {
+      adapter: this.name,
+      sdkVersion: BaseWorldAdapter.sdkVersion(),
+      capabilities: { ...this.capabilities },
+      found: BaseWorldAdapter.CAPABILITIES.filter(capability => this.capabilities[capability]),
+      missing: BaseWorldAdapter.CAPABILITIES.filter(capability => !this.capabilities[capability])
+    };
+  }
+  
+  async loadMap(mapData: any): Promise<void> {
+    this.require('loadMap', 'world.loadMap');
+    await this.world.loadMap(mapData);
+  }
+  
+  replaceLoadMap(loadMap: (mapData: any) => any): (mapData: any) => any {
+    this.require('loadMap', 'world.loadMap');
+    const previous = this.world.loadMap.bind(this.world);
+    this.world.loadMap = loadMap;
+    return previous;
+  }
+  
+  getChunkStorage(): any {
+    this.require('chunkStorage', 'world._chunks or world.chunks with getOrCreate()');
+    return this.world._chunks || this.world.chunks;
+  }
+  
+  registerBlockType(definition: any): void {
+    this.require('registerBlockTypes', 'blockTypeRegistry.registerGenericBlockType');
+    this.world.blockTypeRegistry.registerGenericBlockType(definition);
+  }
+  
+  getBlockTypes(): any[] {
+    const registry = this.world?.blockTypeRegistry;
+    if (typeof registry?.getAllBlockTypes === 'function') {
+      return registry.getAllBlockTypes();
+    }
+    if (registry?._blockTypes instanceof Map) {
+      return Array.from(registry._blockTypes.values());
+    }
+    return [];
+  }
+  
+  getEntities(): any {
+    return this.world?.entities;
+  }
+  
+  setEntities(entities: any): void {
+    this.world.entities = entities;
+  }
+  
+  /**
+   * Apply entity changes through the SDK so connected clients see them
+   * Removed and changed entities are despawned, added and changed ones spawned
+   * the way world.loadMap() spawns map entities. Entities from an earlier
+   * loadMap() are found in the entity manager by position and model.
+   * @returns Number of entities spawned and despawned
+   */
+  updateEntities(before: any, after: any, changes: EntityChanges): number {
+    this.require('entities', 'the hytopia Entity class');
+    const { Entity, RigidBodyType } = BaseWorldAdapter.sdk();
+    if (!(this.world._mapEntities instanceof Map)) this.world._mapEntities = new Map();
+    const spawned: Map<string, any> = this.world._mapEntities;
+    
+    let count = 0;
+    for (const key of [...changes.removed, ...changes.changed]) {
+      const entity = spawned.get(key) ?? this.findMapEntity(key, before?.[key]);
+      spawned.delete(key);
+      if (entity?.isSpawned !== false && typeof entity?.despawn === 'function') {
+        entity.despawn();
+        count++;
+      }
+    }
+    
+    for (const key of [...changes.added, ...changes.changed]) {
+      const options = after?.[key];
+      const position = this.entityPosition(key, options);
+      if (!options || !position) continue;
+      
+      const entity = new Entity({
+        isEnvironmental: true,
+        ...options,
+        rigidBodyOptions: { type: RigidBodyType?.FIXED ?? 'fixed', ...options.rigidBodyOptions }
+      });
+      entity.spawn(this.world, position);
+      spawned.set(key, entity);
+      count++;
+    }
+    
+    this.setEntities(after);
+    return count;
+  }
+  
+  /**
+   * Capabilities every SDK version shares; subclasses add block and chunk access
+   */
+  protected probe(): WorldCapabilities {
+    const registry = this.world?.blockTypeRegistry;
+    const chunkStorage = this.world?._chunks || this.world?.chunks;
+    return {
+      loadMap: typeof this.world?.loadMap === 'function',
+      setBlock: false,
+      readChunks: false,
+      injectChunks: false,
+      chunkEvents: false,
+      chunkStorage: typeof chunkStorage?.getOrCreate === 'function',
+      registerBlockTypes: typeof registry?.registerGenericBlockType === 'function',
+      listBlockTypes: typeof registry?.getAllBlockTypes === 'function' || registry?._blockTypes instanceof Map,
+      colliders: false,
+      entities: typeof BaseWorldAdapter.sdk()?.Entity === 'function'
+    };
+  }
+  
+  /**
+   * Where a map entity stands: its "x,y,z" key, or a position field for entity lists
+   */
+  private entityPosition(key: string, options: any): { x: number; y: number; z: number } | null {
+    const coordinates = key.split(',').map(Number);
+    if (coordinates.length === 3 && coordinates.every(Number.isFinite)) {
+      return { x: coordinates[0], y: coordinates[1], z: coordinates[2] };
+    }
+    const position = options?.position;
+    return position && [position.x, position.y, position.z].every(Number.isFinite) ? position : null;
+  }
+  
+  /**
+   * A spawned entity matching a map entry, for entities this adapter didn't spawn
+   */
+  private findMapEntity(key: string, options: any): any {
+    const position = this.entityPosition(key, options);
+    const entityManager = this.world?.entityManager;
+    if (!position || typeof entityManager?.getAllEntities !== 'function') return undefined;
+    
+    return entityManager.getAllEntities().find((entity: any) =>
+      entity.modelUri === options?.modelUri &&
+      Math.abs(entity.position?.x - position.x) < 1e-3 &&
+      Math.abs(entity.position?.y - position.y) < 1e-3 &&
+      Math.abs(entity.position?.z - position.z) < 1e-3
+    );
+  }
+  
+  /**
+   * Throw when a capability is missing instead of failing deep inside the SDK
+   */
+  protected require(capability: WorldCapability, detail: string): void {
+    if (!this.capabilities[capability]) {
+      throw new Error(`World has no ${capability} (${detail}; adapter "${this.name}")`);
+    }
+  }
+}
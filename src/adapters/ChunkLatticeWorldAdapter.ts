@@ -0,0 +1,236 @@
+import { ColliderBox, WorldCapabilities, WorldChunk } from '../types';
+import { ChunkArray, ChunkBlockArray } from '../utils/ChunkArray';
+import { BaseWorldAdapter } from './BaseWorldAdapter';
+
+/**
+ * Worlds with a chunkLattice (current Hytopia SDK)
+ * Blocks go through chunkLattice.setBlock, chunks are read from and injected
+ * into the lattice's chunk map, and clients learn about injected chunks through
+ * the CHUNK_LATTICE.ADD_CHUNK event, sent by announceChunks() once a batch is
+ * in place. Injected chunks get no colliders from the SDK; addColliders() gives
+ * them block colliders in world.simulation, kept per chunk so replaceColliders()
+ * can rebuild one chunk's colliders after its blocks change.
+ */
+export class ChunkLatticeWorldAdapter extends BaseWorldAdapter {
+  readonly name: string = 'chunk-lattice';
+  
+  static matches(world: any): boolean {
+    return !!world?.chunkLattice;
+  }
+  
+  setBlock(coordinate: { x: number; y: number; z: number }, id: number): void {
+    this.require('setBlock', 'chunkLattice.setBlock or world.setBlock');
+    const chunkLattice = this.world.chunkLattice;
+    if (typeof chunkLattice.setBlock === 'function') {
+      chunkLattice.setBlock(coordinate, id);
+    } else {
+      this.world.setBlock(coordinate, id);
+    }
+  }
+  
+  getChunks(): WorldChunk[] {
+    this.require('readChunks', 'chunkLattice.getAllChunks() or chunkLattice._chunks');
+    const chunkLattice = this.world.chunkLattice;
+    const chunks: Iterable<any> = typeof chunkLattice.getAllChunks === 'function'
+      ? chunkLattice.getAllChunks()
+      : chunkLattice._chunks.values();
+    
+    const result: WorldChunk[] = [];
+    for (const chunk of chunks) {
+      const origin = chunk.originCoordinate ?? chunk._originCoordinate;
+      if (!origin) continue;
+      result.push({ origin, blocks: chunk.blocks ?? chunk._blocks ?? null, source: chunk });
+    }
+    return result;
+  }
+  
+  /**
+   * Empty the lattice and make sure the maps injectChunk writes to exist
+   * Colliders added for earlier injected chunks are removed with them.
+   */
+  clearChunks(): void {
+    this.require('injectChunks', 'chunkLattice._chunks');
+    const chunkLattice = this.world.chunkLattice;
+    if (chunkLattice.clear) {
+      chunkLattice.clear();
+    }
+    
+    for (const colliders of this.chunkColliders().values()) {
+      for (const collider of colliders) {
+        collider.removeFromSimulation();
+      }
+    }
+    chunkLattice._injectedColliders = new Map();
+    
+    if (!chunkLattice._chunks) chunkLattice._chunks = new Map();
+    if (!chunkLattice._blockTypeColliders) chunkLattice._blockTypeColliders = new Map();
+    if (!chunkLattice._blockTypeCounts) chunkLattice._blockTypeCounts = new Map();
+  }
+  
+  /**
+   * Insert one chunk into the chunkLattice (HyFire8 style)
+   * Clients are not told yet - announceChunks() sends ADD_CHUNK for it.
+   * @returns Number of non-air blocks in the chunk
+   */
+  injectChunk(origin: { x: number; y: number; z: number }, typedBlockArray: ChunkBlockArray): number {
+    this.require('injectChunks', 'chunkLattice._chunks');
+    const chunkLattice = this.world.chunkLattice;
+    if (!chunkLattice._chunks) chunkLattice._chunks = new Map();
+    
+    // Add to chunkLattice
+    const chunkKey = `${origin.x},${origin.y},${origin.z}`;
+    chunkLattice._chunks.set(chunkKey, this.createChunk(origin, typedBlockArray));
+    const chunkColliders = this.chunkColliders();
+    if (!chunkColliders.has(chunkKey)) chunkColliders.set(chunkKey, []);
+    
+    // Count non-zero blocks and update counts
+    let blockCount = 0;
+    for (let i = 0; i < typedBlockArray.length; i++) {
+      const blockId = typedBlockArray[i];
+      if (blockId !== 0) {
+        blockCount++;
+        if (chunkLattice._blockTypeCounts) {
+          const currentCount = chunkLattice._blockTypeCounts.get(blockId) || 0;
+          chunkLattice._blockTypeCounts.set(blockId, currentCount + 1);
+        }
+      }
+    }
+    
+    return blockCount;
+  }
+  
+  /**
+   * Emit CHUNK_LATTICE.ADD_CHUNK for injected chunks, as the SDK does when it creates one
+   * The network synchronizer listens for it on the world: emitWithWorld() reaches
+   * both lattice and world listeners, older SDKs get emit() on each.
+   * @returns Number of events emitted
+   */
+  announceChunks(origins: Array<{ x: number; y: number; z: number }>): number {
+    this.require('chunkEvents', 'chunkLattice.emitWithWorld(), chunkLattice.emit() or world.emit()');
+    const chunkLattice = this.world.chunkLattice;
+    
+    let announced = 0;
+    for (const origin of origins) {
+      const chunk = chunkLattice._chunks?.get(`${origin.x},${origin.y},${origin.z}`);
+      if (!chunk) continue;
+      
+      const payload = { chunkLattice, chunk };
+      if (typeof chunkLattice.emitWithWorld === 'function') {
+        chunkLattice.emitWithWorld(this.world, 'CHUNK_LATTICE.ADD_CHUNK', payload);
+      } else {
+        if (typeof chunkLattice.emit === 'function') chunkLattice.emit('CHUNK_LATTICE.ADD_CHUNK', payload);
+        if (typeof this.world.emit === 'function') this.world.emit('CHUNK_LATTICE.ADD_CHUNK', payload);
+      }
+      announced++;
+    }
+    return announced;
+  }
+  
+  /**
+   * One SDK block collider per box, added to world.simulation
+   * Boxes never cross a chunk, so each collider is filed under its box's chunk.
+   * @returns Number of colliders added
+   */
+  addColliders(boxes: ColliderBox[]): number {
+    this.require('colliders', 'world.simulation and the hytopia Collider class');
+    const { Collider, ColliderShape } = BaseWorldAdapter.sdk();
+    const chunkColliders = this.chunkColliders();
+    
+    for (const box of boxes) {
+      const collider = new Collider({
+        shape: ColliderShape?.BLOCK ?? 'block',
+        halfExtents: { x: box.width / 2, y: box.height / 2, z: box.depth / 2 },
+        relativePosition: { x: box.x + box.width / 2, y: box.y + box.height / 2, z: box.z + box.depth / 2 }
+      });
+      collider.addToSimulation(this.world.simulation);
+      
+      const chunkKey = `${box.x & ~15},${box.y & ~15},${box.z & ~15}`;
+      if (!chunkColliders.has(chunkKey)) chunkColliders.set(chunkKey, []);
+      chunkColliders.get(chunkKey)!.push(collider);
+    }
+    return boxes.length;
+  }
+  
+  /**
+   * Swap one chunk's colliders for new boxes, after its blocks changed
+   * @returns Number of colliders added
+   */
+  replaceColliders(origin: { x: number; y: number; z: number }, boxes: ColliderBox[]): number {
+    this.require('colliders', 'world.simulation and the hytopia Collider class');
+    const chunkKey = `${origin.x},${origin.y},${origin.z}`;
+    const chunkColliders = this.chunkColliders();
+    for (const collider of chunkColliders.get(chunkKey) || []) {
+      collider.removeFromSimulation();
+    }
+    chunkColliders.set(chunkKey, []);
+    return this.addColliders(boxes);
+  }
+  
+  isInjected(origin: { x: number; y: number; z: number }): boolean {
+    return this.chunkColliders().has(`${origin.x},${origin.y},${origin.z}`);
+  }
+  
+  /**
+   * Colliders of each injected chunk, keyed by chunk origin ("x,y,z")
+   */
+  private chunkColliders(): Map<string, any[]> {
+    const chunkLattice = this.world.chunkLattice;
+    if (!(chunkLattice._injectedColliders instanceof Map)) chunkLattice._injectedColliders = new Map();
+    return chunkLattice._injectedColliders;
+  }
+  
+  /**
+   * The SDK's own Chunk when it can be loaded, so injected chunks serialize for
+   * clients exactly like chunks the SDK creates; a look-alike object otherwise
+   */
+  private createChunk(origin: { x: number; y: number; z: number }, typedBlockArray: ChunkBlockArray): any {
+    const SdkChunk = BaseWorldAdapter.sdk()?.Chunk;
+    if (typeof SdkChunk === 'function') {
+      try {
+        const chunk = new SdkChunk(origin);
+        chunk._blocks = typedBlockArray;
+        return chunk;
+      } catch {}
+    }
+    
+    // Create chunk object (exactly like HyFire8)
+    return {
+      _blocks: typedBlockArray,
+      _originCoordinate: origin,
+      blocks: typedBlockArray,
+      originCoordinate: origin,
+      getBlockId: function(localCoord: any) {
+        const index = localCoord.x + (localCoord.y << 4) + (localCoord.z << 8);
+        return this._blocks[index];
+      },
+      hasBlock: function(localCoord: any) {
+        const index = localCoord.x + (localCoord.y << 4) + (localCoord.z << 8);
+        return this._blocks[index] !== 0;
+      },
+      setBlock: function(localCoord: any, blockId: number) {
+        const index = localCoord.x + (localCoord.y << 4) + (localCoord.z << 8);
+        // Switch an 8-bit chunk to 16-bit storage rather than truncate the ID
+        this._blocks = this.blocks = ChunkArray.widen(this._blocks, blockId);
+        this._blocks[index] = blockId;
+      },
+      serialize: function() {
+        return {
+          c: [this._originCoordinate.x, this._originCoordinate.y, this._originCoordinate.z],
+          b: Array.from(this._blocks)
+        };
+      }
+    };
+  }
+  
+  protected probe(): WorldCapabilities {
+    const chunkLattice = this.world.chunkLattice;
+    return {
+      ...super.probe(),
+      setBlock: typeof chunkLattice.setBlock === 'function' || typeof this.world.setBlock === 'function',
+      readChunks: typeof chunkLattice.getAllChunks === 'function' || chunkLattice._chunks instanceof Map,
+      injectChunks: !chunkLattice._chunks || chunkLattice._chunks instanceof Map,
+      chunkEvents: typeof chunkLattice.emitWithWorld === 'function' || typeof chunkLattice.emit === 'function' || typeof this.world.emit === 'function',
+      colliders: !!this.world.simulation && typeof BaseWorldAdapter.sdk()?.Collider === 'function'
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { ColliderBox, WorldCapabilities, WorldChunk } from '../types';
+import { ChunkBlockArray } from '../utils/ChunkArray';
+import { BaseWorldAdapter } from './BaseWorldAdapter';
+
+/**
+ * Worlds without a chunkLattice (older SDKs)
+ * Blocks are placed with world.setBlock, or written into world._chunks /
+ * world.chunks when that storage has getOrCreate(). Also used for worlds no
+ * other adapter recognises, so their missing capabilities are still reported.
+ */
+export class LegacyWorldAdapter extends BaseWorldAdapter {
+  readonly name: string = 'legacy';
+  
+  static matches(world: any): boolean {
+    return typeof world?.setBlock === 'function' || !!(world?._chunks || world?.chunks);
+  }
+  
+  setBlock(coordinate: { x: number; y: number; z: number }, id: number): void {
+    this.require('setBlock', 'world.setBlock');
+    this.world.setBlock(coordinate, id);
+  }
+  
+  getChunks(): WorldChunk[] {
+    this.require('readChunks', 'world.chunkLattice');
+    return [];
+  }
+  
+  clearChunks(): void {
+    this.require('injectChunks', 'world.chunkLattice');
+  }
+  
+  injectChunk(_origin: { x: number; y: number; z: number }, _blocks: ChunkBlockArray): number {
+    this.require('injectChunks', 'world.chunkLattice');
+    return 0;
+  }
+  
+  announceChunks(_origins: Array<{ x: number; y: number; z: number }>): number {
+    this.require('chunkEvents', 'world.chunkLattice');
+    return 0;
+  }
+  
+  addColliders(_boxes: ColliderBox[]): number {
+    this.require('colliders', 'world.chunkLattice');
+    return 0;
+  }
+  
+  replaceColliders(_origin: { x: number; y: number; z: number }, _boxes: ColliderBox[]): number {
+    this.require('colliders', 'world.chunkLattice');
+    return 0;
+  }
+  
+  isInjected(_origin: { x: number; y: number; z: number }): boolean {
+    return false;
+  }
+  
+  protected probe(): WorldCapabilities {
+    return {
+      ...super.probe(),
+      setBlock: typeof this.world?.setBlock === 'function'
+    };
+  }
+}
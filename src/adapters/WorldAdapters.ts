@@ -0,0 +1,83 @@
+import { WorldAdapter, WorldAdapterFactory } from '../types';
+import { ChunkLatticeWorldAdapter } from './ChunkLatticeWorldAdapter';
+import { LegacyWorldAdapter } from './LegacyWorldAdapter';
+
+/**
+ * Registry of world adapters and detection of the right one for a world
+ * Adapters are tried most recently registered first, so an adapter for a new
+ * SDK version takes precedence over the built-in ones. A world no adapter
+ * matches gets the legacy adapter, which reports every capability it lacks.
+ */
+export class WorldAdapters {
+  private static readonly builtins: WorldAdapterFactory[] = [
+    {
+      name: 'chunk-lattice',
+      matches: world => ChunkLatticeWorldAdapter.matches(world),
+      create: world => new ChunkLatticeWorldAdapter(world)
+    },
+    {
+      name: 'legacy',
+      matches: world => LegacyWorldAdapter.matches(world),
+      create: world => new LegacyWorldAdapter(world)
+    }
+  ];
+  
+  private static factories: WorldAdapterFactory[] = [...WorldAdapters.builtins];
+  
+  /**
+   * Register an adapter, replacing any existing adapter with that name
+   */
+  static register(factory: WorldAdapterFactory): void {
+    if (!factory?.name) {
+      throw new Error('World adapter name must not be empty');
+    }
+    if (typeof factory.matches !== 'function' || typeof factory.create !== 'function') {
+      throw new Error(`World adapter "${factory.name}" must provide matches() and create()`);
+    }
+    this.unregister(factory.name);
+    this.factories.unshift(factory);
+  }
+  
+  /**
+   * Remove a registered adapter
+   */
+  static unregister(name: string): boolean {
+    const count = this.factories.length;
+    this.factories = this.factories.filter(factory => factory.name !== name);
+    return this.factories.length < count;
+  }
+  
+  static list(): string[] {
+    return this.factories.map(factory => factory.name);
+  }
+  
+  /**
+   * True for objects that already are an adapter rather than a world
+   */
+  static isAdapter(value: any): value is WorldAdapter {
+    return !!value &&
+      typeof value.report === 'function' &&
+      typeof value.injectChunk === 'function' &&
+      typeof value.capabilities === 'object';
+  }
+  
+  /**
+   * Adapter for a world - an adapter is returned as is
+   */
+  static detect(world: any): WorldAdapter {
+    if (this.isAdapter(world)) return world;
+    const factory = this.factories.find(candidate => candidate.matches(world));
+    return factory ? factory.create(world) : new LegacyWorldAdapter(world);
+  }
+  
+  /**
+   * Create a named adapter for a world, skipping detection
+   */
+  static create(name: string, world: any): WorldAdapter {
+    const factory = this.factories.find(candidate => candidate.name === name);
+    if (!factory) {
+      throw new Error(`Unknown world adapter "${name}" (registered: ${this.list().join(', ')})`);
+    }
+    return factory.create(world);
+  }
+}
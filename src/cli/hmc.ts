@@ -0,0 +1,495 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { MapCompression } from '../core/MapCompression';
+import { MapContainer } from '../core/MapContainer';
+import { ChunkContainer } from '../core/ChunkContainer';
+import { MapFormat } from '../core/MapFormat';
+import { MapVerifier } from '../core/MapVerifier';
+import { MapDecompressor } from '../core/MapDecompressor';
+import { PrecomputeChunks } from '../tools/PrecomputeChunks';
+import { LoaderConformance } from '../testing/LoaderConformance';
+import { ConfigLoader } from '../utils/ConfigLoader';
+import { DetailedBenchmark } from '../utils/DetailedBenchmark';
+import { VoxelStore } from '../utils/VoxelStore';
+import { LoaderStrategy, MapCompressionOptions, MapData } from '../types';
+
+interface CliArgs {
+  command?: string;
+  files: string[];
+  flags: { [name: string]: string | boolean };
+}
+
+type CommandHandler = (args: CliArgs, options: MapCompressionOptions) => Promise<number>;
+
+/**
+ * hmc - command-line front end for map compression
+ * Every command reads map-compression.yaml through ConfigLoader (or --config)
+ * and exits non-zero on failure: 1 when the command fails, 2 on bad usage.
+ */
+export class HmcCli {
+  static readonly EXIT_OK = 0;
+  static readonly EXIT_FAILURE = 1;
+  static readonly EXIT_USAGE = 2;
+  
+  // Flags that take a value, with their short forms
+  private static readonly VALUE_FLAGS: { [name: string]: string } = {
+    output: 'o',
+    config: 'c',
+    format: 'f',
+    iterations: 'n',
+    strategies: 's'
+  };
+  private static readonly BOOLEAN_FLAGS = ['json', 'debug', 'validate', 'help'];
+  
+  private static readonly COMMANDS: { [name: string]: { usage: string; description: string } } = {
+    compress: { usage: 'compress <map.json> [-o out.hmc] [-f hmc|json] [--validate]', description: 'Compress a map (.hmc container unless -f json or a .json output)' },
+    decompress: { usage: 'decompress <map.hmc|map.compressed.json> [-o map.decompressed.json]', description: 'Decompress any compressed map format back to map JSON' },
+    precompute: { usage: 'precompute <map.json> [-o map.chunks.bin] [-f binary|json]', description: 'Write a precomputed chunk cache' },
+    inspect: { usage: 'inspect <file> [--json]', description: 'Show format, blocks, bounds and encoding of a map, compressed map or chunk cache' },
+    verify: { usage: 'verify <file...> [--json]', description: 'Check CRC32s of compressed maps and chunk caches' },
+    bench: { usage: 'bench <map.json> [-n iterations] [--json]', description: 'Benchmark compression and decompression of a map' },
+    conform: { usage: 'conform <map> [-s default,chunks,...] [--json]', description: 'Load a map through every loading strategy and report blocks they disagree on' }
+  };
+  
+  /**
+   * Run a command line (without node and script path), resolving to the exit code
+   */
+  static async run(argv: string[]): Promise<number> {
+    let args: CliArgs;
+    try {
+      args = this.parseArgs(argv);
+    } catch (error: any) {
+      return this.usageError(error.message);
+    }
+    
+    if (!args.command || args.flags.help) {
+      this.printUsage(args.command);
+      return args.command || args.flags.help ? this.EXIT_OK : this.EXIT_USAGE;
+    }
+    
+    const handlers: { [name: string]: CommandHandler } = {
+      compress: (a, o) => this.compress(a, o),
+      decompress: (a, o) => this.decompress(a, o),
+      precompute: (a, o) => this.precompute(a, o),
+      inspect: (a, o) => this.inspect(a, o),
+      verify: (a, o) => this.verify(a, o),
+      bench: (a, o) => this.bench(a, o),
+      conform: (a, o) => this.conform(a, o)
+    };
+    const handler = handlers[args.command];
+    if (!handler) {
+      return this.usageError(`Unknown command "${args.command}"`);
+    }
+    
+    if (args.files.length === 0) {
+      return this.usageError(`Missing input file\n  hmc ${this.COMMANDS[args.command].usage}`);
+    }
+    const missing = args.files.find(file => !fs.existsSync(file));
+    if (missing) {
+      return this.usageError(`File not found: ${missing}`);
+    }
+    
+    const configPath = args.flags.config as string | undefined;
+    if (configPath && !fs.existsSync(configPath)) {
+      return this.usageError(`Config file not found: ${configPath}`);
+    }
+    
+    try {
+      const options = ConfigLoader.loadConfig(configPath);
+      if (args.flags.debug) {
+        options.debug = true;
+        options.logger = console.log;
+      } else if (args.flags.json) {
+        options.metrics = false; // Keep stdout parseable
+      }
+      return await handler(args, options);
+    } catch (error: any) {
+      console.error(`❌ hmc ${args.command} failed: ${error.message}`);
+      return this.EXIT_FAILURE;
+    }
+  }
+  
+  /**
+   * Split argv into command, files and flags ("--name value", "--name=value", "-n value")
+   */
+  static parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { files: [], flags: {} };
+    
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (!arg.startsWith('-') || arg === '-') {
+        if (args.command === undefined) {
+          args.command = arg;
+        } else {
+          args.files.push(arg);
+        }
+        continue;
+      }
+      
+      let name: string;
+      let value: string | undefined;
+      if (arg.startsWith('--')) {
+        [name, value] = arg.slice(2).split(/=(.*)/s);
+      } else {
+        const short = arg.slice(1);
+        name = short === 'h'
+          ? 'help'
+          : Object.keys(this.VALUE_FLAGS).find(flag => this.VALUE_FLAGS[flag] === short) ?? short;
+      }
+      
+      if (this.BOOLEAN_FLAGS.includes(name)) {
+        if (value !== undefined) throw new Error(`Flag --${name} does not take a value`);
+        args.flags[name] = true;
+      } else if (name in this.VALUE_FLAGS) {
+        if (value === undefined) value = argv[++i];
+        if (value === undefined || value === '') throw new Error(`Flag --${name} needs a value`);
+        args.flags[name] = value;
+      } else {
+        throw new Error(`Unknown flag ${arg}`);
+      }
+    }
+    return args;
+  }
+  
+  /**
+   * compress <map.json>: .hmc container by default, JSON for -f json or a .json output
+   */
+  private static async compress(args: CliArgs, options: MapCompressionOptions): Promise<number> {
+    const input = args.files[0];
+    const format = this.flag(args, 'format') ?? (this.flag(args, 'output')?.endsWith('.json') ? 'json' : 'hmc');
+    if (format !== 'hmc' && format !== 'json') {
+      return this.usageError(`Unknown compress format "${format}" (hmc or json)`);
+    }
+    const output = this.flag(args, 'output') ?? this.replaceExtension(input, format === 'hmc' ? '.hmc' : '.compressed.json');
+    if (args.flags.validate) {
+      options.validation = { ...options.validation, beforeCompress: true };
+    }
+    
+    const startTime = Date.now();
+    const mapData = this.readJson(input) as MapData;
+    const mc = new MapCompression(null, options);
+    const compressedMap = await mc.createCompressedMapFile(mapData);
+    const content = format === 'hmc'
+      ? MapContainer.encode(compressedMap)
+      : Buffer.from(JSON.stringify(compressedMap, null, 2));
+    fs.writeFileSync(output, content);
+    
+    const inputSize = fs.statSync(input).size;
+    console.log(`✅ Compressed ${input} → ${output}`);
+    console.log(`   Blocks: ${compressedMap.metadata.blockCount}`);
+    console.log(`   Size: ${this.formatBytes(inputSize)} → ${this.formatBytes(content.length)} (${((1 - content.length / inputSize) * 100).toFixed(1)}% smaller)`);
+    console.log(`   Time taken: ${Date.now() - startTime}ms`);
+    return this.EXIT_OK;
+  }
+  
+  /**
+   * decompress <compressed map>: any format MapFormat reads, back to map JSON
+   */
+  private static async decompress(args: CliArgs, options: MapCompressionOptions): Promise<number> {
+    const input = args.files[0];
+    const output = this.flag(args, 'output') ?? this.replaceExtension(input, '.decompressed.json');
+    if (path.resolve(output) === path.resolve(input)) {
+      return this.usageError('Output would overwrite the input, pass a different -o');
+    }
+    
+    const startTime = Date.now();
+    const mc = new MapCompression(null, options);
+    const result = await mc.decompress(this.readCompressed(input));
+    const mapData = {
+      ...result.fields,
+      blocks: result.blocks,
+      blockTypes: result.blockTypes,
+      entities: result.entities,
+      version: result.version
+    };
+    fs.writeFileSync(output, JSON.stringify(mapData));
+    
+    console.log(`✅ Decompressed ${input} → ${output}`);
+    console.log(`   Blocks: ${VoxelStore.count(result.blocks)}`);
+    console.log(`   Time taken: ${Date.now() - startTime}ms`);
+    return this.EXIT_OK;
+  }
+  
+  /**
+   * precompute <map.json>: MCB2 binary chunks by default, or Brotli JSON chunks
+   * Like autoLoad's caches they keep the map's block IDs; blockIds.remap applies on load.
+   */
+  private static async precompute(args: CliArgs, options: MapCompressionOptions): Promise<number> {
+    const input = args.files[0];
+    const format = this.flag(args, 'format') ?? 'binary';
+    if (format !== 'binary' && format !== 'json') {
+      return this.usageError(`Unknown precompute format "${format}" (binary or json)`);
+    }
+    const output = this.flag(args, 'output') ?? this.replaceExtension(input, format === 'binary' ? '.chunks.bin' : '.chunks');
+    
+    if (options.blockIds?.remap) {
+      console.log(`   Block IDs are stored as in the map; blockIds.remap (${options.blockIds.remap}) is applied when the cache is loaded`);
+    }
+    if (format === 'binary') {
+      await PrecomputeChunks.createBinaryChunks(input, output, options);
+    } else {
+      await PrecomputeChunks.precomputeFromMapFile(input, output, options);
+    }
+    return this.EXIT_OK;
+  }
+  
+  /**
+   * inspect <file>: what a file is and what it holds
+   */
+  private static async inspect(args: CliArgs, options: MapCompressionOptions): Promise<number> {
+    const input = args.files[0];
+    const buffer = fs.readFileSync(input);
+    const info: { [field: string]: any } = { file: input, size: buffer.length };
+    const integrity = MapVerifier.verify(buffer);
+    
+    if (integrity.format === 'hmc' || integrity.format === 'compressed-json') {
+      const source = integrity.format === 'hmc' ? buffer : JSON.parse(buffer.toString('utf-8'));
+      const compressedMap = await MapFormat.read(source);
+      const detected = MapFormat.detect(source);
+      info.format = detected.format + (detected.containerVersion ? ` v${detected.containerVersion}` : '');
+      info.current = detected.current;
+      if (!detected.current) info.notCurrent = detected.reasons;
+      info.blocks = compressedMap.metadata?.blockCount;
+      info.bounds = compressedMap.bounds;
+      info.blockTypes = Object.keys(compressedMap.blockTypes || {}).length;
+      info.encoding = compressedMap.options?.blockEncoding || 'varint-delta';
+      info.algorithm = compressedMap.algorithm;
+      info.segments = compressedMap.segments?.length ?? 0;
+      info.entities = Object.keys(compressedMap.entities || {}).length;
+      info.entityEncoding = (Buffer.isBuffer(source) ? MapContainer.decode(source) : source).entityData ? 'packed' : 'json';
+      if (compressedMap.metadata) info.compressionRatio = compressedMap.metadata.compressionRatio;
+      if (compressedMap.sourceHash) info.sourceHash = compressedMap.sourceHash;
+    } else if (integrity.format === 'chunks-binary') {
+      let chunks = 0, blocks = 0;
+      for (const chunk of ChunkContainer.read(buffer)) {
+        chunks++;
+        blocks += chunk.blocks.length;
+      }
+      info.format = buffer.readUInt32LE(0) === ChunkContainer.MAGIC ? 'chunks-binary (MCB2)' : 'chunks-binary (MCB1)';
+      info.chunks = chunks;
+      info.blocks = blocks;
+      info.colliders = ChunkContainer.readColliders(buffer)?.length ?? 'none';
+    } else if (integrity.format === 'chunks-json') {
+      const precomputed = await PrecomputeChunks.loadPrecomputedChunks(input);
+      info.format = 'chunks-json';
+      info.chunks = precomputed.metadata.totalChunks;
+      info.blocks = precomputed.metadata.totalBlocks;
+      info.bounds = precomputed.metadata.bounds;
+      info.sourceHash = precomputed.metadata.sourceHash;
+    } else {
+      const mapData = this.readJson(input);
+      if (!mapData || typeof mapData.blocks !== 'object' || MapDecompressor.isCompressedMap(mapData)) {
+        throw new Error('Not a map, compressed map or chunk cache');
+      }
+      const validation = new MapCompression(null, { ...options, debug: false }).validateMapData(mapData);
+      info.format = 'map-json';
+      info.blocks = validation.blockCount;
+      info.blockTypes = Object.keys(mapData.blockTypes || {}).length;
+      info.valid = validation.valid;
+      info.issues = [...validation.errors, ...validation.warnings].map(issue => `${issue.code} (${issue.count})`);
+    }
+    if (integrity.format !== 'unknown') {
+      info.checksums = integrity.checksummed ? (integrity.valid ? 'valid' : 'INVALID') : 'none';
+    }
+    
+    if (args.flags.json) {
+      console.log(JSON.stringify(info, null, 2));
+    } else {
+      for (const [field, value] of Object.entries(info)) {
+        const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        console.log(`${(field + ':').padEnd(18)}${text}`);
+      }
+    }
+    return integrity.valid || integrity.format === 'unknown' ? this.EXIT_OK : this.EXIT_FAILURE;
+  }
+  
+  /**
+   * verify <file...>: CRC32 report per file, failing when any file is corrupt
+   */
+  private static async verify(args: CliArgs, options: MapCompressionOptions): Promise<number> {
+    const mc = new MapCompression(null, options);
+    const reports: { [file: string]: any } = {};
+    let failed = 0;
+    
+    for (const file of args.files) {
+      const result = await mc.verify(file);
+      reports[file] = result;
+      if (!result.valid) failed++;
+      
+      if (!args.flags.json) {
+        const checked = result.checksummed ? `${result.sections.length} sections` : 'no checksums, structure only';
+        console.log(`${result.valid ? '✅' : '❌'} ${file} (${result.format}, ${checked})`);
+        result.errors.forEach(error => console.log(`   ${error}`));
+      }
+    }
+    
+    if (args.flags.json) {
+      console.log(JSON.stringify(reports, null, 2));
+    }
+    return failed === 0 ? this.EXIT_OK : this.EXIT_FAILURE;
+  }
+  
+  /**
+   * bench <map.json>: compression and decompression timings over n iterations
+   */
+  private static async bench(args: CliArgs, options: MapCompressionOptions): Promise<number> {
+    const iterations = Number(this.flag(args, 'iterations') ?? 3);
+    if (!Number.isInteger(iterations) || iterations < 1) {
+      return this.usageError(`--iterations must be a positive integer`);
+    }
+    
+    const input = args.files[0];
+    const benchmark = new DetailedBenchmark(!args.flags.json);
+    const mc = new MapCompression(null, options);
+    const compressTimes: number[] = [];
+    const decompressTimes: number[] = [];
+    let compressedSize = 0;
+    
+    const benchStart = Date.now();
+    benchmark.start();
+    benchmark.startStep('File Read', { path: input });
+    const mapData = this.readJson(input) as MapData;
+    benchmark.finishStep({ sizeBytes: fs.statSync(input).size });
+    
+    for (let i = 1; i <= iterations; i++) {
+      let startTime = Date.now();
+      benchmark.startStep(`Compression #${i}`);
+      const container = await mc.createBinaryMapFile(mapData);
+      benchmark.finishStep({ sizeBytes: container.length });
+      compressTimes.push(Date.now() - startTime);
+      compressedSize = container.length;
+      
+      startTime = Date.now();
+      benchmark.startStep(`Decompression #${i}`);
+      const result = await mc.decompress(container);
+      benchmark.finishStep({ blocks: VoxelStore.count(result.blocks) });
+      decompressTimes.push(Date.now() - startTime);
+    }
+    benchmark.finish();
+    
+    const average = (times: number[]) => Math.round(times.reduce((sum, time) => sum + time, 0) / times.length);
+    const summary = {
+      file: input,
+      blocks: VoxelStore.count(mapData.blocks),
+      iterations,
+      originalSize: fs.statSync(input).size,
+      compressedSize,
+      compressMs: { average: average(compressTimes), min: Math.min(...compressTimes), max: Math.max(...compressTimes) },
+      decompressMs: { average: average(decompressTimes), min: Math.min(...decompressTimes), max: Math.max(...decompressTimes) },
+      totalMs: Date.now() - benchStart
+    };
+    
+    if (args.flags.json) {
+      console.log(JSON.stringify(summary, null, 2));
+    } else {
+      console.log(`Compress:   ${summary.compressMs.average}ms avg (${summary.compressMs.min}-${summary.compressMs.max}ms)`);
+      console.log(`Decompress: ${summary.decompressMs.average}ms avg (${summary.decompressMs.min}-${summary.decompressMs.max}ms)`);
+      console.log(`Size:       ${this.formatBytes(summary.originalSize)} → ${this.formatBytes(compressedSize)}`);
+    }
+    return this.EXIT_OK;
+  }
+  
+  /**
+   * conform <map>: every loading strategy into its own FakeWorld, failing on any disagreement
+   */
+  private static async conform(args: CliArgs, options: MapCompressionOptions): Promise<number> {
+    const strategies = this.flag(args, 'strategies')?.split(',').map(strategy => strategy.trim()) as LoaderStrategy[] | undefined;
+    const unknown = strategies?.find(strategy => !LoaderConformance.STRATEGIES.includes(strategy));
+    if (unknown) {
+      return this.usageError(`Unknown loader strategy "${unknown}" (${LoaderConformance.STRATEGIES.join(', ')})`);
+    }
+    
+    const input = args.files[0];
+    const report = await LoaderConformance.check(input, { strategies, compression: options });
+    
+    if (args.flags.json) {
+      console.log(JSON.stringify({ file: input, ...report }, null, 2));
+    } else {
+      console.log(`${input}: ${report.blockCount} blocks`);
+      for (const result of report.strategies) {
+        const detail = result.error
+          ? `failed: ${result.error}`
+          : result.matches ? `${result.blockCount} blocks` : `${result.differences} blocks differ`;
+        console.log(`${result.matches ? '✅' : '❌'} ${result.strategy.padEnd(20)}${detail} (${result.timeMs}ms)`);
+        for (const sample of result.samples) {
+          console.log(`   ${sample.x},${sample.y},${sample.z}: expected ${sample.expected}, got ${sample.actual}`);
+        }
+        if (result.differences > result.samples.length) {
+          console.log(`   ... ${result.differences - result.samples.length} more`);
+        }
+      }
+    }
+    return report.conforms ? this.EXIT_OK : this.EXIT_FAILURE;
+  }
+  
+  private static printUsage(command?: string): void {
+    const spec = command ? this.COMMANDS[command] : undefined;
+    if (spec) {
+      console.log(`Usage: hmc ${spec.usage}\n\n${spec.description}`);
+      return;
+    }
+    
+    console.log('Usage: hmc <command> <file> [options]\n');
+    console.log('Commands:');
+    for (const name of Object.keys(this.COMMANDS)) {
+      console.log(`  ${name.padEnd(12)}${this.COMMANDS[name].description}`);
+    }
+    console.log('\nOptions:');
+    console.log('  -o, --output <path>      Output file (default: next to the input)');
+    console.log('  -f, --format <format>    Output format (compress: hmc|json, precompute: binary|json)');
+    console.log('  -c, --config <path>      Config file (default: assets/config/map-compression.yaml)');
+    console.log('  -n, --iterations <n>     Benchmark iterations (default: 3)');
+    console.log('  -s, --strategies <list>  Loading strategies to compare (conform, default: all but precomputed-legacy)');
+    console.log('  --validate               Validate map data before compressing');
+    console.log('  --json                   Machine-readable output (inspect, verify, bench, conform)');
+    console.log('  --debug                  Log every pipeline step');
+    console.log('  -h, --help               Show help (hmc <command> --help for one command)');
+  }
+  
+  private static usageError(message: string): number {
+    console.error(`❌ ${message}`);
+    console.error('Run "hmc --help" for usage');
+    return this.EXIT_USAGE;
+  }
+  
+  private static flag(args: CliArgs, name: string): string | undefined {
+    const value = args.flags[name];
+    return typeof value === 'string' ? value : undefined;
+  }
+  
+  private static readJson(filePath: string): any {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Could not parse ${filePath} as JSON: ${error.message}`);
+    }
+  }
+  
+  /**
+   * Container buffer or parsed JSON, whichever the file holds
+   */
+  private static readCompressed(filePath: string): any {
+    const raw = fs.readFileSync(filePath);
+    return MapContainer.isContainer(raw) ? raw : this.readJson(filePath);
+  }
+  
+  /**
+   * Swap the extension, treating ".compressed.json" / ".chunks.bin" as one extension
+   */
+  private static replaceExtension(filePath: string, extension: string): string {
+    const base = filePath.replace(/(\.compressed\.json|\.chunks\.bin|\.[^./\\]+)$/, '');
+    return base + extension;
+  }
+  
+  private static formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  }
+}
+
+if (require.main === module) {
+  HmcCli.run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
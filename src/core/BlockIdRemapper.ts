@@ -0,0 +1,251 @@
+import { VoxelStore, BlockSource } from '../utils/VoxelStore';
+import { ChunkArray, ChunkBlockArray } from '../utils/ChunkArray';
+import { WorldAdapters } from '../adapters/WorldAdapters';
+import { BlockIdRemapMode, DecodedBlock, MapData } from '../types';
+
+/**
+ * Block ID remapping between a map and the world it is loaded into
+ * Maps an old (map) ID to a new (world) ID and applies that mapping to blocks,
+ * chunk arrays, block type lists and entity fields alike. Air (0) is never
+ * remapped. IDs missing from the map's block types get the next free ID the
+ * first time they are seen, so they can never collide with a mapped ID.
+ */
+export class BlockIdRemapper {
+  static readonly DEFAULT_ENTITY_FIELDS = ['blockId', 'blockTypeId'];
+  
+  private mapping: Map<number, number>;
+  private used: Set<number>;
+  private nextFree = 1;
+  private entityFields: Set<string>;
+  
+  constructor(mapping: Map<number, number>, reserved: Iterable<number> = [], entityFields: string[] = BlockIdRemapper.DEFAULT_ENTITY_FIELDS) {
+    this.mapping = new Map(mapping);
+    this.used = new Set([...reserved, ...mapping.values()]);
+    this.entityFields = new Set(entityFields);
+  }
+  
+  /**
+   * Renumber the map's block types to 1..n in order of their current ID
+   */
+  static compact(blockTypes: any, entityFields?: string[]): BlockIdRemapper {
+    const ids = this.blockTypeList(blockTypes)
+      .map(blockType => blockType.id)
+      .sort((a, b) => a - b);
+    
+    const mapping = new Map<number, number>();
+    for (const id of ids) {
+      if (!mapping.has(id)) mapping.set(id, mapping.size + 1);
+    }
+    return new BlockIdRemapper(mapping, [], entityFields);
+  }
+  
+  /**
+   * Map block types onto IDs the world's blockTypeRegistry already has
+   * The registry may also be given as the list of its block types.
+   * Matches by name and then texture (or as configured). Unmatched types keep
+   * their ID when it is free in the registry and get the next free ID otherwise.
+   */
+  static matchRegistry(
+    blockTypes: any,
+    registry: any,
+    matchBy: Array<'name' | 'textureUri'> = ['name', 'textureUri'],
+    entityFields?: string[]
+  ): BlockIdRemapper {
+    const registered = this.registryTypes(registry);
+    const mapping = new Map<number, number>();
+    const unmatched: number[] = [];
+    
+    for (const blockType of this.blockTypeList(blockTypes)) {
+      let match: any;
+      for (const field of matchBy) {
+        if (!blockType[field]) continue;
+        match = registered.find(candidate => candidate[field] === blockType[field]);
+        if (match) break;
+      }
+      if (match) {
+        mapping.set(blockType.id, match.id);
+      } else {
+        unmatched.push(blockType.id);
+      }
+    }
+    
+    const remapper = new BlockIdRemapper(mapping, registered.map(blockType => blockType.id), entityFields);
+    for (const id of unmatched) {
+      remapper.assign(id, !remapper.used.has(id) ? id : undefined);
+    }
+    return remapper;
+  }
+  
+  /**
+   * Build the remapper for a remap mode, or null when IDs are used verbatim
+   * The world may be a WorldAdapter.
+   */
+  static create(
+    mode: BlockIdRemapMode | undefined,
+    blockTypes: any,
+    world: any,
+    options: { matchBy?: Array<'name' | 'textureUri'>; entityFields?: string[] } = {}
+  ): BlockIdRemapper | null {
+    let remapper: BlockIdRemapper;
+    if (mode === 'compact') {
+      remapper = this.compact(blockTypes, options.entityFields);
+    } else if (mode === 'registry') {
+      remapper = this.matchRegistry(blockTypes, WorldAdapters.detect(world).getBlockTypes(), options.matchBy, options.entityFields);
+    } else if (!mode || mode === 'none') {
+      return null;
+    } else {
+      throw new Error(`Unknown block ID remap mode "${mode}"`);
+    }
+    return remapper.isIdentity ? null : remapper;
+  }
+  
+  /**
+   * True when every known ID maps to itself
+   */
+  get isIdentity(): boolean {
+    for (const [from, to] of this.mapping) {
+      if (from !== to) return false;
+    }
+    return true;
+  }
+  
+  /**
+   * Old to new ID pairs assigned so far
+   */
+  entries(): Map<number, number> {
+    return new Map(this.mapping);
+  }
+  
+  /**
+   * New ID for an old one
+   */
+  map(id: number): number {
+    if (id === 0) return 0;
+    const mapped = this.mapping.get(id);
+    return mapped !== undefined ? mapped : this.assign(id);
+  }
+  
+  /**
+   * Block type list or record with remapped IDs, in the same shape
+   */
+  remapBlockTypes(blockTypes: any): any {
+    if (!blockTypes) return blockTypes;
+    
+    const remapType = (blockType: any) => blockType && typeof blockType.id === 'number'
+      ? { ...blockType, id: this.map(blockType.id) }
+      : blockType;
+    
+    if (Array.isArray(blockTypes)) {
+      return blockTypes.map(remapType);
+    }
+    const result: { [key: string]: any } = {};
+    for (const key of Object.keys(blockTypes)) {
+      result[key] = remapType(blockTypes[key]);
+    }
+    return result;
+  }
+  
+  /**
+   * Remapped copy of blocks, as a dictionary or VoxelStore like the input
+   */
+  remapBlocks(blocks: BlockSource): BlockSource {
+    if (VoxelStore.isVoxelStore(blocks)) {
+      const store = new VoxelStore();
+      blocks.forEach((x, y, z, id) => store.set(x, y, z, this.map(id)));
+      return store;
+    }
+    
+    const result: { [key: string]: number } = {};
+    for (const key in blocks) {
+      result[key] = this.map(blocks[key]);
+    }
+    return result;
+  }
+  
+  /**
+   * Remapped copy of a 16³ chunk array, widened to 16 bits if needed
+   */
+  remapChunk(blocks: ChunkBlockArray): ChunkBlockArray {
+    let result: ChunkBlockArray = new Uint8Array(ChunkArray.VOLUME);
+    for (let i = 0; i < blocks.length; i++) {
+      if (blocks[i] === 0) continue;
+      const id = this.map(blocks[i]);
+      result = ChunkArray.widen(result, id);
+      result[i] = id;
+    }
+    return result;
+  }
+  
+  /**
+   * Remap a stream of decoded block batches as it is consumed
+   */
+  async *remapBlockStream(blockStream: AsyncIterable<DecodedBlock[]>): AsyncGenerator<DecodedBlock[]> {
+    for await (const batch of blockStream) {
+      for (const block of batch) {
+        block.id = this.map(block.id);
+      }
+      yield batch;
+    }
+  }
+  
+  /**
+   * Copy of entities with block ID fields (at any depth) remapped
+   */
+  remapEntities(entities: any): any {
+    if (Array.isArray(entities)) {
+      return entities.map(entity => this.remapEntities(entity));
+    }
+    if (!entities || typeof entities !== 'object') {
+      return entities;
+    }
+    
+    const result: { [key: string]: any } = {};
+    for (const key of Object.keys(entities)) {
+      const value = entities[key];
+      result[key] = this.entityFields.has(key) && typeof value === 'number'
+        ? this.map(value)
+        : this.remapEntities(value);
+    }
+    return result;
+  }
+  
+  /**
+   * Remapped copy of a whole map: blocks, block types and entities
+   */
+  remapMap<T extends MapData>(mapData: T): T {
+    return {
+      ...mapData,
+      blocks: this.remapBlocks(mapData.blocks),
+      blockTypes: this.remapBlockTypes(mapData.blockTypes),
+      entities: this.remapEntities(mapData.entities)
+    };
+  }
+  
+  private assign(from: number, to?: number): number {
+    if (to === undefined) {
+      while (this.used.has(this.nextFree)) this.nextFree++;
+      to = this.nextFree;
+    }
+    this.mapping.set(from, to);
+    this.used.add(to);
+    return to;
+  }
+  
+  private static blockTypeList(blockTypes: any): any[] {
+    const list = Array.isArray(blockTypes) ? blockTypes : Object.values(blockTypes || {});
+    return list.filter(blockType => blockType && typeof blockType.id === 'number');
+  }
+  
+  private static registryTypes(registry: any): any[] {
+    if (Array.isArray(registry)) {
+      return registry;
+    }
+    if (typeof registry?.getAllBlockTypes === 'function') {
+      return registry.getAllBlockTypes();
+    }
+    if (registry?._blockTypes instanceof Map) {
+      return Array.from(registry._blockTypes.values());
+    }
+    return [];
+  }
+}
@@ -0,0 +1,270 @@
+import { Checksum } from '../utils/Checksum';
+import { ColliderBox, DecodedBlock, VerifySection } from '../types';
+
+/**
+ * One chunk of a binary chunk cache, in chunk coordinates
+ */
+export interface BinaryChunk {
+  x: number;
+  y: number;
+  z: number;
+  blocks: DecodedBlock[];
+}
+
+/**
+ * Binary pre-computed chunk cache (.chunks.bin)
+ *
+ * Layout (MCB2):
+ * [magic:u32 "MCB2"][chunkCount:u32][headerCrc:u32]
+ * repeat chunkCount:
+ *   [chunkX:i32][chunkY:i32][chunkZ:i32][blockCount:u32][crc32:u32]
+ *   repeat blockCount: [x:i32][y:i32][z:i32][id:u16]
+ *
+ * optional collider section (MCB2 only):
+ *   [magic:u32 "MCC1"][boxCount:u32][crc32:u32]
+ *   repeat boxCount: [x:i32][y:i32][z:i32][width:u8][height:u8][depth:u8][id:u16]
+ *
+ * headerCrc covers the first 8 bytes; each chunk CRC covers its first 16 header
+ * bytes and its block records, the collider CRC its first 8 bytes and its box
+ * records. MCB1 files are the same without any checksums. Readers that predate
+ * the collider section stop after the last chunk and never see it.
+ */
+export class ChunkContainer {
+  static readonly MAGIC = 0x3242434d; // "MCB2" little-endian
+  static readonly MAGIC_V1 = 0x3142434d; // "MCB1" little-endian
+  static readonly COLLIDER_MAGIC = 0x3143434d; // "MCC1" little-endian
+  
+  private static readonly BLOCK_SIZE = 14;
+  private static readonly BOX_SIZE = 17;
+  
+  /**
+   * Check whether a buffer starts with an MCB1 or MCB2 magic number
+   */
+  static isContainer(data: any): boolean {
+    if (!Buffer.isBuffer(data) || data.length < 8) return false;
+    const magic = data.readUInt32LE(0);
+    return magic === this.MAGIC || magic === this.MAGIC_V1;
+  }
+  
+  /**
+   * Encode blocks grouped by chunk ("cx,cy,cz" keys) into an MCB2 buffer
+   * With colliders, the precomputed collider boxes follow the chunks.
+   */
+  static encode(chunks: Map<string, DecodedBlock[]>, colliders?: ColliderBox[]): Buffer {
+    const buffers: Buffer[] = [];
+    const header = Buffer.allocUnsafe(12);
+    header.writeUInt32LE(this.MAGIC, 0);
+    header.writeUInt32LE(chunks.size, 4);
+    header.writeUInt32LE(Checksum.crc32(header.subarray(0, 8)), 8);
+    buffers.push(header);
+    
+    for (const [chunkKey, blocks] of chunks) {
+      const [chunkX, chunkY, chunkZ] = chunkKey.split(',').map(Number);
+      
+      const chunkHeader = Buffer.allocUnsafe(20);
+      chunkHeader.writeInt32LE(chunkX, 0);
+      chunkHeader.writeInt32LE(chunkY, 4);
+      chunkHeader.writeInt32LE(chunkZ, 8);
+      chunkHeader.writeUInt32LE(blocks.length, 12);
+      
+      const records = Buffer.allocUnsafe(blocks.length * this.BLOCK_SIZE);
+      let offset = 0;
+      for (const block of blocks) {
+        records.writeInt32LE(block.x, offset);
+        records.writeInt32LE(block.y, offset + 4);
+        records.writeInt32LE(block.z, offset + 8);
+        records.writeUInt16LE(block.id, offset + 12);
+        offset += this.BLOCK_SIZE;
+      }
+      
+      const crc = Checksum.crc32(records, Checksum.crc32(chunkHeader.subarray(0, 16)));
+      chunkHeader.writeUInt32LE(crc, 16);
+      buffers.push(chunkHeader, records);
+    }
+    
+    if (colliders) {
+      buffers.push(this.encodeColliders(colliders));
+    }
+    return Buffer.concat(buffers);
+  }
+  
+  /**
+   * Precomputed collider boxes, or null when the file has no collider section
+   */
+  static readColliders(buffer: Buffer): ColliderBox[] | null {
+    for (const entry of this.walk(buffer, false)) {
+      if (entry.error) {
+        throw new Error(`Invalid chunk file: ${entry.name} ${entry.error.toLowerCase()}`);
+      }
+      if (entry.name === 'colliders') {
+        const records = buffer.subarray(entry.offset + 12, entry.offset + entry.length);
+        return this.readBoxes(records, records.length / this.BOX_SIZE);
+      }
+    }
+    return null;
+  }
+  
+  /**
+   * Read chunks one at a time
+   * Throws on truncation and, for MCB2, on a checksum mismatch before the bad
+   * chunk is yielded
+   */
+  static *read(buffer: Buffer): IterableIterator<BinaryChunk> {
+    for (const entry of this.walk(buffer)) {
+      if (entry.error) {
+        throw new Error(`Invalid chunk file: ${entry.name} ${entry.error.toLowerCase()}`);
+      }
+      if (entry.chunk) yield entry.chunk;
+    }
+  }
+  
+  /**
+   * Check the header and every chunk without throwing
+   * Stops at the first truncated chunk, since later offsets are unknown
+   */
+  static verify(buffer: Buffer): VerifySection[] {
+    const results: VerifySection[] = [];
+    for (const entry of this.walk(buffer, false)) {
+      const result: VerifySection = { name: entry.name, offset: entry.offset, length: entry.length, valid: !entry.error };
+      if (entry.expected !== undefined) result.expected = Checksum.toHex(entry.expected);
+      if (entry.actual !== undefined) result.actual = Checksum.toHex(entry.actual);
+      if (entry.error) result.error = entry.error;
+      results.push(result);
+    }
+    return results;
+  }
+  
+  /**
+   * Walk the file header and chunks, checking lengths and checksums
+   */
+  private static *walk(buffer: Buffer, decode: boolean = true): IterableIterator<{
+    name: string;
+    offset: number;
+    length: number;
+    expected?: number;
+    actual?: number;
+    error?: string;
+    chunk?: BinaryChunk;
+  }> {
+    if (!this.isContainer(buffer)) {
+      yield { name: 'header', offset: 0, length: buffer.length, error: 'Bad magic number' };
+      return;
+    }
+    
+    const checksummed = buffer.readUInt32LE(0) === this.MAGIC;
+    const chunkCount = buffer.readUInt32LE(4);
+    let offset = 8;
+    if (checksummed) {
+      if (buffer.length < 12) {
+        yield { name: 'header', offset: 0, length: buffer.length, error: 'Truncated' };
+        return;
+      }
+      const expected = buffer.readUInt32LE(8);
+      const actual = Checksum.crc32(buffer.subarray(0, 8));
+      const error = expected !== actual ? 'Checksum mismatch' : undefined;
+      yield { name: 'header', offset: 0, length: 12, expected, actual, error };
+      if (error) return;
+      offset = 12;
+    }
+    
+    const chunkHeaderSize = checksummed ? 20 : 16;
+    for (let c = 0; c < chunkCount; c++) {
+      if (offset + chunkHeaderSize > buffer.length) {
+        yield { name: `chunk #${c}`, offset, length: buffer.length - offset, error: 'Truncated' };
+        return;
+      }
+      
+      const x = buffer.readInt32LE(offset);
+      const y = buffer.readInt32LE(offset + 4);
+      const z = buffer.readInt32LE(offset + 8);
+      const blockCount = buffer.readUInt32LE(offset + 12);
+      const name = `chunk ${x},${y},${z}`;
+      const length = chunkHeaderSize + blockCount * this.BLOCK_SIZE;
+      if (offset + length > buffer.length) {
+        yield { name, offset, length, error: `Truncated: ends at byte ${offset + length} of ${buffer.length}` };
+        return;
+      }
+      
+      const records = buffer.subarray(offset + chunkHeaderSize, offset + length);
+      let expected: number | undefined;
+      let actual: number | undefined;
+      if (checksummed) {
+        expected = buffer.readUInt32LE(offset + 16);
+        actual = Checksum.crc32(records, Checksum.crc32(buffer.subarray(offset, offset + 16)));
+      }
+      
+      if (expected !== actual) {
+        yield { name, offset, length, expected, actual, error: 'Checksum mismatch' };
+      } else {
+        const chunk = decode ? { x, y, z, blocks: this.readBlocks(records, blockCount) } : undefined;
+        yield { name, offset, length, expected, actual, chunk };
+      }
+      offset += length;
+    }
+    
+    if (checksummed && offset + 12 <= buffer.length && buffer.readUInt32LE(offset) === this.COLLIDER_MAGIC) {
+      const boxCount = buffer.readUInt32LE(offset + 4);
+      const length = 12 + boxCount * this.BOX_SIZE;
+      if (offset + length > buffer.length) {
+        yield { name: 'colliders', offset, length, error: `Truncated: ends at byte ${offset + length} of ${buffer.length}` };
+        return;
+      }
+      
+      const records = buffer.subarray(offset + 12, offset + length);
+      const expected = buffer.readUInt32LE(offset + 8);
+      const actual = Checksum.crc32(records, Checksum.crc32(buffer.subarray(offset, offset + 8)));
+      const error = expected !== actual ? 'Checksum mismatch' : undefined;
+      yield { name: 'colliders', offset, length, expected, actual, error };
+    }
+  }
+  
+  private static encodeColliders(colliders: ColliderBox[]): Buffer {
+    const section = Buffer.allocUnsafe(12 + colliders.length * this.BOX_SIZE);
+    section.writeUInt32LE(this.COLLIDER_MAGIC, 0);
+    section.writeUInt32LE(colliders.length, 4);
+    
+    let offset = 12;
+    for (const box of colliders) {
+      section.writeInt32LE(box.x, offset);
+      section.writeInt32LE(box.y, offset + 4);
+      section.writeInt32LE(box.z, offset + 8);
+      section.writeUInt8(box.width, offset + 12);
+      section.writeUInt8(box.height, offset + 13);
+      section.writeUInt8(box.depth, offset + 14);
+      section.writeUInt16LE(box.id, offset + 15);
+      offset += this.BOX_SIZE;
+    }
+    
+    section.writeUInt32LE(Checksum.crc32(section.subarray(12), Checksum.crc32(section.subarray(0, 8))), 8);
+    return section;
+  }
+  
+  private static readBoxes(records: Buffer, boxCount: number): ColliderBox[] {
+    const boxes: ColliderBox[] = new Array(boxCount);
+    for (let i = 0, offset = 0; i < boxCount; i++, offset += this.BOX_SIZE) {
+      boxes[i] = {
+        x: records.readInt32LE(offset),
+        y: records.readInt32LE(offset + 4),
+        z: records.readInt32LE(offset + 8),
+        width: records.readUInt8(offset + 12),
+        height: records.readUInt8(offset + 13),
+        depth: records.readUInt8(offset + 14),
+        id: records.readUInt16LE(offset + 15)
+      };
+    }
+    return boxes;
+  }
+  
+  private static readBlocks(records: Buffer, blockCount: number): DecodedBlock[] {
+    const blocks: DecodedBlock[] = new Array(blockCount);
+    for (let i = 0, offset = 0; i < blockCount; i++, offset += this.BLOCK_SIZE) {
+      blocks[i] = {
+        x: records.readInt32LE(offset),
+        y: records.readInt32LE(offset + 4),
+        z: records.readInt32LE(offset + 8),
+        id: records.readUInt16LE(offset + 12)
+      };
+    }
+    return blocks;
+  }
+}
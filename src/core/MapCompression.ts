@@ -3,19 +3,40 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import { MapCompressor } from './MapCompressor';
 import { MapDecompressor } from './MapDecompressor';
+import { MapContainer } from './MapContainer';
+import { MapPatcher } from './MapPatcher';
+import { BlockIdRemapper } from './BlockIdRemapper';
+import { MapVerifier } from './MapVerifier';
+import { MapFormat } from './MapFormat';
+import { MapValidator } from './MapValidator';
+import { MapWatcher } from './MapWatcher';
 import { FastLoader } from '../optimization/FastLoader';
 import { MonkeyPatchLoader } from '../optimization/MonkeyPatchLoader';
 import { DirectChunkLoader } from '../optimization/DirectChunkLoader';
 import { DirectChunkLoaderV3 } from '../optimization/DirectChunkLoaderV3';
+import { DiffLoader } from '../optimization/DiffLoader';
+import { WorldAdapters } from '../adapters/WorldAdapters';
 import { ConfigLoader } from '../utils/ConfigLoader';
 import { DetailedBenchmark } from '../utils/DetailedBenchmark';
+import { BlockTypeRegistrar } from '../utils/BlockTypeRegistrar';
+import { VoxelStore } from '../utils/VoxelStore';
 import {
   MapCompressionOptions,
   CompressionResult,
   DecompressionResult,
+  VoxelDecompressionResult,
   PerformanceMetrics,
   MapData,
-  CompressedMapData
+  CompressedMapData,
+  MapPatch,
+  BlockIdRemapMode,
+  VerifyResult,
+  MigrationResult,
+  ValidationResult,
+  MapReloadResult,
+  DiffLoadResult,
+  WorldAdapter,
+  WorldCapabilityReport
 } from '../types';
 
 /**
@@ -23,7 +44,7 @@ import {
  * Provides compression, decompression, and fast loading capabilities
  */
 export class MapCompression {
-  private world: any;
+  private adapter: WorldAdapter;
   private options: MapCompressionOptions;
   private compressor: MapCompressor;
   private decompressor: MapDecompressor;
@@ -32,9 +53,10 @@ export class MapCompression {
   private chunkLoader?: DirectChunkLoader;
   private chunkLoaderV3?: DirectChunkLoaderV3;
   private metrics: PerformanceMetrics = {};
+  private watchers: MapWatcher[] = [];
   
   constructor(world: any, options: MapCompressionOptions = {}) {
-    this.world = world;
+    this.adapter = WorldAdapters.detect(world);
     
     // Check for simple mode (compression only, no optimizations)
     const simpleMode = options.simple || options.autoLoad?.compressionOnly;
@@ -55,6 +77,10 @@ export class MapCompression {
         useVarint: true,
         ...options.compression
       },
+      decompression: {
+        parallel: false,
+        ...options.decompression
+      },
       optimization: {
         enabled: !simpleMode,  // Disable in simple mode
         monkeyPatch: false,
@@ -68,6 +94,15 @@ export class MapCompression {
         batchSize: 10000,
         ...options.loading
       },
+      blockIds: {
+        remap: 'none',
+        ...options.blockIds
+      },
+      validation: {
+        beforeCompress: false,
+        onAutoLoad: false,
+        ...options.validation
+      },
       performance: {
         maxMemory: 500 * 1024 * 1024,
         cacheCompressed: true,
@@ -83,17 +118,17 @@ export class MapCompression {
     // Initialize components
     this.compressor = new MapCompressor(this.options);
     this.decompressor = new MapDecompressor(this.options);
-    this.fastLoader = new FastLoader(world, this.options);
+    this.fastLoader = new FastLoader(this.adapter, this.options);
     
     // Initialize optional components
     if (this.options.features?.monkeyPatching || this.options.optimization?.monkeyPatch) {
-      this.monkeyPatcher = new MonkeyPatchLoader(world, this.options);
+      this.monkeyPatcher = new MonkeyPatchLoader(this.adapter, this.options);
       this.monkeyPatcher.patch();
     }
     
     if (this.options.optimization?.enabled !== false && this.options.optimization?.useChunks) {
-      this.chunkLoader = new DirectChunkLoader(world, this.options);
-      this.chunkLoaderV3 = new DirectChunkLoaderV3(world, this.options);
+      this.chunkLoader = new DirectChunkLoader(this.adapter, this.options);
+      this.chunkLoaderV3 = new DirectChunkLoaderV3(this.adapter, this.options);
       if (this.options.debug) {
         this.log('ChunkLoader V3 initialized (HyFire8 style)');
       }
@@ -104,6 +139,9 @@ export class MapCompression {
     }
     
     if (this.options.debug) {
+      const report = this.adapter.report();
+      this.log(`World adapter "${report.adapter}" (SDK ${report.sdkVersion ?? 'unknown'})`);
+      this.log(`World capabilities found: ${report.found.join(', ') || 'none'}; missing: ${report.missing.join(', ') || 'none'}`);
       this.log('MapCompression initialized with options:', this.options);
     }
   }
@@ -137,7 +175,7 @@ export class MapCompression {
    * Decompress map data
    * @returns Decompressed map ready for loading
    */
-  async decompress(compressedData: CompressedMapData): Promise<DecompressionResult> {
+  async decompress(compressedData: CompressedMapData | Buffer): Promise<DecompressionResult> {
     if (!this.options.features?.decompression) {
       throw new Error('Decompression feature is disabled');
     }
@@ -158,14 +196,204 @@ export class MapCompression {
     return result;
   }
   
+  /**
+   * Decompress map data into a VoxelStore (chunked typed arrays, no string keys)
+   */
+  async decompressVoxels(compressedData: CompressedMapData | Buffer): Promise<VoxelDecompressionResult> {
+    if (!this.options.features?.decompression) {
+      throw new Error('Decompression feature is disabled');
+    }
+    
+    const startTime = Date.now();
+    const result = await this.decompressor.decompressVoxels(compressedData);
+    
+    this.metrics.decompressionTimeMs = Date.now() - startTime;
+    this.metrics.blocksLoaded = result.metadata.blockCount;
+    
+    if (this.options.performance?.reportMetrics) {
+      this.log(`Voxel decompression complete: ${result.metadata.blockCount} blocks in ${result.metadata.chunkCount} chunks`);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Decompress only the blocks and entities inside a box (inclusive bounds)
+   */
+  async decompressRegion(
+    compressedData: CompressedMapData | Buffer,
+    region: CompressedMapData['bounds']
+  ): Promise<DecompressionResult> {
+    if (!this.options.features?.decompression) {
+      throw new Error('Decompression feature is disabled');
+    }
+    
+    const result = await this.decompressor.decompressRegion(compressedData, region);
+    this.log(`Region decompression: ${result.metadata?.blockCount} blocks from ${result.metadata?.segmentsDecoded} segments`);
+    return result;
+  }
+  
+  /**
+   * Create a compact patch of changed blocks, block types and entities
+   * Either side may be raw map data, a compressed map or a .hmc buffer
+   */
+  async diff(
+    oldMap: MapData | CompressedMapData | Buffer,
+    newMap: MapData | CompressedMapData | Buffer
+  ): Promise<MapPatch> {
+    const startTime = Date.now();
+    const patch = await MapPatcher.diff(await this.toMapData(oldMap), await this.toMapData(newMap), {
+      algorithm: this.options.compression?.algorithm,
+      level: this.options.compression?.level
+    });
+    
+    const { added, removed, changed, patchSize } = patch.metadata;
+    this.log(`Diff complete: +${added} -${removed} ~${changed} blocks, ${(patchSize / 1024).toFixed(2)} KB patch in ${Date.now() - startTime}ms`);
+    return patch;
+  }
+  
+  /**
+   * Apply a patch to a compressed map and return the new compressed map
+   * Fails if the map is not the version the patch was created from
+   */
+  async applyPatch(compressedData: CompressedMapData | Buffer, patch: MapPatch): Promise<CompressedMapData> {
+    const base = await this.toMapData(compressedData);
+    const patched = await MapPatcher.apply(base, patch);
+    
+    const result = await this.compress(patched);
+    const compressedMap: CompressedMapData = this.compressor.createCompressedMap(result, patched);
+    
+    this.log(`Patch applied: ${patch.metadata.added + patch.metadata.removed + patch.metadata.changed} block changes`);
+    return compressedMap;
+  }
+  
+  /**
+   * Rewrite a compressed map with remapped block IDs (blocks, block types, entities)
+   * Compacts to 1..n by default; 'registry' matches the block types of this world
+   */
+  async remapBlockIds(
+    compressedData: CompressedMapData | Buffer,
+    mode: BlockIdRemapMode = 'compact'
+  ): Promise<CompressedMapData> {
+    const base = await this.toMapData(compressedData);
+    const remapper = BlockIdRemapper.create(mode, base.blockTypes, this.adapter, this.options.blockIds);
+    const remapped = remapper ? remapper.remapMap(base) : base;
+    
+    const result = await this.compress(remapped);
+    this.log(`Block IDs remapped (${mode})${remapper ? '' : ': already in place'}`);
+    return this.compressor.createCompressedMap(result, remapped);
+  }
+  
+  /**
+   * Check a compressed map or chunk cache (file path, file contents or parsed map)
+   * Reports every section, segment or chunk that is truncated or fails its CRC32
+   */
+  async verify(pathOrData: string | Buffer | CompressedMapData): Promise<VerifyResult> {
+    const data = typeof pathOrData === 'string' ? fs.readFileSync(pathOrData) : pathOrData;
+    const result = MapVerifier.verify(data);
+    
+    if (!result.valid) {
+      this.log(`Verification failed (${result.format}): ${result.errors.join('; ')}`);
+    } else if (!result.checksummed) {
+      this.log(`No checksums in this ${result.format} file, only its structure was checked`);
+    }
+    return result;
+  }
+  
+  /**
+   * Bring a compressed map in any older format up to the current one
+   * Recognises .hmc v1/v2, JSON with or without options and checksums, and the
+   * HyFire8 / MapCompressorFixed layout. Old maps are decoded and re-encoded with
+   * the configured compression options. Paths are rewritten in place, keeping
+   * their container or JSON form.
+   */
+  async migrate(pathOrData: string | Buffer | CompressedMapData | any): Promise<MigrationResult> {
+    const filePath = typeof pathOrData === 'string' ? pathOrData : undefined;
+    let input: any = pathOrData;
+    if (filePath) {
+      const raw = fs.readFileSync(filePath);
+      input = MapContainer.isContainer(raw) ? raw : JSON.parse(raw.toString('utf-8'));
+    }
+    
+    const from = MapFormat.detect(input);
+    if (from.format === 'unknown') {
+      throw new Error(`Cannot migrate: ${from.reasons.join('; ')}`);
+    }
+    if (from.current) {
+      this.log(`Map is already in the current ${from.format} format`);
+      const data = Buffer.isBuffer(input) ? MapContainer.decode(input) : input;
+      return { migrated: false, from, data, ...(filePath && { path: filePath }) };
+    }
+    
+    const source = await MapFormat.read(input);
+    const mapData = await this.toMapData(source);
+    const data: CompressedMapData = this.compressor.createCompressedMap(await this.compress(mapData), mapData);
+    if (source.sourceHash) data.sourceHash = source.sourceHash;
+    if (source.pluginVersion) data.pluginVersion = source.pluginVersion;
+    
+    if (filePath) {
+      // Write next to the original and rename, so a failed write never loses the map
+      const tempPath = `${filePath}.migrating`;
+      fs.writeFileSync(tempPath, Buffer.isBuffer(input) ? MapContainer.encode(data) : JSON.stringify(data, null, 2));
+      fs.renameSync(tempPath, filePath);
+    }
+    
+    this.log(`Migrated ${from.format} map (${from.reasons.join('; ')})${filePath ? `: ${filePath}` : ''}`);
+    return { migrated: true, from, data, ...(filePath && { path: filePath }) };
+  }
+  
+  /**
+   * Check map data (or a map file) before it is compressed or loaded
+   * Reports malformed coordinates, invalid or unknown block IDs and coordinates
+   * the varint encoder cannot represent, with counts and offending keys.
+   */
+  validateMapData(mapDataOrPath: MapData | string): ValidationResult {
+    const mapData = typeof mapDataOrPath === 'string'
+      ? JSON.parse(fs.readFileSync(mapDataOrPath, 'utf-8'))
+      : mapDataOrPath;
+    const result = MapValidator.validate(mapData, {
+      strict: this.options.validation?.strict,
+      maxSamples: this.options.validation?.maxSamples,
+      voxelStore: this.options.optimization?.preParseCoordinates
+    });
+    
+    const issues = result.errors.length + result.warnings.length;
+    this.log(`Validated ${result.blockCount} blocks: ${result.errors.length} errors, ${result.warnings.length} warnings`);
+    if (issues > 0) {
+      MapValidator.summarize(result).forEach(line => this.log(`  ${line}`));
+    }
+    return result;
+  }
+  
+  /**
+   * Watch a map file and hot-reload every saved version into the running world
+   * Call once the map is loaded (e.g. after autoLoad). Each save is validated
+   * when validation.onAutoLoad is set, applied as changed blocks only, and
+   * written to fresh caches so the next restart loads it from chunks.
+   */
+  watch(mapPath?: string, options: { debounceMs?: number; regenerateCaches?: boolean } = {}): MapWatcher {
+    const watchPath = mapPath || this.options.paths?.mapFile || './assets/map.json';
+    const watchOptions = { ...this.options.watch, ...options };
+    
+    // Later versions are diffed against what the world's chunkLattice holds
+    const watcher: MapWatcher = new MapWatcher(
+      watchPath,
+      (content, hash) => this.hotReload(watcher, watchPath, content, hash, watchOptions.regenerateCaches !== false),
+      watchOptions
+    );
+    this.watchers.push(watcher);
+    this.log(`Watching ${watchPath} for changes`);
+    return watcher.start();
+  }
+  
   /**
    * Load a map (compressed or uncompressed) with optimizations
    * Achieves 50x faster loading for large maps
    */
-  async loadMap(mapData: MapData | CompressedMapData | string): Promise<void> {
+  async loadMap(mapData: MapData | CompressedMapData | Buffer | string): Promise<void> {
     if (!this.options.features?.fastLoading) {
       // Use default loading
-      return this.world.loadMap(mapData);
+      return this.adapter.loadMap(mapData);
     }
     
     const startTime = Date.now();
@@ -176,8 +404,8 @@ export class MapCompression {
     if (typeof mapData === 'string') {
       try {
         if (fs.existsSync(mapData)) {
-          const raw = fs.readFileSync(mapData, 'utf-8');
-          data = JSON.parse(raw);
+          const raw = fs.readFileSync(mapData);
+          data = MapContainer.isContainer(raw) ? raw : JSON.parse(raw.toString('utf-8'));
         } else {
           const imported = await import(mapData);
           data = (imported as any).default || imported;
@@ -199,6 +427,32 @@ export class MapCompression {
     }
   }
   
+  /**
+   * Apply a new map (plain, compressed, container or path) to the running world
+   * Only blocks that differ from world.chunkLattice are set, through the SDK, so
+   * connected clients see the change without a reload. Nothing is cleared.
+   */
+  async reloadMap(mapData: MapData | CompressedMapData | Buffer | string): Promise<DiffLoadResult> {
+    let data: any = mapData;
+    if (typeof mapData === 'string') {
+      if (!fs.existsSync(mapData)) {
+        throw new Error(`Map file not found: ${mapData}`);
+      }
+      const raw = fs.readFileSync(mapData);
+      data = MapContainer.isContainer(raw) ? raw : JSON.parse(raw.toString('utf-8'));
+    }
+    const map = await this.toMapData(data);
+    
+    const remapper = this.createRemapper(map.blockTypes);
+    if (map.blockTypes) {
+      this.registerBlockTypes(remapper ? remapper.remapBlockTypes(map.blockTypes) : map.blockTypes);
+    }
+    
+    const result = await new DiffLoader(this.adapter, this.options).apply(map, remapper);
+    this.log(`Map reloaded: ${result.added} added, ${result.removed} removed, ${result.changed} changed in ${result.chunks.length} chunks (${result.timeMs}ms)`);
+    return result;
+  }
+  
   /**
    * Get the FastLoader instance for manual control
    */
@@ -220,6 +474,20 @@ export class MapCompression {
     return this.chunkLoader;
   }
   
+  /**
+   * Get the adapter the loaders use to reach the world
+   */
+  getWorldAdapter(): WorldAdapter {
+    return this.adapter;
+  }
+  
+  /**
+   * Which world capabilities were detected and which are missing
+   */
+  getWorldCapabilities(): WorldCapabilityReport {
+    return this.adapter.report();
+  }
+  
   /**
    * Get performance metrics
    */
@@ -243,6 +511,14 @@ export class MapCompression {
     );
   }
   
+  /**
+   * Create a compressed map as a binary .hmc container
+   */
+  async createBinaryMapFile(mapData: MapData): Promise<Buffer> {
+    const compressedMap = await this.createCompressedMapFile(mapData);
+    return MapContainer.encode(compressedMap);
+  }
+  
   /**
    * Enable or disable debug logging
    */
@@ -259,10 +535,30 @@ export class MapCompression {
     }
     
     this.fastLoader.cleanup();
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
     
     this.log('MapCompression cleaned up');
   }
   
+  /**
+   * Decompress a compressed map or container into plain map data
+   */
+  private async toMapData(map: MapData | CompressedMapData | Buffer): Promise<MapData> {
+    if (!MapDecompressor.isCompressedMap(map)) {
+      return map as MapData;
+    }
+    
+    const result = await this.decompressor.decompress(map as CompressedMapData | Buffer);
+    return {
+      ...result.fields,
+      blocks: result.blocks,
+      blockTypes: result.blockTypes,
+      entities: result.entities,
+      version: result.version
+    };
+  }
+  
   /**
    * Log message using configured logger
    */
@@ -280,14 +576,7 @@ export class MapCompression {
    * Static method to check if data is compressed
    */
   static isCompressed(data: any): boolean {
-    return !!(
-      data &&
-      data.version &&
-      data.algorithm &&
-      data.data &&
-      typeof data.data === 'string' &&
-      data.bounds
-    );
+    return MapDecompressor.isCompressedMap(data);
   }
   
   /**
@@ -330,6 +619,10 @@ export class MapCompression {
     benchmark.startStep('Config Loading');
     const config = ConfigLoader.loadConfig(configPath);
     Object.assign(this.options, config);
+    // The compressor keeps its own copy of the options: rebuild it so the caches
+    // use the configured codec, block encoding, segments and entity encoding
+    this.compressor = new MapCompressor(this.options);
+    this.decompressor = new MapDecompressor(this.options);
     benchmark.finishStep();
     
     // Use paths from config or defaults
@@ -354,11 +647,9 @@ export class MapCompression {
       benchmark.finishStep({ hash: mapHash })
       
       // Generate cache filenames with hash AND version
-      const baseDir = path.dirname(originalMapPath);
-      const baseName = path.basename(originalMapPath, '.json');
-      const compressedMapPath = path.join(baseDir, `${baseName}.${mapHash}.${versionTag}.compressed.json`);
-      const chunksBinPath = path.join(baseDir, `${baseName}.${mapHash}.${versionTag}.chunks.bin`);
-      const chunksJsonPath = path.join(baseDir, `${baseName}.${mapHash}.${versionTag}.chunks`);
+      const {
+        baseDir, baseName, compressedBinPath, compressedJsonPath, compressedMapPath, chunksBinPath, chunksJsonPath
+      } = this.cachePaths(originalMapPath, mapHash, versionTag);
       
       this.log(`[AutoLoad] Map hash: ${mapHash}`);
       
@@ -384,32 +675,30 @@ export class MapCompression {
           let compressedData: any | null = null;
           let originalMapData: any | null = null;
           
-          if (fs.existsSync(compressedMapPath)) {
-            compressedData = JSON.parse(fs.readFileSync(compressedMapPath, 'utf-8'));
+          const cachedCompressedPath = this.findCompressedCache(compressedBinPath, compressedJsonPath);
+          if (cachedCompressedPath) {
+            compressedData = await MapFormat.unpackEntities(this.parseCompressedFile(fs.readFileSync(cachedCompressedPath)));
           }
           
-          if (compressedData?.blockTypes) {
-            this.registerBlockTypes(compressedData.blockTypes);
-          } else {
+          if (!compressedData?.blockTypes) {
             originalMapData = JSON.parse(mapContent.toString());
-            if (originalMapData?.blockTypes) {
-              this.registerBlockTypes(originalMapData.blockTypes);
-            }
+          }
+          const blockTypes = compressedData?.blockTypes || originalMapData?.blockTypes;
+          const remapper = this.createRemapper(blockTypes);
+          if (blockTypes) {
+            this.registerBlockTypes(remapper ? remapper.remapBlockTypes(blockTypes) : blockTypes);
           }
           
           // Use V3 loader (HyFire8 style - direct chunkLattice manipulation)
-          this.chunkLoaderV3.loadDirectly(chunksData, compressedData?.blockTypes || originalMapData?.blockTypes);
+          this.chunkLoaderV3.loadDirectly(chunksData, blockTypes, remapper);
           
           // Load entities from compressed file if available
-          if (compressedData?.entities) {
-            this.world.entities = compressedData.entities;
-          } else {
-            if (!originalMapData) {
-              originalMapData = JSON.parse(mapContent.toString());
-            }
-            if (originalMapData?.entities) {
-              this.world.entities = originalMapData.entities;
-            }
+          if (!compressedData?.entities && !originalMapData) {
+            originalMapData = JSON.parse(mapContent.toString());
+          }
+          const entities = compressedData?.entities || originalMapData?.entities;
+          if (entities) {
+            this.adapter.setEntities(remapper ? remapper.remapEntities(entities) : entities);
           }
           
           benchmark.finishStep()
@@ -426,7 +715,7 @@ export class MapCompression {
           }
           
           // Regenerate compressed file if missing (for consistency)
-          if (!fs.existsSync(compressedMapPath)) {
+          if (!cachedCompressedPath) {
             this.log(`[AutoLoad] Compressed file missing, regenerating...`);
             this.regenerateCompressedFile(mapContent, compressedMapPath, mapHash, versionTag);
           }
@@ -437,19 +726,23 @@ export class MapCompression {
           return;
         } catch (error) {
           this.log(`[AutoLoad] Failed to load chunks, falling back...`, error);
+          // Corrupted caches are deleted here and rebuilt by the steps below
+          this.discardIfCorrupt(chunksPath);
+          this.discardIfCorrupt(this.findCompressedCache(compressedBinPath, compressedJsonPath));
           // Fall through to next option
         }
       }
       
       // Step 2: Check for compressed map (fast)
       this.log('[AutoLoad] Entering compressed map section (chunks not available or failed)');
-      if (fs.existsSync(compressedMapPath)) {
+      const cachedCompressedPath = this.findCompressedCache(compressedBinPath, compressedJsonPath);
+      if (cachedCompressedPath) {
         this.log(`[AutoLoad] Found compressed map, loading with optimizations`);
         
         try {
-          benchmark.startStep('Compressed Cache Read', { path: compressedMapPath });
-          const compressedContent = fs.readFileSync(compressedMapPath, 'utf-8');
-          const compressedData = JSON.parse(compressedContent);
+          benchmark.startStep('Compressed Cache Read', { path: cachedCompressedPath });
+          const compressedContent = fs.readFileSync(cachedCompressedPath);
+          const compressedData = this.parseCompressedFile(compressedContent);
           benchmark.finishStep({ sizeBytes: compressedContent.length })
           
           if (!compressedData.options) {
@@ -480,7 +773,7 @@ export class MapCompression {
             if (!hasChunksCache && this.chunkLoader) {
               this.log(`[AutoLoad] Chunks missing, regenerating for next run...`);
               const decompressed = await this.decompress(compressedData);
-              const chunks = await this.chunkLoader.precomputeChunks(decompressed.blocks);
+              const chunks = await this.chunkLoader.precomputeChunks(decompressed.blocks, decompressed.blockTypes);
               fs.writeFileSync(chunksBinPath, chunks);
               this.log(`[AutoLoad] ✅ Regenerated chunks cache`);
             }
@@ -491,6 +784,7 @@ export class MapCompression {
           }
         } catch (error) {
           this.log(`[AutoLoad] Failed to load compressed map, will recreate...`);
+          this.discardIfCorrupt(cachedCompressedPath);
           // Fall through to recreate everything
         }
       }
@@ -501,55 +795,22 @@ export class MapCompression {
       // Parse map data
       const mapData = JSON.parse(mapContent.toString());
       
-      // Load it normally first
-      await this.world.loadMap(mapData);
+      // Never build caches from a map that would compress into garbage
+      if (this.options.validation?.onAutoLoad) {
+        const validation = this.validateMapData(mapData);
+        if (!validation.valid) {
+          throw new Error(`Invalid map data in ${originalMapPath}:\n  ${MapValidator.summarize(validation).join('\n  ')}`);
+        }
+      }
+      
+      // Load it normally first - caches below keep the map's own block IDs
+      const remapper = this.createRemapper(mapData.blockTypes);
+      await this.adapter.loadMap(remapper ? remapper.remapMap(mapData) : mapData);
       
       // Create BOTH compressed and chunks at the same time!
       this.log(`[AutoLoad] Creating compressed cache and pre-computed chunks...`);
       
-      // Compress the map
-      const compressed = await this.compress(mapData);
-      
-      // Create full compressed map file with hash
-      const compressedFile = {
-        version: compressed.version,
-        algorithm: this.options.compression?.algorithm || 'brotli',
-        data: compressed.data,
-        blockTypes: compressed.blockTypes,
-        bounds: compressed.bounds,
-        entities: mapData.entities || {},
-        mapVersion: mapData.version || '1.0.0',
-        metadata: compressed.metadata,
-        options: {
-          useDelta: this.options.compression?.useDelta ?? true,
-          useVarint: this.options.compression?.useVarint ?? true
-        },
-        sourceHash: mapHash  // Store hash for verification
-      };
-      
-      // Save compressed version
-      benchmark.startStep('Cache Write (Compressed)');
-      fs.writeFileSync(compressedMapPath, JSON.stringify(compressedFile, null, 2));
-      benchmark.finishStep({ path: compressedMapPath });
-      this.log(`[AutoLoad] ✅ Created compressed cache: ${path.basename(compressedMapPath)}`);
-      this.log(`[AutoLoad] Compression: ${(compressed.metadata.compressionRatio * 100).toFixed(1)}% reduction`);
-      
-      // Create pre-computed chunks (unless in simple mode or explicitly disabled)
-      const shouldCreateChunks = this.chunkLoader && 
-        !this.options.simple && 
-        !this.options.autoLoad?.compressionOnly &&
-        this.options.autoLoad?.preferChunks !== false;
-        
-      if (shouldCreateChunks && this.chunkLoader) {
-        benchmark.startStep('Chunks Generation');
-        const chunks = await this.chunkLoader.precomputeChunks(mapData.blocks);
-        benchmark.finishStep({ chunksSize: chunks.length });
-        
-        benchmark.startStep('Cache Write (Chunks)');
-        fs.writeFileSync(chunksBinPath, chunks);
-        benchmark.finishStep({ path: chunksBinPath });
-        this.log(`[AutoLoad] ✅ Created chunks cache: ${path.basename(chunksBinPath)}`);
-      }
+      await this.createCaches(mapData, mapHash, compressedMapPath, chunksBinPath, benchmark);
       
       const results = benchmark.finish();
       this.log(`[AutoLoad] Initial load complete in ${results.totalTime}ms`);
@@ -560,13 +821,161 @@ export class MapCompression {
       
       // Clean up old cache files
       this.cleanupOldCaches(baseDir, baseName, mapHash, versionTag);
-      
+    
     } catch (error: any) {
       this.log(`[AutoLoad] Error: ${error.message}`);
       throw error;
     }
   }
   
+  /**
+   * Hash- and version-named cache paths next to a map file
+   */
+  private cachePaths(mapPath: string, mapHash: string, versionTag: string) {
+    const baseDir = path.dirname(mapPath);
+    const baseName = path.basename(mapPath, '.json');
+    const prefix = path.join(baseDir, `${baseName}.${mapHash}.${versionTag}`);
+    const compressedBinPath = `${prefix}${MapContainer.FILE_EXTENSION}`;
+    const compressedJsonPath = `${prefix}.compressed.json`;
+    return {
+      baseDir,
+      baseName,
+      compressedBinPath,
+      compressedJsonPath,
+      compressedMapPath: this.options.compression?.container === 'json' ? compressedJsonPath : compressedBinPath,
+      chunksBinPath: `${prefix}.chunks.bin`,
+      chunksJsonPath: `${prefix}.chunks`
+    };
+  }
+  
+  /**
+   * Write the compressed cache and (unless disabled) the chunks cache for a map
+   * @returns Paths of the cache files written
+   */
+  private async createCaches(
+    mapData: MapData,
+    mapHash: string,
+    compressedMapPath: string,
+    chunksBinPath: string,
+    benchmark: DetailedBenchmark
+  ): Promise<string[]> {
+    // Compress the map
+    const compressed = await this.compress(mapData);
+    
+    // Create full compressed map file with hash
+    const compressedFile: CompressedMapData = {
+      version: compressed.version,
+      algorithm: compressed.algorithm,
+      data: compressed.data,
+      blockTypes: compressed.blockTypes,
+      bounds: compressed.bounds,
+      ...(compressed.entityData ? { entityData: compressed.entityData } : { entities: mapData.entities || {} }),
+      mapVersion: mapData.version || '1.0.0',
+      metadata: compressed.metadata,
+      options: compressed.options,
+      segments: compressed.segments,
+      ...(compressed.fields && { fields: compressed.fields }),
+      sourceHash: mapHash  // Store hash for verification
+    };
+    
+    // Save compressed version
+    benchmark.startStep('Cache Write (Compressed)');
+    this.writeCompressedFile(compressedMapPath, compressedFile);
+    benchmark.finishStep({ path: compressedMapPath });
+    this.log(`[AutoLoad] ✅ Created compressed cache: ${path.basename(compressedMapPath)}`);
+    this.log(`[AutoLoad] Compression: ${(compressed.metadata.compressionRatio * 100).toFixed(1)}% reduction`);
+    
+    // Create pre-computed chunks (unless in simple mode or explicitly disabled)
+    const shouldCreateChunks = this.chunkLoader && 
+      !this.options.simple && 
+      !this.options.autoLoad?.compressionOnly &&
+      this.options.autoLoad?.preferChunks !== false;
+    
+    if (shouldCreateChunks && this.chunkLoader) {
+      benchmark.startStep('Chunks Generation');
+      const chunks = await this.chunkLoader.precomputeChunks(mapData.blocks, mapData.blockTypes);
+      benchmark.finishStep({ chunksSize: chunks.length });
+      
+      benchmark.startStep('Cache Write (Chunks)');
+      fs.writeFileSync(chunksBinPath, chunks);
+      benchmark.finishStep({ path: chunksBinPath });
+      this.log(`[AutoLoad] ✅ Created chunks cache: ${path.basename(chunksBinPath)}`);
+    }
+    
+    return shouldCreateChunks ? [compressedMapPath, chunksBinPath] : [compressedMapPath];
+  }
+  
+  /**
+   * Apply a new version of a watched map: caches, then changed blocks, block types, entities
+   * The blocks to change come from DiffLoader, against the chunks in the world;
+   * worlds it can't read or set blocks in get the whole map through loadMap.
+   * Everything that can fail on a bad save (parsing, validation, the diff, cache
+   * writes) runs before 'reloading', so the world only changes once it passed.
+   */
+  private async hotReload(
+    watcher: MapWatcher,
+    mapPath: string,
+    content: Buffer,
+    mapHash: string,
+    regenerateCaches: boolean
+  ): Promise<MapReloadResult> {
+    const startTime = Date.now();
+    const mapData = JSON.parse(content.toString('utf-8'));
+    if (this.options.validation?.onAutoLoad) {
+      const validation = this.validateMapData(mapData);
+      if (!validation.valid) {
+        throw new Error(`Invalid map data in ${mapPath}:\n  ${MapValidator.summarize(validation).join('\n  ')}`);
+      }
+    }
+    
+    const remapper = this.createRemapper(mapData.blockTypes);
+    const full = !this.adapter.capabilities.setBlock || !this.adapter.capabilities.readChunks;
+    const diffLoader = new DiffLoader(this.adapter, this.options);
+    const plan = full ? null : diffLoader.plan(mapData, remapper);
+    
+    let caches: string[] = [];
+    if (regenerateCaches) {
+      const versionTag = `v${this.getPluginVersion().replace(/\./g, '_')}`;
+      const paths = this.cachePaths(mapPath, mapHash, versionTag);
+      caches = await this.createCaches(mapData, mapHash, paths.compressedMapPath, paths.chunksBinPath, new DetailedBenchmark(false));
+      this.cleanupOldCaches(paths.baseDir, paths.baseName, mapHash, versionTag);
+    }
+    
+    let diff: DiffLoadResult;
+    if (plan) {
+      watcher.emit('reloading', { path: mapPath, hash: mapHash, chunks: plan.result.chunks, full });
+      if (mapData.blockTypes) {
+        this.registerBlockTypes(remapper ? remapper.remapBlockTypes(mapData.blockTypes) : mapData.blockTypes);
+      }
+      diff = diffLoader.commit(plan);
+    } else {
+      // Nothing to diff against: every chunk of the new map counts as changed
+      const blocks = VoxelStore.from(mapData.blocks);
+      const chunks = Array.from(blocks.chunks(), ([key]) => {
+        const [cx, cy, cz] = key.split(',').map(Number);
+        return { x: cx * 16, y: cy * 16, z: cz * 16 };
+      });
+      watcher.emit('reloading', { path: mapPath, hash: mapHash, chunks, full });
+      await this.adapter.loadMap(remapper ? remapper.remapMap(mapData) : mapData);
+      diff = {
+        chunks,
+        added: blocks.size,
+        removed: 0,
+        changed: 0,
+        unchangedChunks: 0,
+        entities: { added: Object.keys(mapData.entities ?? {}), removed: [], changed: [] },
+        entitiesSynced: true,
+        timeMs: 0
+      };
+    }
+    const { chunks, added, removed, changed } = diff;
+    const entitiesChanged = diff.entities.added.length + diff.entities.removed.length + diff.entities.changed.length > 0;
+    
+    const timeMs = Date.now() - startTime;
+    this.log(`[Watch] Reloaded ${mapPath}: ${added + removed + changed} blocks in ${chunks.length} chunks (${timeMs}ms)`);
+    return { path: mapPath, hash: mapHash, full, chunks, added, removed, changed, entitiesChanged, caches, timeMs };
+  }
+  
   /**
    * Clean up old cache files with different hashes or versions
    */
@@ -574,7 +983,7 @@ export class MapCompression {
     try {
       const files = fs.readdirSync(dir);
       // Match files with pattern: basename.hash.version.type
-      const pattern = new RegExp(`^${baseName}\\.[a-f0-9]{8,16}\\.v[0-9_]+\\.(compressed\\.json|chunks\\.bin|chunks)$`);
+      const pattern = new RegExp(`^${baseName}\\.[a-f0-9]{8,16}\\.v[0-9_]+\\.(compressed\\.json|hmc|chunks\\.bin|chunks)$`);
       
       files.forEach(file => {
         if (pattern.test(file) && (!file.includes(currentHash) || !file.includes(currentVersion))) {
@@ -588,6 +997,57 @@ export class MapCompression {
     }
   }
   
+  /**
+   * Find an existing compressed cache, in order of preference
+   */
+  private findCompressedCache(...candidates: string[]): string | null {
+    return candidates.find(candidate => fs.existsSync(candidate)) || null;
+  }
+  
+  /**
+   * Parse a compressed cache file (.hmc container or legacy JSON)
+   */
+  private parseCompressedFile(content: Buffer): CompressedMapData {
+    if (MapContainer.isContainer(content)) {
+      return MapContainer.decode(content);
+    }
+    
+    const compressedData = JSON.parse(content.toString('utf-8'));
+    if (compressedData.checksums) {
+      const result = MapVerifier.verify(compressedData);
+      if (!result.valid) {
+        throw new Error(`Compressed map is corrupted: ${result.errors.join('; ')}`);
+      }
+    }
+    return compressedData;
+  }
+  
+  /**
+   * Delete a cache file that fails verification, so the next step rebuilds it
+   */
+  private discardIfCorrupt(filePath: string | null): boolean {
+    if (!filePath || !fs.existsSync(filePath)) return false;
+    
+    const result = MapVerifier.verify(fs.readFileSync(filePath));
+    if (result.valid) return false;
+    
+    this.log(`[AutoLoad] Corrupted cache ${path.basename(filePath)} (${result.errors.join('; ')}), discarding`);
+    fs.unlinkSync(filePath);
+    return true;
+  }
+  
+  /**
+   * Write a compressed cache file in the format implied by its extension
+   */
+  private writeCompressedFile(filePath: string, compressedFile: CompressedMapData): void {
+    if (filePath.endsWith(MapContainer.FILE_EXTENSION)) {
+      fs.writeFileSync(filePath, MapContainer.encode(compressedFile));
+    } else {
+      const checksums = MapVerifier.sectionChecksums(compressedFile);
+      fs.writeFileSync(filePath, JSON.stringify({ ...compressedFile, checksums }, null, 2));
+    }
+  }
+  
   /**
    * Regenerate compressed file from original map data
    */
@@ -596,24 +1056,23 @@ export class MapCompression {
       const mapData = JSON.parse(mapContent.toString());
       const compressed = await this.compress(mapData);
       
-      const compressedFile = {
+      const compressedFile: CompressedMapData = {
         version: compressed.version,
-        algorithm: this.options.compression?.algorithm || 'brotli',
+        algorithm: compressed.algorithm,
         data: compressed.data,
         blockTypes: compressed.blockTypes,
         bounds: compressed.bounds,
-        entities: mapData.entities || {},
+        ...(compressed.entityData ? { entityData: compressed.entityData } : { entities: mapData.entities || {} }),
         mapVersion: mapData.version || '1.0.0',
         metadata: compressed.metadata,
-        options: {
-          useDelta: this.options.compression?.useDelta ?? true,
-          useVarint: this.options.compression?.useVarint ?? true
-        },
+        options: compressed.options,
+        segments: compressed.segments,
+        ...(compressed.fields && { fields: compressed.fields }),
         sourceHash: mapHash,
         pluginVersion: versionTag
       };
       
-      fs.writeFileSync(compressedMapPath, JSON.stringify(compressedFile, null, 2));
+      this.writeCompressedFile(compressedMapPath, compressedFile);
       this.log(`[AutoLoad] ✅ Regenerated compressed file`);
     } catch (error) {
       this.log(`[AutoLoad] Failed to regenerate compressed file`);
@@ -636,7 +1095,7 @@ export class MapCompression {
   static async quickLoadWithBenchmark(world: any, mapPath?: string): Promise<MapCompression> {
     return MapCompression.quickLoad(world, mapPath, true);
   }
-
+  
   private getPluginVersion(): string {
     try {
       const pkgPath = path.join(__dirname, '../../package.json');
@@ -649,22 +1108,14 @@ export class MapCompression {
     return '0.1.0';
   }
   
+  /**
+   * Block ID remapper for the configured blockIds.remap mode (null = verbatim IDs)
+   */
+  private createRemapper(blockTypes: any): BlockIdRemapper | null {
+    return BlockIdRemapper.create(this.options.blockIds?.remap, blockTypes, this.adapter, this.options.blockIds);
+  }
+  
   private registerBlockTypes(blockTypes?: any): void {
-    if (!blockTypes || !this.world?.blockTypeRegistry) return;
-    
-    const list = Array.isArray(blockTypes) ? blockTypes : Object.values(blockTypes);
-    for (const blockType of list) {
-      if (!blockType || typeof blockType.id !== 'number') continue;
-      try {
-        this.world.blockTypeRegistry.registerGenericBlockType({
-          id: blockType.id,
-          isLiquid: blockType.isLiquid || false,
-          name: blockType.name || `block_${blockType.id}`,
-          textureUri: blockType.textureUri || 'blocks/stone.png'
-        });
-      } catch {
-        // ignore duplicates or registry errors
-      }
-    }
+    BlockTypeRegistrar.register(this.adapter, blockTypes);
   }
 }
@@ -1,13 +1,51 @@
 import { VarintEncoder } from '../encoders/VarintEncoder';
 import { DeltaEncoder } from '../encoders/DeltaEncoder';
 import { BrotliWrapper } from '../encoders/BrotliWrapper';
-import { CompressionResult, MapData, MapCompressionOptions } from '../types';
+import { PaletteEncoder } from '../encoders/PaletteEncoder';
+import { ColumnarEncoder } from '../encoders/ColumnarEncoder';
+import { EntityEncoder } from '../encoders/EntityEncoder';
+import { CodecRegistry } from '../encoders/CodecRegistry';
+import { WorkerPool } from '../utils/WorkerPool';
+import { Checksum } from '../utils/Checksum';
+import { MapVerifier } from './MapVerifier';
+import { MapValidator } from './MapValidator';
+import { BlockSource, VoxelStore } from '../utils/VoxelStore';
+import {
+  CompressionResult,
+  CompressedMapData,
+  MapData,
+  MapCompressionOptions,
+  BlockEncoding,
+  CompressedSegment,
+  PartitionMode,
+  MapFields
+} from '../types';
+
+/**
+ * One spatial partition handed to a segment worker
+ */
+export interface SegmentCompressTask {
+  blocks: Int32Array; // Flat [x, y, z, id, ...]
+  blockEncoding: BlockEncoding;
+  algorithm: string;
+  level: number;
+  compress: boolean; // False when the codec only exists on the main thread
+}
+
+export interface SegmentCompressResult {
+  data: Uint8Array;
+  bounds: CompressedSegment['bounds'];
+  blockCount: number;
+}
 
 /**
  * Map compression engine
  * Achieves 99.5% compression using Varint + Delta + Brotli
  */
 export class MapCompressor {
+  // MapData fields with a place of their own in a compressed map; the rest go to fields
+  static readonly MAP_FIELDS = ['blocks', 'blockTypes', 'entities', 'version'];
+  
   private options: MapCompressionOptions;
   
   constructor(options: MapCompressionOptions = {}) {
@@ -17,6 +55,8 @@ export class MapCompressor {
         level: 9,
         useDelta: true,
         useVarint: true,
+        blockEncoding: 'varint-delta',
+        entityEncoding: 'packed',
         ...options.compression
       },
       ...options
@@ -32,65 +72,80 @@ export class MapCompressor {
     
     if (this.options.debug) {
       console.log('[MapCompressor] Starting compression...');
-      console.log(`[MapCompressor] Original blocks: ${Object.keys(mapData.blocks).length}`);
+      console.log(`[MapCompressor] Original blocks: ${VoxelStore.count(mapData.blocks)}`);
     }
     
-    // Calculate bounds - EXACT from HyFire8
-    const bounds = this.calculateBounds(mapData.blocks);
-    const blockCount = Object.keys(mapData.blocks).length;
+    if (this.options.validation?.beforeCompress) {
+      const validation = MapValidator.assertValid(mapData, {
+        strict: this.options.validation.strict,
+        maxSamples: this.options.validation.maxSamples,
+        voxelStore: this.options.optimization?.preParseCoordinates
+      });
+      if (this.options.debug && validation.warnings.length > 0) {
+        MapValidator.summarize(validation).forEach(line => console.log(`[MapCompressor] ${line}`));
+      }
+    }
     
-    // Convert to sorted array - EXACT from HyFire8
-    const blocks = Object.entries(mapData.blocks)
-      .map(([coord, id]) => {
-        const [x, y, z] = coord.split(',').map(Number);
-        return { 
-          x: x - bounds.minX, 
-          y: y - bounds.minY, 
-          z: z - bounds.minZ, 
-          id 
-        };
-      })
-      .sort((a, b) => a.y - b.y || a.x - b.x || a.z - b.z);
+    // Parse "x,y,z" keys once - bounds, partitioning and encoding all read the store
+    const blocks: BlockSource = this.options.optimization?.preParseCoordinates
+      ? VoxelStore.from(mapData.blocks)
+      : mapData.blocks;
     
-    // Encode using varint with delta compression - EXACT from HyFire8
-    const buffer = Buffer.allocUnsafe(blocks.length * 15);
-    let offset = 0;
+    // Calculate bounds - EXACT from HyFire8
+    const bounds = this.calculateBounds(blocks);
+    const blockEncoding = this.options.compression?.blockEncoding || 'varint-delta';
+    const algorithm = this.options.compression?.algorithm || 'brotli';
     
-    // Write header
-    buffer.writeUInt32LE(blocks.length, offset);
-    offset += 4;
+    let compressedData: string;
+    let segments: CompressedSegment[] | undefined;
+    let partition: PartitionMode | undefined;
     
-    // Delta + Varint encoding - EXACT from HyFire8
-    let lastX = 0, lastY = 0, lastZ = 0;
-    for (const block of blocks) {
-      offset = this.writeVarint(block.x - lastX, buffer, offset);
-      offset = this.writeVarint(block.y - lastY, buffer, offset);
-      offset = this.writeVarint(block.z - lastZ, buffer, offset);
-      offset = this.writeVarint(block.id, buffer, offset);
+    if (this.options.compression?.parallel || this.options.compression?.spatialIndex) {
+      // Partition the map into independently compressed segments - off the main
+      // thread when parallel, and indexed by bounds for region queries
+      const compression = this.options.compression;
+      partition = compression.partition || (compression.parallel ? 'y-slabs' : 'columns');
+      const parallel = await this.compressSegments(blocks, bounds, blockEncoding, partition);
+      compressedData = parallel.data.toString('base64');
+      segments = parallel.segments;
+    } else {
+      const encodedData = this.encodeBlocks(blocks, bounds, blockEncoding);
       
-      lastX = block.x;
-      lastY = block.y;
-      lastZ = block.z;
+      // Apply Brotli compression - using the wrapper but same params as HyFire8
+      compressedData = await BrotliWrapper.compressToBase64(encodedData, {
+        algorithm,
+        level: this.options.compression?.level || 9
+      });
     }
     
-    const encodedData = buffer.slice(0, offset);
+    // Entities travel next to the block stream, packed and compressed with the same codec
+    let entityData: string | undefined;
+    if (this.options.compression?.entityEncoding !== 'json' && this.hasEntities(mapData.entities)) {
+      entityData = await EntityEncoder.compress(mapData.entities, {
+        algorithm,
+        level: this.options.compression?.level || 9
+      });
+    }
     
-    // Apply Brotli compression - using the wrapper but same params as HyFire8
-    const compressedData = await BrotliWrapper.compressToBase64(encodedData, {
-      algorithm: this.options.compression?.algorithm || 'brotli',
-      level: this.options.compression?.level || 9
-    });
+    const fields = MapCompressor.extraFields(mapData);
     
     // Calculate metrics
     const originalSize = JSON.stringify(mapData).length;
-    const compressedSize = compressedData.length;
+    const compressedSize = compressedData.length + (entityData?.length ?? 0);
     const compressionRatio = BrotliWrapper.calculateRatio(originalSize, compressedSize);
     const compressionTime = Date.now() - startTime;
     
     if (this.options.debug || this.options.metrics) {
       console.log(`[MapCompressor] Compression complete:`);
+      console.log(`  Block encoding: ${blockEncoding}`);
+      if (segments) {
+        console.log(`  Segments: ${segments.length} (${partition})`);
+      }
       console.log(`  Original size: ${(originalSize / 1024 / 1024).toFixed(2)} MB`);
       console.log(`  Compressed size: ${(compressedSize / 1024).toFixed(2)} KB`);
+      if (entityData) {
+        console.log(`  Entities: ${(entityData.length / 1024).toFixed(2)} KB (packed)`);
+      }
       console.log(`  Compression ratio: ${BrotliWrapper.formatRatio(compressionRatio)}`);
       console.log(`  Time: ${compressionTime}ms`);
     }
@@ -101,20 +156,261 @@ export class MapCompressor {
         originalSize,
         compressedSize,
         compressionRatio,
-        blockCount: Object.keys(mapData.blocks).length,
+        blockCount: VoxelStore.count(blocks),
         entityCount: mapData.entities ? Object.keys(mapData.entities).length : 0,
         compressionTime
       },
       blockTypes: mapData.blockTypes || {},
       bounds,
+      options: {
+        useDelta: this.options.compression?.useDelta ?? true,
+        useVarint: this.options.compression?.useVarint ?? true,
+        blockEncoding,
+        ...(partition && { partition })
+      },
+      ...(segments && { segments }),
+      ...(fields && { fields }),
+      ...(entityData && { entityData }),
+      algorithm,
       version: '1.0.0'
     };
   }
   
+  /**
+   * Top-level map fields besides blocks, block types, entities and version (undefined if none)
+   */
+  static extraFields(mapData: MapData): MapFields | undefined {
+    const fields: MapFields = {};
+    for (const key of Object.keys(mapData)) {
+      if (!this.MAP_FIELDS.includes(key) && mapData[key] !== undefined) fields[key] = mapData[key];
+    }
+    return Object.keys(fields).length > 0 ? fields : undefined;
+  }
+  
+  /**
+   * Encode blocks with the selected block encoding (before the codec stage)
+   */
+  encodeBlocks(
+    blocks: BlockSource,
+    bounds: { minX: number; minY: number; minZ: number },
+    blockEncoding: BlockEncoding
+  ): Buffer {
+    if (blockEncoding === 'palette') {
+      return PaletteEncoder.encode(blocks);
+    }
+    if (blockEncoding === 'columnar') {
+      return ColumnarEncoder.encode(blocks);
+    }
+    return this.encodeVarintDelta(blocks, bounds);
+  }
+  
+  /**
+   * Encode and compress one partition
+   * Runs inside segment workers, or on the main thread when no pool is available
+   */
+  static async compressSegment(task: SegmentCompressTask): Promise<SegmentCompressResult> {
+    const blocks: { [key: string]: number } = {};
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    
+    const coords = task.blocks;
+    for (let i = 0; i < coords.length; i += 4) {
+      const x = coords[i], y = coords[i + 1], z = coords[i + 2];
+      blocks[`${x},${y},${z}`] = coords[i + 3];
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (z < minZ) minZ = z;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+      if (z > maxZ) maxZ = z;
+    }
+    
+    const bounds = { minX, minY, minZ, maxX, maxY, maxZ };
+    const encoded = new MapCompressor().encodeBlocks(blocks, bounds, task.blockEncoding);
+    const data = task.compress
+      ? await BrotliWrapper.compress(encoded, { algorithm: task.algorithm, level: task.level })
+      : encoded;
+    
+    // Copy into an unpooled buffer so it can be transferred between threads
+    return { data: new Uint8Array(data), bounds, blockCount: coords.length / 4 };
+  }
+  
+  /**
+   * Partition the map and compress each partition as an independent segment
+   */
+  private async compressSegments(
+    blocks: BlockSource,
+    bounds: CompressedSegment['bounds'],
+    blockEncoding: BlockEncoding,
+    partition: PartitionMode
+  ): Promise<{ data: Buffer; segments: CompressedSegment[] }> {
+    const algorithm = this.options.compression?.algorithm || 'brotli';
+    const level = this.options.compression?.level || 9;
+    const workers = this.options.compression?.parallel
+      ? this.options.compression.workers ?? WorkerPool.defaultSize()
+      : 0;
+    const size = this.resolvePartitionSize(bounds, partition, workers);
+    
+    // Custom codecs are only registered in this thread
+    const compress = CodecRegistry.isBuiltin(algorithm);
+    const tasks: SegmentCompressTask[] = this.partitionBlocks(blocks, bounds, partition, size)
+      .map(partitionBlocks => ({ blocks: partitionBlocks, blockEncoding, algorithm, level, compress }));
+    
+    const { results, workers: used } = await WorkerPool.runAll<SegmentCompressResult>(
+      'segmentWorker',
+      workers,
+      tasks.map(task => ({ type: 'compress', task })),
+      message => MapCompressor.compressSegment(message.task)
+    );
+    
+    const parts: Buffer[] = [];
+    const segments: CompressedSegment[] = [];
+    let offset = 0;
+    for (const result of results) {
+      let data = Buffer.from(result.data.buffer, result.data.byteOffset, result.data.byteLength);
+      if (!compress) {
+        data = await BrotliWrapper.compress(data, { algorithm, level });
+      }
+      segments.push({ bounds: result.bounds, blockCount: result.blockCount, offset, length: data.length, checksum: Checksum.crc32(data) });
+      parts.push(data);
+      offset += data.length;
+    }
+    
+    if (this.options.debug) {
+      console.log(`[MapCompressor] ${segments.length} segments (${partition}, ${size} blocks) using ${used} workers`);
+    }
+    
+    return { data: Buffer.concat(parts), segments };
+  }
+  
+  /**
+   * Slab height / column width, rounded up to whole chunks
+   * Defaults to 64 for spatial indexes, otherwise roughly two segments per worker
+   */
+  private resolvePartitionSize(
+    bounds: CompressedSegment['bounds'],
+    partition: PartitionMode,
+    workers: number
+  ): number {
+    let size = this.options.compression?.partitionSize;
+    if ((!size || size <= 0) && this.options.compression?.spatialIndex) {
+      size = 64;
+    } else if (!size || size <= 0) {
+      const target = Math.max(workers, 1) * 2;
+      const span = partition === 'columns'
+        ? Math.max(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ) + 16
+        : bounds.maxY - bounds.minY + 16;
+      const perAxis = partition === 'columns' ? Math.ceil(Math.sqrt(target)) : target;
+      size = Math.ceil(span / perAxis);
+    }
+    return Math.max(16, Math.ceil(size / 16) * 16);
+  }
+  
+  /**
+   * Split blocks into chunk-aligned partitions of flat [x, y, z, id] arrays
+   * Partitions are ordered by Y slab, or by X then Z column
+   */
+  private partitionBlocks(
+    blocks: BlockSource,
+    bounds: CompressedSegment['bounds'],
+    partition: PartitionMode,
+    size: number
+  ): Int32Array[] {
+    const baseX = Math.floor(bounds.minX / 16) * 16;
+    const baseY = Math.floor(bounds.minY / 16) * 16;
+    const baseZ = Math.floor(bounds.minZ / 16) * 16;
+    const columnsZ = Math.floor((bounds.maxZ - baseZ) / size) + 1;
+    
+    const blockCount = VoxelStore.count(blocks);
+    const coords = new Int32Array(blockCount * 4);
+    const segmentOf = new Uint32Array(blockCount);
+    const counts = new Map<number, number>();
+    
+    let i = 0;
+    VoxelStore.forEachBlock(blocks, (x, y, z, id) => {
+      coords[i * 4] = x;
+      coords[i * 4 + 1] = y;
+      coords[i * 4 + 2] = z;
+      coords[i * 4 + 3] = id;
+      
+      const segment = partition === 'columns'
+        ? Math.floor((x - baseX) / size) * columnsZ + Math.floor((z - baseZ) / size)
+        : Math.floor((y - baseY) / size);
+      segmentOf[i++] = segment;
+      counts.set(segment, (counts.get(segment) || 0) + 1);
+    });
+    
+    const order = Array.from(counts.keys()).sort((a, b) => a - b);
+    if (order.length === 0) {
+      // Empty map - keep one empty segment so the file still decodes
+      return [new Int32Array(0)];
+    }
+    
+    const targets = new Map<number, { data: Int32Array; fill: number }>();
+    for (const segment of order) {
+      targets.set(segment, { data: new Int32Array(counts.get(segment)! * 4), fill: 0 });
+    }
+    for (let i = 0; i < blockCount; i++) {
+      const target = targets.get(segmentOf[i])!;
+      target.data.set(coords.subarray(i * 4, i * 4 + 4), target.fill);
+      target.fill += 4;
+    }
+    
+    return order.map(segment => targets.get(segment)!.data);
+  }
+  
+  /**
+   * Varint + Delta encoding - HyFire8's EXACT WORKING algorithm
+   * This handles 6.5M blocks perfectly - DON'T CHANGE THE CORE LOGIC!
+   */
+  private encodeVarintDelta(
+    blockMap: BlockSource,
+    bounds: { minX: number; minY: number; minZ: number }
+  ): Buffer {
+    // Convert to sorted array - EXACT from HyFire8
+    const blocks: Array<{ x: number; y: number; z: number; id: number }> = [];
+    VoxelStore.forEachBlock(blockMap, (x, y, z, id) => {
+      blocks.push({ 
+        x: x - bounds.minX, 
+        y: y - bounds.minY, 
+        z: z - bounds.minZ, 
+        id 
+      });
+    });
+    blocks.sort((a, b) => a.y - b.y || a.x - b.x || a.z - b.z);
+    
+    // Encode using varint with delta compression - EXACT from HyFire8
+    const buffer = Buffer.allocUnsafe(4 + blocks.length * 15);
+    let offset = 0;
+    
+    // Write header
+    buffer.writeUInt32LE(blocks.length, offset);
+    offset += 4;
+    
+    // Delta + Varint encoding - EXACT from HyFire8
+    let lastX = 0, lastY = 0, lastZ = 0;
+    for (const block of blocks) {
+      offset = this.writeVarint(block.x - lastX, buffer, offset);
+      offset = this.writeVarint(block.y - lastY, buffer, offset);
+      offset = this.writeVarint(block.z - lastZ, buffer, offset);
+      offset = this.writeVarint(block.id, buffer, offset);
+      
+      lastX = block.x;
+      lastY = block.y;
+      lastZ = block.z;
+    }
+    
+    return buffer.slice(0, offset);
+  }
+  
   /**
    * HyFire8's EXACT helper functions
    */
-  private calculateBounds(blocks: { [key: string]: number }) {
+  private calculateBounds(blocks: BlockSource) {
+    if (VoxelStore.isVoxelStore(blocks)) {
+      return blocks.bounds();
+    }
+    
     let minX = Infinity, minY = Infinity, minZ = Infinity;
     let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
     
@@ -131,6 +427,10 @@ export class MapCompressor {
     return { minX, minY, minZ, maxX, maxY, maxZ };
   }
   
+  private hasEntities(entities: any): boolean {
+    return !!entities && typeof entities === 'object' && Object.keys(entities).length > 0;
+  }
+  
   private writeVarint(value: number, buffer: Buffer, offset: number): number {
     // Make value positive for varint encoding - EXACT from HyFire8
     const zigzag = (value << 1) ^ (value >> 31);
@@ -149,19 +449,19 @@ export class MapCompressor {
    * Create a compressed map file structure
    */
   createCompressedMap(result: CompressionResult, mapData: MapData): any {
-    return {
+    const compressedMap = {
       version: result.version,
-      algorithm: this.options.compression?.algorithm || 'brotli',
+      algorithm: result.algorithm,
       data: result.data,
       blockTypes: result.blockTypes,
       bounds: result.bounds,
-      entities: mapData.entities || {},
+      ...(result.entityData ? { entityData: result.entityData } : { entities: mapData.entities || {} }),
       mapVersion: mapData.version,
       metadata: result.metadata,
-      options: {
-        useDelta: this.options.compression?.useDelta,
-        useVarint: this.options.compression?.useVarint
-      }
+      options: result.options,
+      ...(result.segments && { segments: result.segments }),
+      ...(result.fields && { fields: result.fields })
     };
+    return { ...compressedMap, checksums: MapVerifier.sectionChecksums(compressedMap as CompressedMapData) };
   }
 }
\ No newline at end of file
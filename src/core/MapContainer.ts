@@ -0,0 +1,320 @@
+import { Checksum } from '../utils/Checksum';
+import { CompressedMapData, VerifySection } from '../types';
+
+interface SectionEntry {
+  id: number;
+  offset: number;
+  length: number;
+  crc?: number; // Format version 2 and later
+}
+
+/**
+ * Binary container format for compressed maps (.hmc)
+ * Stores the compressed block stream as raw bytes instead of base64-in-JSON
+ *
+ * Layout (format version 2):
+ * [magic:u32 "HMC1"][formatVersion:u16][flags:u16][sectionCount:u32][tableCrc:u32]
+ * repeat sectionCount:
+ *   [sectionId:u16][reserved:u16][offset:u32][length:u32][crc32:u32]
+ * section payloads...
+ *
+ * tableCrc covers the first 12 bytes and the section table. Version 1 files
+ * have no checksums (12-byte preamble and entries) and are still read.
+ */
+export class MapContainer {
+  static readonly MAGIC = 0x31434d48; // "HMC1" little-endian
+  static readonly FORMAT_VERSION = 2;
+  static readonly FILE_EXTENSION = '.hmc';
+  
+  static readonly SECTION_HEADER = 1;
+  static readonly SECTION_BLOCKS = 2;
+  static readonly SECTION_BLOCK_TYPES = 3;
+  static readonly SECTION_ENTITIES = 4;
+  static readonly SECTION_BOUNDS = 5;
+  static readonly SECTION_METADATA = 6;
+  static readonly SECTION_OPTIONS = 7;
+  static readonly SECTION_SEGMENTS = 8;
+  static readonly SECTION_ENTITY_DATA = 9;
+  static readonly SECTION_FIELDS = 10;
+  
+  static readonly SECTION_NAMES: { [id: number]: string } = {
+    1: 'header',
+    2: 'blocks',
+    3: 'block types',
+    4: 'entities',
+    5: 'bounds',
+    6: 'metadata',
+    7: 'options',
+    8: 'segments',
+    9: 'entity data',
+    10: 'map fields'
+  };
+  
+  private static readonly PREAMBLE_SIZE = 16;
+  private static readonly SECTION_ENTRY_SIZE = 16;
+  private static readonly V1_PREAMBLE_SIZE = 12;
+  private static readonly V1_SECTION_ENTRY_SIZE = 12;
+  
+  /**
+   * Check whether a buffer starts with the container magic number
+   */
+  static isContainer(data: any): boolean {
+    return Buffer.isBuffer(data) && data.length >= this.V1_PREAMBLE_SIZE && data.readUInt32LE(0) === this.MAGIC;
+  }
+  
+  /**
+   * Format version of a container (1 = no checksums)
+   */
+  static formatVersion(buffer: Buffer): number {
+    return buffer.readUInt16LE(4);
+  }
+  
+  /**
+   * Encode a compressed map into a binary container
+   */
+  static encode(compressedMap: CompressedMapData): Buffer {
+    const header = {
+      version: compressedMap.version,
+      algorithm: compressedMap.algorithm,
+      mapVersion: compressedMap.mapVersion,
+      sourceHash: compressedMap.sourceHash,
+      pluginVersion: compressedMap.pluginVersion
+    };
+    
+    const sections: Array<[number, Buffer]> = [
+      [this.SECTION_HEADER, this.encodeJson(header)],
+      [this.SECTION_BLOCKS, this.toBytes(compressedMap.data)],
+      [this.SECTION_BLOCK_TYPES, this.encodeJson(compressedMap.blockTypes ?? {})],
+      compressedMap.entityData
+        ? [this.SECTION_ENTITY_DATA, this.toBytes(compressedMap.entityData)]
+        : [this.SECTION_ENTITIES, this.encodeJson(compressedMap.entities ?? {})],
+      [this.SECTION_BOUNDS, this.encodeBounds(compressedMap.bounds)]
+    ];
+    
+    if (compressedMap.metadata) {
+      sections.push([this.SECTION_METADATA, this.encodeJson(compressedMap.metadata)]);
+    }
+    if (compressedMap.options) {
+      sections.push([this.SECTION_OPTIONS, this.encodeJson(compressedMap.options)]);
+    }
+    if (compressedMap.segments) {
+      sections.push([this.SECTION_SEGMENTS, this.encodeJson(compressedMap.segments)]);
+    }
+    if (compressedMap.fields) {
+      sections.push([this.SECTION_FIELDS, this.encodeJson(compressedMap.fields)]);
+    }
+    
+    const tableSize = sections.length * this.SECTION_ENTRY_SIZE;
+    const preamble = Buffer.alloc(this.PREAMBLE_SIZE + tableSize);
+    preamble.writeUInt32LE(this.MAGIC, 0);
+    preamble.writeUInt16LE(this.FORMAT_VERSION, 4);
+    preamble.writeUInt16LE(0, 6);
+    preamble.writeUInt32LE(sections.length, 8);
+    
+    let offset = preamble.length;
+    sections.forEach(([id, payload], i) => {
+      const entry = this.PREAMBLE_SIZE + i * this.SECTION_ENTRY_SIZE;
+      preamble.writeUInt16LE(id, entry);
+      preamble.writeUInt16LE(0, entry + 2);
+      preamble.writeUInt32LE(offset, entry + 4);
+      preamble.writeUInt32LE(payload.length, entry + 8);
+      preamble.writeUInt32LE(Checksum.crc32(payload), entry + 12);
+      offset += payload.length;
+    });
+    preamble.writeUInt32LE(this.tableChecksum(preamble), 12);
+    
+    return Buffer.concat([preamble, ...sections.map(([, payload]) => payload)]);
+  }
+  
+  /**
+   * Decode a binary container back into a compressed map
+   * The block stream is returned as a Buffer view, no base64 round trip
+   */
+  static decode(buffer: Buffer): CompressedMapData {
+    const sections = this.readSections(buffer);
+    
+    const blocks = sections.get(this.SECTION_BLOCKS);
+    const bounds = sections.get(this.SECTION_BOUNDS);
+    if (!blocks || !bounds) {
+      throw new Error('Invalid map container: missing blocks or bounds section');
+    }
+    
+    const header = this.decodeJson(sections.get(this.SECTION_HEADER)) || {};
+    const compressedMap: CompressedMapData = {
+      version: header.version,
+      algorithm: header.algorithm,
+      data: blocks,
+      blockTypes: this.decodeJson(sections.get(this.SECTION_BLOCK_TYPES)) ?? {},
+      bounds: this.decodeBounds(bounds),
+      mapVersion: header.mapVersion
+    };
+    
+    // Packed entities stay compressed here; MapFormat.read() unpacks them
+    const entityData = sections.get(this.SECTION_ENTITY_DATA);
+    if (entityData) {
+      compressedMap.entityData = entityData;
+    } else {
+      compressedMap.entities = this.decodeJson(sections.get(this.SECTION_ENTITIES)) ?? {};
+    }
+    
+    const metadata = this.decodeJson(sections.get(this.SECTION_METADATA));
+    if (metadata) compressedMap.metadata = metadata;
+    const options = this.decodeJson(sections.get(this.SECTION_OPTIONS));
+    if (options) compressedMap.options = options;
+    const segments = this.decodeJson(sections.get(this.SECTION_SEGMENTS));
+    if (segments) compressedMap.segments = segments;
+    const fields = this.decodeJson(sections.get(this.SECTION_FIELDS));
+    if (fields) compressedMap.fields = fields;
+    if (header.sourceHash) compressedMap.sourceHash = header.sourceHash;
+    if (header.pluginVersion) compressedMap.pluginVersion = header.pluginVersion;
+    
+    return compressedMap;
+  }
+  
+  /**
+   * Read the section table into a map of section id to payload view
+   * Throws on truncation and, for version 2 files, on any checksum mismatch
+   */
+  static readSections(buffer: Buffer): Map<number, Buffer> {
+    const sections = new Map<number, Buffer>();
+    for (const entry of this.readTable(buffer)) {
+      const name = this.sectionName(entry.id);
+      if (entry.offset + entry.length > buffer.length) {
+        throw new Error(`Invalid map container: ${name} section is truncated`);
+      }
+      
+      const payload = buffer.subarray(entry.offset, entry.offset + entry.length);
+      if (entry.crc !== undefined && Checksum.crc32(payload) !== entry.crc) {
+        throw new Error(`Invalid map container: ${name} section checksum mismatch`);
+      }
+      // Unknown section ids are kept but ignored by decode() for forward compatibility
+      sections.set(entry.id, payload);
+    }
+    
+    return sections;
+  }
+  
+  /**
+   * Check the section table and every section checksum without throwing
+   */
+  static verify(buffer: Buffer): VerifySection[] {
+    let entries: SectionEntry[];
+    try {
+      entries = this.readTable(buffer);
+    } catch (error: any) {
+      return [{ name: 'section table', valid: false, error: error.message }];
+    }
+    
+    const results: VerifySection[] = [];
+    if (this.formatVersion(buffer) >= 2) {
+      results.push({ name: 'section table', offset: 0, length: this.PREAMBLE_SIZE + entries.length * this.SECTION_ENTRY_SIZE, valid: true });
+    }
+    
+    for (const entry of entries) {
+      const result: VerifySection = { name: this.sectionName(entry.id), offset: entry.offset, length: entry.length, valid: true };
+      if (entry.offset + entry.length > buffer.length) {
+        result.valid = false;
+        result.error = `Truncated: ends at byte ${entry.offset + entry.length} of ${buffer.length}`;
+      } else if (entry.crc !== undefined) {
+        const actual = Checksum.crc32(buffer.subarray(entry.offset, entry.offset + entry.length));
+        result.expected = Checksum.toHex(entry.crc);
+        result.actual = Checksum.toHex(actual);
+        if (actual !== entry.crc) {
+          result.valid = false;
+          result.error = 'Checksum mismatch';
+        }
+      }
+      results.push(result);
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Parse and check the preamble and section table (any format version)
+   */
+  private static readTable(buffer: Buffer): SectionEntry[] {
+    if (!this.isContainer(buffer)) {
+      throw new Error('Invalid map container: bad magic number');
+    }
+    
+    const formatVersion = this.formatVersion(buffer);
+    if (formatVersion > this.FORMAT_VERSION) {
+      throw new Error(`Unsupported map container version ${formatVersion}`);
+    }
+    
+    const checksummed = formatVersion >= 2;
+    const preambleSize = checksummed ? this.PREAMBLE_SIZE : this.V1_PREAMBLE_SIZE;
+    const entrySize = checksummed ? this.SECTION_ENTRY_SIZE : this.V1_SECTION_ENTRY_SIZE;
+    
+    const sectionCount = buffer.readUInt32LE(8);
+    const tableEnd = preambleSize + sectionCount * entrySize;
+    if (tableEnd > buffer.length) {
+      throw new Error('Invalid map container: truncated section table');
+    }
+    if (checksummed && this.tableChecksum(buffer.subarray(0, tableEnd)) !== buffer.readUInt32LE(12)) {
+      throw new Error('Invalid map container: section table checksum mismatch');
+    }
+    
+    const entries: SectionEntry[] = [];
+    for (let i = 0; i < sectionCount; i++) {
+      const entry = preambleSize + i * entrySize;
+      entries.push({
+        id: buffer.readUInt16LE(entry),
+        offset: buffer.readUInt32LE(entry + 4),
+        length: buffer.readUInt32LE(entry + 8),
+        crc: checksummed ? buffer.readUInt32LE(entry + 12) : undefined
+      });
+    }
+    return entries;
+  }
+  
+  /**
+   * CRC32 of the preamble (without the checksum field itself) and section table
+   */
+  private static tableChecksum(table: Buffer): number {
+    const crc = Checksum.crc32(table.subarray(0, 12));
+    return Checksum.crc32(table.subarray(this.PREAMBLE_SIZE), crc);
+  }
+  
+  private static sectionName(id: number): string {
+    return this.SECTION_NAMES[id] || `section ${id}`;
+  }
+  
+  /**
+   * Raw bytes of a binary field (base64 in JSON maps)
+   */
+  private static toBytes(data: string | Buffer): Buffer {
+    return typeof data === 'string' ? Buffer.from(data, 'base64') : data;
+  }
+  
+  private static encodeJson(value: any): Buffer {
+    return Buffer.from(JSON.stringify(value), 'utf-8');
+  }
+  
+  private static decodeJson(payload?: Buffer): any {
+    if (!payload || payload.length === 0) return undefined;
+    return JSON.parse(payload.toString('utf-8'));
+  }
+  
+  private static encodeBounds(bounds: CompressedMapData['bounds']): Buffer {
+    const buffer = Buffer.alloc(24);
+    const values = [bounds.minX, bounds.minY, bounds.minZ, bounds.maxX, bounds.maxY, bounds.maxZ];
+    values.forEach((value, i) => {
+      // Empty maps have infinite bounds, store them as zero
+      buffer.writeInt32LE(Number.isFinite(value) ? value : 0, i * 4);
+    });
+    return buffer;
+  }
+  
+  private static decodeBounds(payload: Buffer): CompressedMapData['bounds'] {
+    return {
+      minX: payload.readInt32LE(0),
+      minY: payload.readInt32LE(4),
+      minZ: payload.readInt32LE(8),
+      maxX: payload.readInt32LE(12),
+      maxY: payload.readInt32LE(16),
+      maxZ: payload.readInt32LE(20)
+    };
+  }
+}
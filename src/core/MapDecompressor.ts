@@ -1,7 +1,43 @@
 import { VarintEncoder } from '../encoders/VarintEncoder';
 import { DeltaEncoder } from '../encoders/DeltaEncoder';
 import { BrotliWrapper } from '../encoders/BrotliWrapper';
-import { DecompressionResult, CompressedMapData, MapCompressionOptions } from '../types';
+import { CodecRegistry } from '../encoders/CodecRegistry';
+import { VarintDeltaStreamDecoder } from '../encoders/VarintDeltaStreamDecoder';
+import { PaletteEncoder } from '../encoders/PaletteEncoder';
+import { ColumnarEncoder } from '../encoders/ColumnarEncoder';
+import { MapContainer } from './MapContainer';
+import { MapFormat } from './MapFormat';
+import { WorkerPool } from '../utils/WorkerPool';
+import { VoxelStore } from '../utils/VoxelStore';
+import { ChunkArray, ChunkBlockArray } from '../utils/ChunkArray';
+import {
+  DecompressionResult,
+  ChunkDecompressionResult,
+  VoxelDecompressionResult,
+  CompressedMapData,
+  CompressedSegment,
+  MapCompressionOptions,
+  DecodedBlock,
+  DecodedChunk
+} from '../types';
+
+/**
+ * One compressed segment handed to a segment worker
+ */
+export interface SegmentDecodeTask {
+  data: Uint8Array;
+  algorithm: string;
+  options: CompressedMapData['options'];
+  bounds: CompressedMapData['bounds'];
+  output: 'blocks' | 'chunks';
+}
+
+export interface SegmentDecodeResult {
+  blockCount: number;
+  blocks?: Int32Array; // 'blocks' output: flat [x, y, z, id, ...]
+  origins?: Int32Array; // 'chunks' output: [x, y, z] per chunk
+  chunkData?: ChunkBlockArray; // 'chunks' output: 4096 IDs per chunk (8 or 16 bit), SharedArrayBuffer-backed
+}
 
 /**
  * Map decompression engine
@@ -16,9 +52,11 @@ export class MapDecompressor {
   
   /**
    * Decompress map data
+   * Accepts the JSON compressed map or a binary .hmc container buffer
    */
-  async decompress(compressedData: CompressedMapData): Promise<DecompressionResult> {
+  async decompress(input: CompressedMapData | Buffer): Promise<DecompressionResult> {
     const startTime = Date.now();
+    const compressedData = await MapFormat.read(input);
     
     if (!compressedData.version || !compressedData.data || !compressedData.blockTypes) {
       throw new Error('Invalid compressed map format');
@@ -29,34 +67,34 @@ export class MapDecompressor {
       console.log(`[MapDecompressor] Compressed size: ${(compressedData.data.length / 1024).toFixed(2)} KB`);
     }
     
-    // Step 1: Brotli decompression
-    const brotliStart = Date.now();
-    const decompressed = await BrotliWrapper.decompressFromBase64(
-      compressedData.data,
-      compressedData.algorithm as 'brotli' | 'gzip' | 'none'
-    );
-    
-    if (this.options.debug) {
-      console.log(`[MapDecompressor] Brotli decompression: ${Date.now() - brotliStart}ms`);
-    }
-    
-    // Step 2: Decode based on compression options
     let blocks: { [key: string]: number };
     
-    if (compressedData.options?.useDelta && compressedData.options?.useVarint) {
-      // Full pipeline: Varint + Delta
-      const varintStart = Date.now();
-      blocks = this.decodeVarintDelta(decompressed, compressedData);
+    if (compressedData.segments?.length && this.options.decompression?.parallel) {
+      // Multi-segment file - decode segments in worker threads
+      blocks = {};
+      for (const result of await this.decodeSegmentsParallel(compressedData, 'blocks')) {
+        const flat = result.blocks!;
+        for (let i = 0; i < flat.length; i += 4) {
+          blocks[`${flat[i]},${flat[i + 1]},${flat[i + 2]}`] = flat[i + 3];
+        }
+      }
+    } else if (compressedData.segments?.length) {
+      // Multi-segment file - each segment is compressed independently
+      blocks = await this.decompressSegments(compressedData);
+    } else {
+      // Step 1: Brotli decompression
+      const brotliStart = Date.now();
+      const algorithm = compressedData.algorithm;
+      const decompressed = typeof compressedData.data === 'string'
+        ? await BrotliWrapper.decompressFromBase64(compressedData.data, algorithm)
+        : await BrotliWrapper.decompress(compressedData.data, algorithm);
       
       if (this.options.debug) {
-        console.log(`[MapDecompressor] Varint + Delta decoding: ${Date.now() - varintStart}ms`);
+        console.log(`[MapDecompressor] Brotli decompression: ${Date.now() - brotliStart}ms`);
       }
-    } else if (compressedData.options?.useDelta) {
-      // Delta only
-      blocks = this.decodeDeltaOnly(decompressed);
-    } else {
-      // Direct encoding
-      blocks = this.decodeDirect(decompressed);
+      
+      // Step 2: Decode based on compression options
+      blocks = this.decodeBlocks(decompressed, compressedData.options, compressedData.bounds);
     }
     
     const decompressionTime = Date.now() - startTime;
@@ -72,6 +110,7 @@ export class MapDecompressor {
       blockTypes: compressedData.blockTypes,
       entities: compressedData.entities,
       version: compressedData.mapVersion,
+      ...(compressedData.fields && { fields: compressedData.fields }),
       metadata: {
         decompressionTime,
         blockCount: Object.keys(blocks).length
@@ -79,10 +118,533 @@ export class MapDecompressor {
     };
   }
   
+  /**
+   * Decompress straight into 16³ chunks
+   * With decompression.parallel, segments are decoded in worker threads. Chunk
+   * arrays are views into SharedArrayBuffers, so DirectChunkLoaderV3.loadDirectly
+   * can inject them without copying.
+   */
+  async decompressChunks(input: CompressedMapData | Buffer): Promise<ChunkDecompressionResult> {
+    const startTime = Date.now();
+    const compressedData = await MapFormat.read(input);
+    
+    if (!compressedData.version || !compressedData.data || !compressedData.blockTypes) {
+      throw new Error('Invalid compressed map format');
+    }
+    
+    const chunks: DecodedChunk[] = [];
+    let blockCount = 0;
+    for (const result of await this.decodeSegmentsParallel(compressedData, 'chunks')) {
+      const origins = result.origins!;
+      for (let i = 0; i < origins.length / 3; i++) {
+        chunks.push({
+          origin: { x: origins[i * 3], y: origins[i * 3 + 1], z: origins[i * 3 + 2] },
+          blocks: result.chunkData!.subarray(i * 4096, (i + 1) * 4096)
+        });
+      }
+      blockCount += result.blockCount;
+    }
+    
+    const decompressionTime = Date.now() - startTime;
+    
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[MapDecompressor] Chunk decompression complete:`);
+      console.log(`  Chunks: ${chunks.length}`);
+      console.log(`  Blocks: ${blockCount}`);
+      console.log(`  Time: ${decompressionTime}ms`);
+    }
+    
+    return {
+      chunks,
+      blockTypes: compressedData.blockTypes,
+      entities: compressedData.entities,
+      version: compressedData.mapVersion,
+      ...(compressedData.fields && { fields: compressedData.fields }),
+      metadata: {
+        decompressionTime,
+        blockCount,
+        chunkCount: chunks.length
+      }
+    };
+  }
+  
+  /**
+   * Decompress into a VoxelStore instead of an "x,y,z" dictionary
+   * Segments decode to flat typed arrays (in worker threads with
+   * decompression.parallel), so Varint + Delta maps never build string keys
+   */
+  async decompressVoxels(input: CompressedMapData | Buffer): Promise<VoxelDecompressionResult> {
+    const startTime = Date.now();
+    const compressedData = await MapFormat.read(input);
+    
+    if (!compressedData.version || !compressedData.data || !compressedData.blockTypes) {
+      throw new Error('Invalid compressed map format');
+    }
+    
+    const blocks = new VoxelStore();
+    for (const result of await this.decodeSegmentsParallel(compressedData, 'blocks')) {
+      const flat = result.blocks!;
+      for (let i = 0; i < flat.length; i += 4) {
+        blocks.set(flat[i], flat[i + 1], flat[i + 2], flat[i + 3]);
+      }
+    }
+    
+    const decompressionTime = Date.now() - startTime;
+    
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[MapDecompressor] Voxel decompression complete:`);
+      console.log(`  Blocks: ${blocks.size}`);
+      console.log(`  Chunks: ${blocks.chunkCount}`);
+      console.log(`  Time: ${decompressionTime}ms`);
+    }
+    
+    return {
+      blocks,
+      blockTypes: compressedData.blockTypes,
+      entities: compressedData.entities,
+      version: compressedData.mapVersion,
+      ...(compressedData.fields && { fields: compressedData.fields }),
+      metadata: {
+        decompressionTime,
+        blockCount: blocks.size,
+        chunkCount: blocks.chunkCount
+      }
+    };
+  }
+  
+  /**
+   * Decompress only the part of a map inside a box (inclusive bounds)
+   * Files written with compression.spatialIndex (or parallel) decode just the
+   * segments whose bounds intersect the box; other files are decoded in full
+   */
+  async decompressRegion(
+    input: CompressedMapData | Buffer,
+    region: CompressedMapData['bounds']
+  ): Promise<DecompressionResult> {
+    const startTime = Date.now();
+    const compressedData = await MapFormat.read(input);
+    
+    if (!compressedData.version || !compressedData.data || !compressedData.blockTypes) {
+      throw new Error('Invalid compressed map format');
+    }
+    
+    const inside = (x: number, y: number, z: number) =>
+      x >= region.minX && x <= region.maxX &&
+      y >= region.minY && y <= region.maxY &&
+      z >= region.minZ && z <= region.maxZ;
+    
+    let segments = compressedData.segments;
+    if (segments?.length) {
+      segments = segments.filter(segment =>
+        segment.blockCount > 0 &&
+        segment.bounds.minX <= region.maxX && segment.bounds.maxX >= region.minX &&
+        segment.bounds.minY <= region.maxY && segment.bounds.maxY >= region.minY &&
+        segment.bounds.minZ <= region.maxZ && segment.bounds.maxZ >= region.minZ
+      );
+    } else if (this.options.debug) {
+      console.log('[MapDecompressor] No spatial index, decoding the whole map for region query');
+    }
+    
+    const blocks: { [key: string]: number } = {};
+    let blockCount = 0;
+    const results = segments && segments.length === 0
+      ? []
+      : await this.decodeSegmentsParallel(compressedData, 'blocks', segments);
+    for (const result of results) {
+      const flat = result.blocks!;
+      for (let i = 0; i < flat.length; i += 4) {
+        if (inside(flat[i], flat[i + 1], flat[i + 2])) {
+          blocks[`${flat[i]},${flat[i + 1]},${flat[i + 2]}`] = flat[i + 3];
+          blockCount++;
+        }
+      }
+    }
+    
+    // Entities are keyed by "x,y,z" or carry x/y/z (or position) fields;
+    // entities without a known position are kept
+    let entities = compressedData.entities;
+    if (entities && typeof entities === 'object' && !Array.isArray(entities)) {
+      entities = Object.fromEntries(Object.entries(entities).filter(([key, entity]: [string, any]) => {
+        let position = key.split(',').map(Number);
+        if (position.length !== 3 || position.some(v => !Number.isFinite(v))) {
+          const source = entity?.position || entity;
+          position = [source?.x, source?.y, source?.z];
+        }
+        if (position.some(v => typeof v !== 'number' || !Number.isFinite(v))) return true;
+        return inside(Math.floor(position[0]), Math.floor(position[1]), Math.floor(position[2]));
+      }));
+    }
+    
+    const decompressionTime = Date.now() - startTime;
+    
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[MapDecompressor] Region decompression complete:`);
+      console.log(`  Segments: ${results.length}/${compressedData.segments?.length || 1}`);
+      console.log(`  Blocks: ${blockCount}`);
+      console.log(`  Time: ${decompressionTime}ms`);
+    }
+    
+    return {
+      blocks,
+      blockTypes: compressedData.blockTypes,
+      entities,
+      version: compressedData.mapVersion,
+      ...(compressedData.fields && { fields: compressedData.fields }),
+      metadata: {
+        decompressionTime,
+        blockCount,
+        segmentsDecoded: results.length
+      }
+    };
+  }
+  
+  /**
+   * Decompress and decode one segment into transferable typed arrays
+   * Runs inside segment workers, or on the main thread when no pool is available
+   */
+  static async decodeSegment(task: SegmentDecodeTask): Promise<SegmentDecodeResult> {
+    const decompressed = await BrotliWrapper.decompress(
+      Buffer.from(task.data.buffer, task.data.byteOffset, task.data.byteLength),
+      task.algorithm
+    );
+    
+    // Flatten to [x, y, z, id] - Varint + Delta decodes without building string keys
+    let flat: Int32Array;
+    const blockEncoding = task.options?.blockEncoding || 'varint-delta';
+    if (blockEncoding === 'varint-delta' && task.options?.useDelta && task.options?.useVarint) {
+      const decoder = new VarintDeltaStreamDecoder(task.bounds);
+      const decoded = decoder.push(decompressed);
+      if (!decoder.isComplete) {
+        throw new Error('Compressed segment ended before all blocks were decoded');
+      }
+      flat = new Int32Array(decoded.length * 4);
+      decoded.forEach((block, i) => {
+        flat[i * 4] = block.x;
+        flat[i * 4 + 1] = block.y;
+        flat[i * 4 + 2] = block.z;
+        flat[i * 4 + 3] = block.id;
+      });
+    } else {
+      const blocks = new MapDecompressor().decodeBlocks(decompressed, task.options, task.bounds);
+      const keys = Object.keys(blocks);
+      flat = new Int32Array(keys.length * 4);
+      keys.forEach((key, i) => {
+        const [x, y, z] = key.split(',').map(Number);
+        flat[i * 4] = x;
+        flat[i * 4 + 1] = y;
+        flat[i * 4 + 2] = z;
+        flat[i * 4 + 3] = blocks[key];
+      });
+    }
+    
+    const blockCount = flat.length / 4;
+    if (task.output === 'blocks') {
+      return { blockCount, blocks: flat };
+    }
+    
+    // Assign chunk slots and find the ID width first so the shared buffer is allocated once
+    const slots = new Map<string, number>();
+    const slotOf = new Uint32Array(blockCount);
+    let lastKey = '';
+    let lastSlot = 0;
+    let maxId = 0;
+    for (let i = 0; i < blockCount; i++) {
+      if (flat[i * 4 + 3] > maxId) maxId = flat[i * 4 + 3];
+      const key = `${flat[i * 4] >> 4},${flat[i * 4 + 1] >> 4},${flat[i * 4 + 2] >> 4}`;
+      if (key !== lastKey) {
+        let slot = slots.get(key);
+        if (slot === undefined) {
+          slot = slots.size;
+          slots.set(key, slot);
+        }
+        lastKey = key;
+        lastSlot = slot;
+      }
+      slotOf[i] = lastSlot;
+    }
+    
+    const chunkData = ChunkArray.allocate(ChunkArray.widthFor(maxId), slots.size, true);
+    const origins = new Int32Array(slots.size * 3);
+    for (const [key, slot] of slots) {
+      const [cx, cy, cz] = key.split(',').map(Number);
+      origins[slot * 3] = cx * 16;
+      origins[slot * 3 + 1] = cy * 16;
+      origins[slot * 3 + 2] = cz * 16;
+    }
+    for (let i = 0; i < blockCount; i++) {
+      const x = flat[i * 4], y = flat[i * 4 + 1], z = flat[i * 4 + 2];
+      chunkData[slotOf[i] * 4096 + (x & 15) + ((y & 15) << 4) + ((z & 15) << 8)] = flat[i * 4 + 3];
+    }
+    
+    return { blockCount, origins, chunkData };
+  }
+  
+  /**
+   * Stream decompression - yields batches of blocks while Brotli is still decoding
+   * Blocks are yielded in ascending Y order, so whole Y layers complete in sequence
+   */
+  async *decompressStream(
+    input: CompressedMapData | Buffer,
+    options: { batchSize?: number } = {}
+  ): AsyncGenerator<DecodedBlock[]> {
+    const compressedData = await MapFormat.read(input);
+    const batchSize = options.batchSize || this.options.loading?.batchSize || 10000;
+    
+    if (!compressedData.version || !compressedData.data || !compressedData.blockTypes) {
+      throw new Error('Invalid compressed map format');
+    }
+    
+    // Only the Varint + Delta stream can be decoded incrementally, and column
+    // partitions interleave Y, so those are decoded in one pass and sorted
+    const blockEncoding = compressedData.options?.blockEncoding || 'varint-delta';
+    if (
+      blockEncoding !== 'varint-delta' ||
+      !(compressedData.options?.useDelta && compressedData.options?.useVarint) ||
+      compressedData.options?.partition === 'columns'
+    ) {
+      const result = await this.decompress(compressedData);
+      const blocks: DecodedBlock[] = Object.entries(result.blocks).map(([key, id]) => {
+        const [x, y, z] = key.split(',').map(Number);
+        return { x, y, z, id };
+      });
+      blocks.sort((a, b) => a.y - b.y);
+      for (let i = 0; i < blocks.length; i += batchSize) {
+        yield blocks.slice(i, i + batchSize);
+      }
+      return;
+    }
+    
+    const raw = typeof compressedData.data === 'string'
+      ? Buffer.from(compressedData.data, 'base64')
+      : compressedData.data;
+    
+    // Y slab segments are stored bottom-up, so decoding them in order keeps Y ascending
+    const parts = compressedData.segments?.length
+      ? compressedData.segments.map(segment => ({
+          data: raw.subarray(segment.offset, segment.offset + segment.length),
+          bounds: segment.bounds
+        }))
+      : [{ data: raw, bounds: compressedData.bounds }];
+    
+    let batch: DecodedBlock[] = [];
+    for (const part of parts) {
+      const stream = BrotliWrapper.createDecompressStream(compressedData.algorithm);
+      const decoder = new VarintDeltaStreamDecoder(part.bounds);
+      stream.end(part.data);
+      
+      for await (const piece of stream) {
+        // One piece can hold many batches of blocks
+        for (const block of decoder.push(piece as Buffer)) {
+          batch.push(block);
+          if (batch.length === batchSize) {
+            yield batch;
+            batch = [];
+          }
+        }
+      }
+      
+      if (!decoder.isComplete) {
+        throw new Error('Compressed block stream ended before all blocks were decoded');
+      }
+    }
+    
+    if (batch.length > 0) {
+      yield batch;
+    }
+  }
+  
+  /**
+   * Stream decompression into completed 16³ chunks
+   * A chunk is yielded as soon as the stream moves past its Y layer
+   */
+  async *decompressChunkStream(
+    input: CompressedMapData | Buffer,
+    options: { batchSize?: number } = {}
+  ): AsyncGenerator<DecodedChunk> {
+    const pending = new Map<string, DecodedChunk>();
+    let currentLayer = -Infinity;
+    
+    for await (const batch of this.decompressStream(input, options)) {
+      for (const block of batch) {
+        const layer = block.y >> 4;
+        
+        if (layer > currentLayer) {
+          // Every chunk below this layer is complete
+          for (const chunk of pending.values()) {
+            yield chunk;
+          }
+          pending.clear();
+          currentLayer = layer;
+        }
+        
+        const originX = block.x & ~15;
+        const originY = block.y & ~15;
+        const originZ = block.z & ~15;
+        const chunkKey = `${originX},${originY},${originZ}`;
+        
+        let chunk = pending.get(chunkKey);
+        if (!chunk) {
+          chunk = {
+            origin: { x: originX, y: originY, z: originZ },
+            blocks: new Uint8Array(4096)
+          };
+          pending.set(chunkKey, chunk);
+        }
+        
+        chunk.blocks = ChunkArray.widen(chunk.blocks, block.id);
+        chunk.blocks[(block.x & 15) + ((block.y & 15) << 4) + ((block.z & 15) << 8)] = block.id;
+      }
+    }
+    
+    for (const chunk of pending.values()) {
+      yield chunk;
+    }
+  }
+  
+  /**
+   * Check if data is a compressed map (JSON object or .hmc container)
+   */
+  static isCompressedMap(data: any): boolean {
+    if (Buffer.isBuffer(data)) {
+      return MapContainer.isContainer(data);
+    }
+    
+    if (MapFormat.isHyFire8(data)) {
+      return true;
+    }
+    
+    return !!(
+      data &&
+      data.version &&
+      data.algorithm &&
+      data.data &&
+      (typeof data.data === 'string' || Buffer.isBuffer(data.data)) &&
+      data.bounds
+    );
+  }
+  
+  /**
+   * Decode a decompressed block stream based on the encoding options
+   */
+  private decodeBlocks(
+    decompressed: Buffer,
+    options: CompressedMapData['options'],
+    bounds: CompressedMapData['bounds']
+  ): { [key: string]: number } {
+    let blocks: { [key: string]: number };
+    
+    if (options?.blockEncoding === 'palette') {
+      // Per-chunk palette with bit-packed indices
+      const paletteStart = Date.now();
+      blocks = PaletteEncoder.decode(decompressed);
+      
+      if (this.options.debug) {
+        console.log(`[MapDecompressor] Palette decoding: ${Date.now() - paletteStart}ms`);
+      }
+    } else if (options?.blockEncoding === 'columnar') {
+      // Separate coordinate and RLE block ID streams
+      const columnarStart = Date.now();
+      blocks = ColumnarEncoder.decode(decompressed, bounds);
+      
+      if (this.options.debug) {
+        console.log(`[MapDecompressor] Columnar decoding: ${Date.now() - columnarStart}ms`);
+      }
+    } else if (options?.useDelta && options?.useVarint) {
+      // Full pipeline: Varint + Delta
+      const varintStart = Date.now();
+      blocks = this.decodeVarintDelta(decompressed, bounds);
+      
+      if (this.options.debug) {
+        console.log(`[MapDecompressor] Varint + Delta decoding: ${Date.now() - varintStart}ms`);
+      }
+    } else if (options?.useDelta) {
+      // Delta only
+      blocks = this.decodeDeltaOnly(decompressed);
+    } else {
+      // Direct encoding
+      blocks = this.decodeDirect(decompressed);
+    }
+    
+    return blocks;
+  }
+  
+  /**
+   * Decompress and decode every segment of a multi-segment file
+   */
+  private async decompressSegments(compressedData: CompressedMapData): Promise<{ [key: string]: number }> {
+    const raw = typeof compressedData.data === 'string'
+      ? Buffer.from(compressedData.data, 'base64')
+      : compressedData.data;
+    const blocks: { [key: string]: number } = {};
+    
+    for (const segment of compressedData.segments!) {
+      const decompressed = await BrotliWrapper.decompress(
+        raw.subarray(segment.offset, segment.offset + segment.length),
+        compressedData.algorithm
+      );
+      const segmentBlocks = this.decodeBlocks(decompressed, compressedData.options, segment.bounds);
+      for (const key in segmentBlocks) {
+        blocks[key] = segmentBlocks[key];
+      }
+    }
+    
+    if (this.options.debug) {
+      console.log(`[MapDecompressor] Decoded ${compressedData.segments!.length} segments`);
+    }
+    
+    return blocks;
+  }
+  
+  /**
+   * Decode segments (all by default, or the whole file as one segment) to typed arrays
+   * Uses a worker pool when decompression.parallel is set
+   */
+  private async decodeSegmentsParallel(
+    compressedData: CompressedMapData,
+    output: 'blocks' | 'chunks',
+    selected?: CompressedSegment[]
+  ): Promise<SegmentDecodeResult[]> {
+    const raw = typeof compressedData.data === 'string'
+      ? Buffer.from(compressedData.data, 'base64')
+      : compressedData.data;
+    const segments = selected || (compressedData.segments?.length
+      ? compressedData.segments
+      : [{ bounds: compressedData.bounds, offset: 0, length: raw.length }]);
+    
+    // Copy each slice so posting it does not clone the whole file buffer
+    const tasks: SegmentDecodeTask[] = segments.map(segment => ({
+      data: new Uint8Array(raw.subarray(segment.offset, segment.offset + segment.length)),
+      algorithm: compressedData.algorithm,
+      options: compressedData.options,
+      bounds: segment.bounds,
+      output
+    }));
+    
+    // Custom codecs are only registered in this thread
+    const workers = this.options.decompression?.parallel && CodecRegistry.isBuiltin(compressedData.algorithm || 'brotli')
+      ? this.options.decompression.workers ?? WorkerPool.defaultSize()
+      : 0;
+    const { results, workers: used } = await WorkerPool.runAll<SegmentDecodeResult>(
+      'segmentWorker',
+      workers,
+      tasks.map(task => ({ type: 'decompress', task })),
+      message => MapDecompressor.decodeSegment(message.task)
+    );
+    
+    if (this.options.debug) {
+      console.log(`[MapDecompressor] Decoded ${tasks.length} segments using ${used} workers`);
+    }
+    
+    return results;
+  }
+  
   /**
    * Decode Varint + Delta encoded data
    */
-  private decodeVarintDelta(buffer: Buffer, compressedData: CompressedMapData): { [key: string]: number } {
+  private decodeVarintDelta(
+    buffer: Buffer,
+    bounds?: { minX: number; minY: number; minZ: number }
+  ): { [key: string]: number } {
     let offset = 0;
     
     // Read block count
@@ -115,9 +677,9 @@ export class MapDecompressor {
       offset = resultId.offset;
       
       // Add bounds back to get original coordinates
-      const x = lastX + (compressedData.bounds?.minX || 0);
-      const y = lastY + (compressedData.bounds?.minY || 0);
-      const z = lastZ + (compressedData.bounds?.minZ || 0);
+      const x = lastX + (bounds?.minX || 0);
+      const y = lastY + (bounds?.minY || 0);
+      const z = lastZ + (bounds?.minZ || 0);
       
       blocks[`${x},${y},${z}`] = blockId;
     }
@@ -127,14 +689,14 @@ export class MapDecompressor {
   
   /**
    * Fast varint + delta decoder with optimizations
+   * Reads streams with and without the RLE flag byte after the block count
    */
   decodeVarintDeltaFast(buffer: Buffer, compressedData: CompressedMapData): { [key: string]: number } {
-    let offset = 0;
-    const blockCount = buffer.readUInt32LE(offset);
-    offset += 4;
-    
-    const isRLE = buffer[offset] === 1;
-    offset += 1;
+    const blockCount = buffer.readUInt32LE(0);
+    let offset = MapFormat.varintDeltaHeaderSize(buffer) ?? 5;
+    const minX = compressedData.bounds?.minX || 0;
+    const minY = compressedData.bounds?.minY || 0;
+    const minZ = compressedData.bounds?.minZ || 0;
     
     // Pre-allocate result
     const blocks: { [key: string]: number } = Object.create(null);
@@ -177,8 +739,8 @@ export class MapDecompressor {
       do { b = buffer[offset++]; v |= (b & 0x7F) << s; s += 7; } while (b & 0x80);
       const blockId = (v >>> 1) ^ -(v & 1);
       
-      // Store block
-      const key = getPooledString(lastX, lastY, lastZ);
+      // Store block, adding bounds back like every other decoder
+      const key = getPooledString(lastX + minX, lastY + minY, lastZ + minZ);
       blocks[key] = blockId;
     }
     
@@ -0,0 +1,174 @@
+import { MapContainer } from './MapContainer';
+import { BrotliWrapper } from '../encoders/BrotliWrapper';
+import { EntityEncoder } from '../encoders/EntityEncoder';
+import { CompressedMapData, MapFormatInfo } from '../types';
+
+/**
+ * Format detection for every compressed map layout the plugin has written
+ *
+ * - hmc:        binary container, format version 1 (no checksums) or 2
+ * - json:       CompressedMapData with string version, algorithm and options
+ * - hyfire8-v2: MapCompressorFixed / HyFire8 output, version: 2 with
+ *               method: 'varint-delta-brotli' and top-level sizes
+ *
+ * All of them share the Varint + Delta block stream, except that some older
+ * streams carry an RLE flag byte after the block count (the layout
+ * decodeVarintDeltaFast reads). read() turns any of them into current
+ * CompressedMapData that every decoder understands, with packed entities
+ * (entityData) decoded back into entities.
+ */
+export class MapFormat {
+  static readonly CURRENT_VERSION = '1.0.0';
+  static readonly HYFIRE8_METHOD = 'varint-delta-brotli';
+  
+  /**
+   * Identify the format of a compressed map (container buffer or parsed JSON)
+   */
+  static detect(input: any): MapFormatInfo {
+    if (Buffer.isBuffer(input)) {
+      if (!MapContainer.isContainer(input)) {
+        return { format: 'unknown', current: false, reasons: ['Not a map container'] };
+      }
+      const containerVersion = MapContainer.formatVersion(input);
+      const current = containerVersion === MapContainer.FORMAT_VERSION;
+      return {
+        format: 'hmc',
+        containerVersion,
+        current,
+        reasons: current ? [] : [`Container format version ${containerVersion} has no checksums`]
+      };
+    }
+    
+    if (this.isHyFire8(input)) {
+      return { format: 'hyfire8-v2', current: false, reasons: ['HyFire8 / MapCompressorFixed layout (version 2)'] };
+    }
+    
+    if (input && typeof input.version === 'string' && input.algorithm && input.data && input.bounds) {
+      const reasons: string[] = [];
+      if (!input.options) reasons.push('No encoding options (written before options were stored)');
+      if (!input.checksums) reasons.push('No section checksums');
+      return { format: 'json', current: reasons.length === 0, reasons };
+    }
+    
+    return { format: 'unknown', current: false, reasons: ['Not a compressed map'] };
+  }
+  
+  /**
+   * Check for the HyFire8 / MapCompressorFixed layout
+   */
+  static isHyFire8(data: any): boolean {
+    return !!(
+      data &&
+      !Buffer.isBuffer(data) &&
+      data.version === 2 &&
+      data.method === this.HYFIRE8_METHOD &&
+      typeof data.data === 'string' &&
+      data.bounds
+    );
+  }
+  
+  /**
+   * Read any known format into current CompressedMapData
+   * Files without encoding options have their block stream checked for the
+   * RLE flag byte; a flagged stream is returned decompressed (algorithm 'none')
+   * without the flag, so it decodes like any other stream.
+   */
+  static async read(input: CompressedMapData | Buffer | any): Promise<CompressedMapData> {
+    if (Buffer.isBuffer(input)) {
+      return this.unpackEntities(MapContainer.decode(input));
+    }
+    
+    const info = this.detect(input);
+    if (info.format === 'unknown') {
+      throw new Error('Invalid compressed map format');
+    }
+    if (input.options) {
+      return this.unpackEntities(input);
+    }
+    
+    const compressedMap = info.format === 'hyfire8-v2' ? this.fromHyFire8(input) : { ...input };
+    compressedMap.options = { useDelta: true, useVarint: true, blockEncoding: 'varint-delta' };
+    if (compressedMap.segments?.length) {
+      return compressedMap;
+    }
+    
+    const raw = typeof compressedMap.data === 'string'
+      ? await BrotliWrapper.decompressFromBase64(compressedMap.data, compressedMap.algorithm)
+      : await BrotliWrapper.decompress(compressedMap.data, compressedMap.algorithm);
+    const headerSize = this.varintDeltaHeaderSize(raw);
+    if (headerSize === null) {
+      throw new Error('Unrecognised block stream: not a Varint + Delta stream with or without an RLE flag byte');
+    }
+    if (headerSize === 5) {
+      compressedMap.data = Buffer.concat([raw.subarray(0, 4), raw.subarray(5)]);
+      compressedMap.algorithm = 'none';
+    }
+    return compressedMap;
+  }
+  
+  /**
+   * Decode packed entities (entityData) into entities; maps without them are returned as is
+   */
+  static async unpackEntities(compressedMap: CompressedMapData): Promise<CompressedMapData> {
+    if (!compressedMap.entityData) {
+      return compressedMap;
+    }
+    const { entityData, ...rest } = compressedMap;
+    return { ...rest, entities: await EntityEncoder.decompress(entityData, compressedMap.algorithm) };
+  }
+  
+  /**
+   * Header size of a Varint + Delta block stream: 4 (block count), 5 (block
+   * count + RLE flag byte) or null when neither layout ends exactly at the end
+   */
+  static varintDeltaHeaderSize(raw: Buffer): 4 | 5 | null {
+    if (raw.length < 4) return null;
+    const blockCount = raw.readUInt32LE(0);
+    
+    if (this.varintsEndAt(raw, 4, blockCount * 4) === raw.length) {
+      return 4;
+    }
+    if (raw.length > 4 && raw[4] <= 1 && this.varintsEndAt(raw, 5, blockCount * 4) === raw.length) {
+      return 5;
+    }
+    return null;
+  }
+  
+  /**
+   * Current envelope for a HyFire8 / MapCompressorFixed map (same block stream)
+   */
+  private static fromHyFire8(data: any): CompressedMapData {
+    const compressedMap: CompressedMapData = {
+      version: this.CURRENT_VERSION,
+      algorithm: 'brotli',
+      data: data.data,
+      blockTypes: data.blockTypes ?? {},
+      bounds: data.bounds,
+      entities: data.entities ?? {},
+      mapVersion: data.mapVersion
+    };
+    
+    if (data.originalSize !== undefined && data.compressedSize !== undefined) {
+      compressedMap.metadata = {
+        originalSize: data.originalSize,
+        compressedSize: data.compressedSize,
+        compressionRatio: data.originalSize ? 1 - data.compressedSize / data.originalSize : 0,
+        blockCount: data.blockCount ?? 0
+      };
+    }
+    if (data.sourceHash) compressedMap.sourceHash = data.sourceHash;
+    return compressedMap;
+  }
+  
+  /**
+   * Offset just past count varints starting at offset (-1 if they run past the end)
+   */
+  private static varintsEndAt(raw: Buffer, offset: number, count: number): number {
+    for (let i = 0; i < count; i++) {
+      while (offset < raw.length && raw[offset] & 0x80) offset++;
+      if (offset >= raw.length) return -1;
+      offset++;
+    }
+    return offset;
+  }
+}
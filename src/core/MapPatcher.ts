@@ -0,0 +1,227 @@
+import * as crypto from 'crypto';
+import { MapCompressor } from './MapCompressor';
+import { MapDecompressor } from './MapDecompressor';
+import { VoxelStore } from '../utils/VoxelStore';
+import { MapData, MapPatch, RecordPatch } from '../types';
+
+/**
+ * Diff and patch between two versions of a map
+ * Changed blocks go through the same Varint + Delta + codec pipeline as full
+ * maps, with removals stored as block ID -1. Content hashes of both versions
+ * make sure a patch is only ever applied to the map it was made from.
+ */
+export class MapPatcher {
+  static readonly PATCH_VERSION = '1.1.0'; // 1.1.0: extra map fields are patched and hashed
+  private static readonly REMOVED = -1;
+  
+  /**
+   * Create a patch that turns oldMap into newMap
+   */
+  static async diff(
+    oldMap: MapData,
+    newMap: MapData,
+    options: { algorithm?: string; level?: number } = {}
+  ): Promise<MapPatch> {
+    const oldBlocks = VoxelStore.toDictionary(oldMap.blocks);
+    const newBlocks = VoxelStore.toDictionary(newMap.blocks);
+    
+    const changes: number[] = [];
+    let added = 0, removed = 0, changed = 0;
+    const push = (key: string, id: number) => {
+      const [x, y, z] = key.split(',').map(Number);
+      changes.push(x, y, z, id);
+    };
+    
+    for (const key in newBlocks) {
+      const oldId = oldBlocks[key];
+      if (oldId === undefined) {
+        push(key, newBlocks[key]);
+        added++;
+      } else if (oldId !== newBlocks[key]) {
+        push(key, newBlocks[key]);
+        changed++;
+      }
+    }
+    for (const key in oldBlocks) {
+      if (newBlocks[key] === undefined) {
+        push(key, this.REMOVED);
+        removed++;
+      }
+    }
+    
+    const algorithm = options.algorithm || 'brotli';
+    const segment = await MapCompressor.compressSegment({
+      blocks: Int32Array.from(changes),
+      blockEncoding: 'varint-delta',
+      algorithm,
+      level: options.level || 9,
+      compress: true
+    });
+    const data = Buffer.from(segment.data).toString('base64');
+    
+    const patch: MapPatch = {
+      version: this.PATCH_VERSION,
+      algorithm,
+      baseHash: this.hashMap(oldMap),
+      targetHash: this.hashMap(newMap),
+      data,
+      bounds: {
+        minX: Number.isFinite(segment.bounds.minX) ? segment.bounds.minX : 0,
+        minY: Number.isFinite(segment.bounds.minY) ? segment.bounds.minY : 0,
+        minZ: Number.isFinite(segment.bounds.minZ) ? segment.bounds.minZ : 0
+      },
+      metadata: { added, removed, changed, patchSize: data.length }
+    };
+    
+    const blockTypes = this.diffRecord(oldMap.blockTypes, newMap.blockTypes);
+    if (blockTypes) patch.blockTypes = blockTypes;
+    const entities = this.diffRecord(oldMap.entities, newMap.entities);
+    if (entities) patch.entities = entities;
+    const fields = this.diffRecord(MapCompressor.extraFields(oldMap), MapCompressor.extraFields(newMap));
+    if (fields) patch.fields = fields;
+    if (newMap.version !== undefined) patch.mapVersion = newMap.version;
+    
+    return patch;
+  }
+  
+  /**
+   * Apply a patch to the map it was created from
+   * Throws if the base or the result does not match the hashes in the patch
+   */
+  static async apply(baseMap: MapData, patch: MapPatch): Promise<MapData> {
+    if (!patch || patch.version !== this.PATCH_VERSION) {
+      throw new Error(`Unsupported map patch version ${patch?.version}`);
+    }
+    
+    const baseHash = this.hashMap(baseMap);
+    if (baseHash !== patch.baseHash) {
+      throw new Error(`Patch does not apply to this map (base hash ${baseHash}, patch expects ${patch.baseHash})`);
+    }
+    
+    const decoded = await MapDecompressor.decodeSegment({
+      data: Buffer.from(patch.data, 'base64'),
+      algorithm: patch.algorithm,
+      options: { useDelta: true, useVarint: true, blockEncoding: 'varint-delta' },
+      bounds: { ...patch.bounds, maxX: 0, maxY: 0, maxZ: 0 },
+      output: 'blocks'
+    });
+    
+    const blocks = { ...VoxelStore.toDictionary(baseMap.blocks) };
+    const flat = decoded.blocks!;
+    for (let i = 0; i < flat.length; i += 4) {
+      const key = `${flat[i]},${flat[i + 1]},${flat[i + 2]}`;
+      if (flat[i + 3] === this.REMOVED) {
+        delete blocks[key];
+      } else {
+        blocks[key] = flat[i + 3];
+      }
+    }
+    
+    const { version } = baseMap;
+    const result: MapData = {
+      ...this.applyRecord(MapCompressor.extraFields(baseMap), patch.fields),
+      ...(version !== undefined && { version }),
+      blocks,
+      blockTypes: this.applyRecord(baseMap.blockTypes, patch.blockTypes),
+      entities: this.applyRecord(baseMap.entities, patch.entities)
+    };
+    if (patch.mapVersion !== undefined) result.version = patch.mapVersion;
+    
+    const targetHash = this.hashMap(result);
+    if (targetHash !== patch.targetHash) {
+      throw new Error(`Patched map does not match the patch target (got ${targetHash}, expected ${patch.targetHash})`);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * SHA-256 of the map content: blocks in Y/X/Z order, block types, entities and
+   * extra map fields
+   * Independent of key order and of how the map was stored
+   */
+  static hashMap(mapData: MapData): string {
+    const count = VoxelStore.count(mapData.blocks);
+    const coords = new Int32Array(count * 4);
+    let offset = 0;
+    VoxelStore.forEachBlock(mapData.blocks, (x, y, z, id) => {
+      coords[offset++] = x;
+      coords[offset++] = y;
+      coords[offset++] = z;
+      coords[offset++] = id;
+    });
+    
+    const order = new Uint32Array(count);
+    for (let i = 0; i < order.length; i++) order[i] = i;
+    order.sort((a, b) =>
+      coords[a * 4 + 1] - coords[b * 4 + 1] ||
+      coords[a * 4] - coords[b * 4] ||
+      coords[a * 4 + 2] - coords[b * 4 + 2]
+    );
+    
+    const sorted = new Int32Array(coords.length);
+    for (let i = 0; i < order.length; i++) {
+      sorted.set(coords.subarray(order[i] * 4, order[i] * 4 + 4), i * 4);
+    }
+    
+    return crypto.createHash('sha256')
+      .update(Buffer.from(sorted.buffer))
+      .update(this.stableStringify(mapData.blockTypes ?? {}))
+      .update(this.stableStringify(mapData.entities ?? {}))
+      .update(this.stableStringify(MapCompressor.extraFields(mapData) ?? {}))
+      .digest('hex');
+  }
+  
+  private static diffRecord(oldValue: any, newValue: any): RecordPatch | undefined {
+    oldValue = oldValue ?? {};
+    newValue = newValue ?? {};
+    if (this.stableStringify(oldValue) === this.stableStringify(newValue)) {
+      return undefined;
+    }
+    
+    if (!this.isPlainObject(oldValue) || !this.isPlainObject(newValue)) {
+      return { replace: newValue };
+    }
+    
+    const set: { [key: string]: any } = {};
+    const removed: string[] = [];
+    for (const key of Object.keys(newValue)) {
+      if (!(key in oldValue) || this.stableStringify(oldValue[key]) !== this.stableStringify(newValue[key])) {
+        set[key] = newValue[key];
+      }
+    }
+    for (const key of Object.keys(oldValue)) {
+      if (!(key in newValue)) removed.push(key);
+    }
+    
+    return { set, removed };
+  }
+  
+  private static applyRecord(baseValue: any, patch?: RecordPatch): any {
+    if (!patch) return baseValue;
+    if ('replace' in patch) return patch.replace;
+    
+    const result = { ...(baseValue ?? {}) };
+    for (const key of patch.removed || []) {
+      delete result[key];
+    }
+    return Object.assign(result, patch.set || {});
+  }
+  
+  private static isPlainObject(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+  
+  /**
+   * JSON with sorted object keys, so equal content always hashes the same
+   */
+  private static stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    if (this.isPlainObject(value)) {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
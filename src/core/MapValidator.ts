@@ -0,0 +1,209 @@
+import { VoxelStore } from '../utils/VoxelStore';
+import { ChunkArray } from '../utils/ChunkArray';
+import { MapData, ValidationIssue, ValidationResult } from '../types';
+
+export interface MapValidationOptions {
+  strict?: boolean; // Warnings make the result invalid too
+  maxSamples?: number; // Offending keys listed per issue (default: 10)
+  voxelStore?: boolean; // Coordinates must fit VoxelStore (preParseCoordinates)
+}
+
+interface IssueTally {
+  severity: 'error' | 'warning';
+  issue: ValidationIssue;
+}
+
+type Report = (severity: IssueTally['severity'], code: string, message: string, key: string) => void;
+
+/**
+ * Input checks for MapData before it is compressed or loaded
+ * Every problem is reported once per kind with the number of blocks affected
+ * and the first offending keys, instead of surfacing later as NaN bounds or a
+ * corrupt block stream.
+ */
+export class MapValidator {
+  static readonly DEFAULT_MAX_SAMPLES = 10;
+  // Largest ID and per-axis coordinate span the 32-bit zigzag varint encodes
+  static readonly MAX_VARINT_VALUE = 0x3fffffff;
+  // VoxelStore packs chunk coordinates into 17 bits: 65536 chunks either side of 0
+  static readonly VOXEL_MIN = -1048576;
+  static readonly VOXEL_MAX = 1048575;
+  
+  /**
+   * Validate blocks, block IDs and block types of a map
+   */
+  static validate(mapData: MapData | any, options: MapValidationOptions = {}): ValidationResult {
+    const maxSamples = options.maxSamples ?? this.DEFAULT_MAX_SAMPLES;
+    const tallies = new Map<string, IssueTally>();
+    const report: Report = (severity, code, message, key) => {
+      let tally = tallies.get(code);
+      if (!tally) {
+        tally = { severity, issue: { code, message, count: 0, keys: [] } };
+        tallies.set(code, tally);
+      }
+      tally.issue.count++;
+      if (tally.issue.keys.length < maxSamples) tally.issue.keys.push(key);
+    };
+    
+    const blocks = mapData?.blocks;
+    let blockCount = 0;
+    if (!blocks || typeof blocks !== 'object' || Array.isArray(blocks)) {
+      report('error', 'missing-blocks', 'Map data has no blocks object', 'blocks');
+    } else {
+      const knownIds = this.checkBlockTypes(mapData.blockTypes, report);
+      const usedIds = new Map<number, string>(); // ID -> first key using it
+      const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+      const minKey = ['', '', ''], maxKey = ['', '', ''];
+      const canonicalSeen = new Set<string>();
+      
+      const visit = (key: string, coords: number[], id: any) => {
+        blockCount++;
+        for (let axis = 0; axis < 3; axis++) {
+          if (coords[axis] < min[axis]) { min[axis] = coords[axis]; minKey[axis] = key; }
+          if (coords[axis] > max[axis]) { max[axis] = coords[axis]; maxKey[axis] = key; }
+        }
+        if (options.voxelStore && coords.some(value => value < this.VOXEL_MIN || value > this.VOXEL_MAX)) {
+          report('error', 'outside-voxel-range', `Coordinates outside ${this.VOXEL_MIN}..${this.VOXEL_MAX}, the range VoxelStore (preParseCoordinates) can hold`, key);
+        }
+        if (this.checkId(key, id, report) && !usedIds.has(id)) usedIds.set(id, key);
+      };
+      
+      if (VoxelStore.isVoxelStore(blocks)) {
+        blocks.forEach((x, y, z, id) => visit(`${x},${y},${z}`, [x, y, z], id));
+      } else {
+        for (const key in blocks) {
+          const coords = this.parseKey(key, report);
+          if (!coords) {
+            blockCount++;
+            this.checkId(key, blocks[key], report);
+            continue;
+          }
+          
+          // "01,2,3" and "1,2,3" are different keys for the same block
+          const canonical = coords.join(',');
+          if (canonical !== key) {
+            if (canonicalSeen.has(canonical) || Object.prototype.hasOwnProperty.call(blocks, canonical)) {
+              report('error', 'duplicate-coordinates', 'Keys that resolve to a block another key already sets', key);
+            }
+            canonicalSeen.add(canonical);
+          }
+          visit(key, coords, blocks[key]);
+        }
+      }
+      
+      for (let axis = 0; axis < 3; axis++) {
+        if (max[axis] - min[axis] > this.MAX_VARINT_VALUE) {
+          const message = `Coordinates span more than ${this.MAX_VARINT_VALUE} blocks on an axis, beyond what the varint encoder can represent`;
+          report('error', 'coordinate-out-of-range', message, `${'xyz'[axis]}: ${minKey[axis]} .. ${maxKey[axis]}`);
+        }
+      }
+      
+      if (knownIds) {
+        const unknown = Array.from(usedIds.keys()).filter(id => id !== 0 && !knownIds.has(id));
+        for (const id of unknown) {
+          report('warning', 'unknown-block-type', 'Block IDs with no matching blockTypes entry', `${id} (e.g. ${usedIds.get(id)})`);
+        }
+      } else if (blockCount > 0) {
+        report('warning', 'missing-block-types', 'Map data has no blockTypes, so no block ID can be checked against a type', 'blockTypes');
+      }
+    }
+    
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    for (const tally of tallies.values()) {
+      (tally.severity === 'error' ? errors : warnings).push(tally.issue);
+    }
+    const valid = errors.length === 0 && (!options.strict || warnings.length === 0);
+    return { valid, blockCount, errors, warnings };
+  }
+  
+  /**
+   * One line per issue, for logs and error messages
+   */
+  static summarize(result: ValidationResult): string[] {
+    const line = (severity: string, issue: ValidationIssue) => {
+      const more = issue.count > issue.keys.length ? ', ...' : '';
+      return `${severity} ${issue.code}: ${issue.message} (${issue.count}x: ${issue.keys.map(key => `"${key}"`).join(', ')}${more})`;
+    };
+    return [
+      ...result.errors.map(issue => line('error', issue)),
+      ...result.warnings.map(issue => line('warning', issue))
+    ];
+  }
+  
+  /**
+   * Validate and throw one error listing every issue when the result is invalid
+   */
+  static assertValid(mapData: MapData | any, options: MapValidationOptions = {}): ValidationResult {
+    const result = this.validate(mapData, options);
+    if (!result.valid) {
+      throw new Error(`Invalid map data:\n  ${this.summarize(result).join('\n  ')}`);
+    }
+    return result;
+  }
+  
+  /**
+   * Integer coordinates of an "x,y,z" key, or null (reported) when malformed
+   */
+  private static parseKey(key: string, report: Report): number[] | null {
+    const parts = key.split(',');
+    if (parts.length !== 3 || parts.some(part => part.trim() === '' || !Number.isFinite(Number(part)))) {
+      report('error', 'malformed-coordinates', 'Keys that are not three comma-separated numbers ("x,y,z")', key);
+      return null;
+    }
+    const coords = parts.map(Number);
+    if (!coords.every(Number.isInteger)) {
+      report('error', 'non-integer-coordinates', 'Keys with fractional coordinates', key);
+      return null;
+    }
+    return coords;
+  }
+  
+  /**
+   * Report a bad block ID; true when the ID can be encoded at all
+   */
+  private static checkId(key: string, id: any, report: Report): boolean {
+    if (typeof id !== 'number') {
+      report('error', 'non-numeric-block-id', 'Block IDs that are not numbers (e.g. strings)', `${key} = ${JSON.stringify(id)}`);
+    } else if (!Number.isInteger(id)) {
+      report('error', 'non-integer-block-id', 'Block IDs that are not integers', `${key} = ${id}`);
+    } else if (id < 0) {
+      report('error', 'negative-block-id', 'Negative block IDs', `${key} = ${id}`);
+    } else if (id > this.MAX_VARINT_VALUE) {
+      report('error', 'block-id-out-of-range', `Block IDs above ${this.MAX_VARINT_VALUE}, beyond what the varint encoder can represent`, `${key} = ${id}`);
+    } else {
+      if (id > ChunkArray.MAX_ID) {
+        report('warning', 'wide-block-id', `Block IDs above ${ChunkArray.MAX_ID} cannot be stored in chunk caches`, `${key} = ${id}`);
+      } else if (id === 0) {
+        report('warning', 'air-block-id', 'Blocks with ID 0, which chunk loaders treat as air', key);
+      }
+      return true;
+    }
+    return false;
+  }
+  
+  /**
+   * IDs declared by the block types (null when there are none), reporting bad entries
+   */
+  private static checkBlockTypes(blockTypes: any, report: Report): Set<number> | null {
+    if (!blockTypes || typeof blockTypes !== 'object') return null;
+    
+    const entries: Array<[string, any]> = Array.isArray(blockTypes)
+      ? blockTypes.map((blockType, i) => [String(i), blockType] as [string, any])
+      : Object.entries(blockTypes);
+    if (entries.length === 0) return null;
+    
+    const ids = new Set<number>();
+    for (const [key, blockType] of entries) {
+      if (!blockType || !Number.isInteger(blockType.id)) {
+        report('warning', 'invalid-block-type', 'Block types without an integer id', `blockTypes[${key}]`);
+        continue;
+      }
+      if (ids.has(blockType.id)) {
+        report('warning', 'duplicate-block-type', 'Block types that repeat an id', `blockTypes[${key}] (id ${blockType.id})`);
+      }
+      ids.add(blockType.id);
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,180 @@
+import * as zlib from 'zlib';
+import { MapContainer } from './MapContainer';
+import { ChunkContainer } from './ChunkContainer';
+import { MapDecompressor } from './MapDecompressor';
+import { Checksum } from '../utils/Checksum';
+import { CompressedMapData, CompressedSegment, VerifyResult, VerifySection } from '../types';
+
+/**
+ * Integrity checks for compressed maps and chunk caches
+ * Recognises .hmc containers, JSON compressed maps, MCB1/MCB2 chunk files and
+ * JSON chunk caches, and reports every section (and segment or chunk) that is
+ * truncated or fails its CRC32.
+ */
+export class MapVerifier {
+  static readonly JSON_SECTIONS = ['data', 'blockTypes', 'entities'];
+  
+  /**
+   * Verify a file's contents or an already parsed compressed map
+   */
+  static verify(input: Buffer | CompressedMapData | any): VerifyResult {
+    if (Buffer.isBuffer(input)) {
+      if (MapContainer.isContainer(input)) {
+        return this.verifyContainer(input);
+      }
+      if (ChunkContainer.isContainer(input)) {
+        const checksummed = input.readUInt32LE(0) === ChunkContainer.MAGIC;
+        return this.result('chunks-binary', checksummed, ChunkContainer.verify(input));
+      }
+      
+      input = this.parseJson(input);
+      if (input === undefined) {
+        return this.result('unknown', false, [
+          { name: 'file', valid: false, error: 'Not a map container, chunk file or JSON' }
+        ]);
+      }
+    }
+    
+    if (MapDecompressor.isCompressedMap(input)) {
+      return this.result('compressed-json', !!input.checksums, this.verifyCompressedMap(input));
+    }
+    if (input && Array.isArray(input.chunks)) {
+      return this.result('chunks-json', false, this.verifyJsonChunks(input.chunks));
+    }
+    return this.result('unknown', false, [
+      { name: 'file', valid: false, error: 'Not a compressed map or chunk cache' }
+    ]);
+  }
+  
+  /**
+   * CRC32 of each section of a JSON compressed map, for its checksums field
+   */
+  static sectionChecksums(compressedMap: CompressedMapData): { [section: string]: number } {
+    const checksums: { [section: string]: number } = {};
+    for (const section of this.sectionsOf(compressedMap)) {
+      checksums[section] = Checksum.crc32(this.sectionBytes(compressedMap, section));
+    }
+    return checksums;
+  }
+  
+  /**
+   * Sections of a compressed map object, checked against its checksums (if any)
+   */
+  private static verifyCompressedMap(compressedMap: CompressedMapData): VerifySection[] {
+    const results: VerifySection[] = [];
+    for (const section of this.sectionsOf(compressedMap)) {
+      const bytes = this.sectionBytes(compressedMap, section);
+      const result: VerifySection = { name: section, length: bytes.length, valid: true };
+      const expected = compressedMap.checksums?.[section];
+      if (expected !== undefined) {
+        const actual = Checksum.crc32(bytes);
+        result.expected = Checksum.toHex(expected);
+        result.actual = Checksum.toHex(actual);
+        if (actual !== expected) {
+          result.valid = false;
+          result.error = 'Checksum mismatch';
+        }
+      }
+      results.push(result);
+    }
+    
+    if (compressedMap.segments) {
+      results.push(...this.verifySegments(compressedMap.segments, this.sectionBytes(compressedMap, 'data')));
+    }
+    return results;
+  }
+  
+  /**
+   * Container sections, plus its segments when the segment index is readable
+   */
+  private static verifyContainer(buffer: Buffer): VerifyResult {
+    const sections = MapContainer.verify(buffer);
+    const blocks = sections.find(section => section.name === MapContainer.SECTION_NAMES[MapContainer.SECTION_BLOCKS]);
+    const index = sections.find(section => section.name === MapContainer.SECTION_NAMES[MapContainer.SECTION_SEGMENTS]);
+    
+    if (blocks?.offset !== undefined && index?.valid && index.offset !== undefined) {
+      try {
+        const segments = JSON.parse(buffer.subarray(index.offset, index.offset + index.length!).toString('utf-8'));
+        const data = buffer.subarray(blocks.offset, Math.min(blocks.offset + blocks.length!, buffer.length));
+        sections.push(...this.verifySegments(segments, data));
+      } catch (error: any) {
+        index.valid = false;
+        index.error = `Unreadable segment index: ${error.message}`;
+      }
+    }
+    
+    return this.result('hmc', MapContainer.formatVersion(buffer) >= 2, sections);
+  }
+  
+  private static verifySegments(segments: CompressedSegment[], data: Buffer): VerifySection[] {
+    return segments.map((segment, i) => {
+      const result: VerifySection = { name: `segment ${i}`, offset: segment.offset, length: segment.length, valid: true };
+      if (segment.offset + segment.length > data.length) {
+        result.valid = false;
+        result.error = `Truncated: ends at byte ${segment.offset + segment.length} of ${data.length}`;
+      } else if (segment.checksum !== undefined) {
+        const actual = Checksum.crc32(data.subarray(segment.offset, segment.offset + segment.length));
+        result.expected = Checksum.toHex(segment.checksum);
+        result.actual = Checksum.toHex(actual);
+        if (actual !== segment.checksum) {
+          result.valid = false;
+          result.error = 'Checksum mismatch';
+        }
+      }
+      return result;
+    });
+  }
+  
+  private static verifyJsonChunks(chunks: any[]): VerifySection[] {
+    return chunks.map((chunk, i) => {
+      const origin = chunk?.origin;
+      const name = origin ? `chunk ${origin.x},${origin.y},${origin.z}` : `chunk #${i}`;
+      const valid = !!origin && !!chunk.blocks && typeof chunk.blocks === 'object';
+      return valid ? { name, valid } : { name, valid, error: 'Missing origin or blocks' };
+    });
+  }
+  
+  /**
+   * Checksummed sections of a JSON map: packed entities replace the entities section,
+   * extra map fields add one
+   */
+  private static sectionsOf(compressedMap: CompressedMapData): string[] {
+    const sections = compressedMap.entityData
+      ? this.JSON_SECTIONS.map(section => section === 'entities' ? 'entityData' : section)
+      : this.JSON_SECTIONS;
+    return compressedMap.fields ? [...sections, 'fields'] : sections;
+  }
+  
+  /**
+   * Bytes a JSON section checksum covers: raw block stream / entity data or the JSON text
+   */
+  private static sectionBytes(compressedMap: CompressedMapData, section: string): Buffer {
+    if (section === 'data' || section === 'entityData') {
+      const data = (compressedMap as any)[section];
+      return typeof data === 'string'
+        ? Buffer.from(data, 'base64')
+        : Buffer.from(data || []);
+    }
+    return Buffer.from(JSON.stringify((compressedMap as any)[section] ?? {}), 'utf-8');
+  }
+  
+  /**
+   * JSON text, or Brotli-compressed JSON (PrecomputeChunks output)
+   */
+  private static parseJson(buffer: Buffer): any {
+    try {
+      return JSON.parse(buffer.toString('utf-8'));
+    } catch {}
+    try {
+      return JSON.parse(zlib.brotliDecompressSync(buffer).toString('utf-8'));
+    } catch {}
+    return undefined;
+  }
+  
+  private static result(format: VerifyResult['format'], checksummed: boolean, sections: VerifySection[]): VerifyResult {
+    const errors = sections
+      .filter(section => !section.valid)
+      .map(section => `${section.name}: ${section.error}`);
+    return { valid: errors.length === 0, format, checksummed, sections, errors };
+  }
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { MapReloadResult } from '../types';
+
+export type MapReloadHandler = (content: Buffer, hash: string) => Promise<MapReloadResult>;
+
+/**
+ * Watches a map file and runs a reload for every saved version
+ * Saves are debounced and deduplicated by content hash, and reloads never
+ * overlap: a save during a reload is picked up once it finishes.
+ *
+ * Events:
+ * - 'change'    (hash)                          new content detected, reload starting
+ * - 'reloading' ({ path, hash, chunks, full })  right before the world is modified
+ * - 'reloaded'  (MapReloadResult)               world and caches updated
+ * - 'error'     (Error)                         reload failed; before 'reloading' the world keeps
+ *                                               the previous map, after it the world may be partly
+ *                                               updated (the SDK threw while applying it)
+ */
+export class MapWatcher extends EventEmitter {
+  static readonly DEFAULT_DEBOUNCE_MS = 300;
+  
+  readonly mapPath: string;
+  private reload: MapReloadHandler;
+  private debounceMs: number;
+  private lastHash: string | null = null;
+  private fsWatcher: fs.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<MapReloadResult | null> | null = null;
+  private pending = false;
+  
+  constructor(mapPath: string, reload: MapReloadHandler, options: { debounceMs?: number } = {}) {
+    super();
+    this.mapPath = mapPath;
+    this.reload = reload;
+    this.debounceMs = options.debounceMs ?? MapWatcher.DEFAULT_DEBOUNCE_MS;
+  }
+  
+  /**
+   * Content hash used for change detection and cache names
+   */
+  static hash(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+  }
+  
+  get watching(): boolean {
+    return this.fsWatcher !== null;
+  }
+  
+  /**
+   * Start watching; the file's current content is taken as already loaded
+   * Watches the directory so editors that save by renaming are seen too.
+   */
+  start(): this {
+    if (this.fsWatcher) return this;
+    
+    this.lastHash = MapWatcher.hash(fs.readFileSync(this.mapPath));
+    const fileName = path.basename(this.mapPath);
+    this.fsWatcher = fs.watch(path.dirname(this.mapPath), (_event, changed) => {
+      if (!changed || changed.toString() === fileName) this.schedule();
+    });
+    this.fsWatcher.on('error', error => this.fail(error));
+    return this;
+  }
+  
+  /**
+   * Stop watching; a reload already running still completes
+   */
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.fsWatcher?.close();
+    this.fsWatcher = null;
+    this.pending = false;
+  }
+  
+  /**
+   * Reload now if the file changed since the last reload
+   * @returns The reload result, or null when the content is unchanged or the reload failed
+   */
+  async check(): Promise<MapReloadResult | null> {
+    if (this.running) {
+      this.pending = true;
+      return this.running;
+    }
+    
+    this.running = this.runReload();
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+      if (this.pending) {
+        this.pending = false;
+        this.schedule();
+      }
+    }
+  }
+  
+  private async runReload(): Promise<MapReloadResult | null> {
+    let content: Buffer;
+    try {
+      content = fs.readFileSync(this.mapPath);
+    } catch (error: any) {
+      // Mid-save (deleted before rename) - the next event picks up the new file
+      if (error.code === 'ENOENT') return null;
+      this.fail(error);
+      return null;
+    }
+    
+    const hash = MapWatcher.hash(content);
+    if (hash === this.lastHash) return null;
+    this.emit('change', hash);
+    
+    try {
+      const result = await this.reload(content, hash);
+      this.lastHash = hash;
+      this.emit('reloaded', result);
+      return result;
+    } catch (error: any) {
+      this.fail(error);
+      return null;
+    }
+  }
+  
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.check();
+    }, this.debounceMs);
+  }
+  
+  /**
+   * Emit 'error' when someone listens; an unhandled 'error' would crash the server
+   */
+  private fail(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      console.error(`[MapWatcher] Reload of ${this.mapPath} failed: ${error.message}`);
+    }
+  }
+}
@@ -1,45 +1,26 @@
-import * as zlib from 'zlib';
-import { promisify } from 'util';
-
-const brotliCompress = promisify(zlib.brotliCompress);
-const brotliDecompress = promisify(zlib.brotliDecompress);
-const gzipCompress = promisify(zlib.gzip);
-const gzipDecompress = promisify(zlib.gunzip);
+import { Transform } from 'stream';
+import { CodecRegistry } from './CodecRegistry';
 
 /**
- * Wrapper for Brotli and Gzip compression
- * Brotli achieves 20-30% better compression than gzip
+ * Wrapper for the final compression stage
+ * Brotli achieves 20-30% better compression than gzip. Other algorithms are
+ * resolved by name through CodecRegistry.
  */
 export class BrotliWrapper {
   /**
-   * Compress data using Brotli algorithm
+   * Compress data with the named codec (Brotli by default)
    */
   static async compress(
     data: Buffer,
     options?: {
-      algorithm?: 'brotli' | 'gzip' | 'none';
+      algorithm?: string;
       level?: number;
     }
   ): Promise<Buffer> {
     const algorithm = options?.algorithm || 'brotli';
     const level = options?.level || 9; // Maximum compression by default
     
-    if (algorithm === 'none') {
-      return data;
-    }
-    
-    if (algorithm === 'gzip') {
-      return gzipCompress(data, { level });
-    }
-    
-    // Brotli compression
-    return brotliCompress(data, {
-      params: {
-        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_GENERIC,
-        [zlib.constants.BROTLI_PARAM_QUALITY]: level,
-        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
-      }
-    });
+    return CodecRegistry.get(algorithm).compress(data, level);
   }
   
   /**
@@ -47,17 +28,16 @@ export class BrotliWrapper {
    */
   static async decompress(
     data: Buffer,
-    algorithm: 'brotli' | 'gzip' | 'none' = 'brotli'
+    algorithm: string = 'brotli'
   ): Promise<Buffer> {
-    if (algorithm === 'none') {
-      return data;
-    }
-    
-    if (algorithm === 'gzip') {
-      return gzipDecompress(data);
-    }
-    
-    return brotliDecompress(data);
+    return CodecRegistry.get(algorithm || 'brotli').decompress(data);
+  }
+  
+  /**
+   * Create a streaming decompressor that emits output as it is decoded
+   */
+  static createDecompressStream(algorithm: string = 'brotli'): Transform {
+    return CodecRegistry.createDecompressStream(algorithm || 'brotli');
   }
   
   /**
@@ -66,7 +46,7 @@ export class BrotliWrapper {
   static async compressToBase64(
     data: Buffer,
     options?: {
-      algorithm?: 'brotli' | 'gzip' | 'none';
+      algorithm?: string;
       level?: number;
     }
   ): Promise<string> {
@@ -79,7 +59,7 @@ export class BrotliWrapper {
    */
   static async decompressFromBase64(
     base64: string,
-    algorithm: 'brotli' | 'gzip' | 'none' = 'brotli'
+    algorithm: string = 'brotli'
   ): Promise<Buffer> {
     const buffer = Buffer.from(base64, 'base64');
     return this.decompress(buffer, algorithm);
@@ -0,0 +1,121 @@
+import * as zlib from 'zlib';
+import { PassThrough, Transform } from 'stream';
+import { promisify } from 'util';
+import { Codec } from '../types';
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+const gzipCompress = promisify(zlib.gzip);
+const gzipDecompress = promisify(zlib.gunzip);
+const deflateRawCompress = promisify(zlib.deflateRaw);
+const deflateRawDecompress = promisify(zlib.inflateRaw);
+
+/**
+ * Registry of named compression codecs
+ * The codec name is stored in CompressedMapData.algorithm, so maps written with
+ * a custom codec decompress automatically once the same name is registered
+ */
+export class CodecRegistry {
+  private static readonly builtins = new Map<string, Codec>([
+    ['brotli', {
+      compress: (data, level) => brotliCompress(data, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_GENERIC,
+          [zlib.constants.BROTLI_PARAM_QUALITY]: level,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+        }
+      }),
+      decompress: (data) => brotliDecompress(data),
+      createDecompressStream: () => zlib.createBrotliDecompress()
+    }],
+    ['gzip', {
+      compress: (data, level) => gzipCompress(data, { level: Math.min(level, 9) }),
+      decompress: (data) => gzipDecompress(data),
+      createDecompressStream: () => zlib.createGunzip()
+    }],
+    ['deflate-raw', {
+      compress: (data, level) => deflateRawCompress(data, { level: Math.min(level, 9) }),
+      decompress: (data) => deflateRawDecompress(data),
+      createDecompressStream: () => zlib.createInflateRaw()
+    }],
+    ['none', {
+      compress: (data) => data,
+      decompress: (data) => data,
+      createDecompressStream: () => new PassThrough()
+    }]
+  ]);
+  
+  private static codecs = new Map<string, Codec>(CodecRegistry.builtins);
+  
+  /**
+   * Register a codec under a name, replacing any existing codec with that name
+   */
+  static register(name: string, codec: Codec): void {
+    if (!name) {
+      throw new Error('Codec name must not be empty');
+    }
+    if (typeof codec?.compress !== 'function' || typeof codec?.decompress !== 'function') {
+      throw new Error(`Codec "${name}" must provide compress() and decompress()`);
+    }
+    this.codecs.set(name, codec);
+  }
+  
+  /**
+   * Remove a registered codec
+   */
+  static unregister(name: string): boolean {
+    return this.codecs.delete(name);
+  }
+  
+  /**
+   * Look up a codec, throwing if the name is unknown
+   */
+  static get(name: string): Codec {
+    const codec = this.codecs.get(name);
+    if (!codec) {
+      throw new Error(`Unknown compression codec "${name}" (registered: ${this.list().join(', ')})`);
+    }
+    return codec;
+  }
+  
+  /**
+   * True if the name resolves to one of the built-in zlib codecs
+   * Only built-in codecs are available inside worker threads
+   */
+  static isBuiltin(name: string): boolean {
+    const codec = this.codecs.get(name);
+    return codec !== undefined && codec === this.builtins.get(name);
+  }
+  
+  static has(name: string): boolean {
+    return this.codecs.has(name);
+  }
+  
+  static list(): string[] {
+    return Array.from(this.codecs.keys());
+  }
+  
+  /**
+   * Create a streaming decompressor for a codec
+   * Codecs without native streaming buffer the input and decode it on end
+   */
+  static createDecompressStream(name: string): Transform {
+    const codec = this.get(name);
+    if (codec.createDecompressStream) {
+      return codec.createDecompressStream();
+    }
+    
+    const pieces: Buffer[] = [];
+    return new Transform({
+      transform(piece, _encoding, callback) {
+        pieces.push(piece);
+        callback();
+      },
+      flush(callback) {
+        Promise.resolve()
+          .then(() => codec.decompress(Buffer.concat(pieces)))
+          .then(output => callback(null, output), callback);
+      }
+    });
+  }
+}
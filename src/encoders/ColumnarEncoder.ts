@@ -0,0 +1,98 @@
+import { VarintEncoder } from './VarintEncoder';
+import { DeltaEncoder } from './DeltaEncoder';
+import { BlockSource } from '../utils/VoxelStore';
+
+/**
+ * Columnar block encoding
+ * Writes coordinate deltas and block IDs as two separate streams so Brotli can
+ * model each one on its own, with run-length encoding on the ID stream
+ *
+ * Layout:
+ * [blockCount:u32][flags:u8][coordLength:u32]
+ * [coordinate stream]   zigzag varint dx, dy, dz per block (Y/X/Z sorted)
+ * [ID stream]           zigzag varints, RLE runs as [-count, id] when flagged
+ */
+export class ColumnarEncoder {
+  static readonly FLAG_RLE_IDS = 0x01;
+  private static readonly HEADER_SIZE = 9;
+  
+  /**
+   * Encode a block dictionary or VoxelStore into separate coordinate and ID streams
+   */
+  static encode(blocks: BlockSource): Buffer {
+    const { deltas, blockIds } = DeltaEncoder.encodePositions(blocks);
+    const { encoded, isRLE } = DeltaEncoder.encodeBlockIds(blockIds);
+    
+    const coordStream = this.writeStream(deltas);
+    const idStream = this.writeStream(encoded);
+    
+    const header = Buffer.allocUnsafe(this.HEADER_SIZE);
+    header.writeUInt32LE(blockIds.length, 0);
+    header.writeUInt8(isRLE ? this.FLAG_RLE_IDS : 0, 4);
+    header.writeUInt32LE(coordStream.length, 5);
+    
+    return Buffer.concat([header, coordStream, idStream]);
+  }
+  
+  /**
+   * Decode the columnar format back to a block dictionary
+   */
+  static decode(
+    buffer: Buffer,
+    bounds?: { minX: number; minY: number; minZ: number }
+  ): { [key: string]: number } {
+    const blockCount = buffer.readUInt32LE(0);
+    const flags = buffer.readUInt8(4);
+    const coordLength = buffer.readUInt32LE(5);
+    
+    const coordStart = this.HEADER_SIZE;
+    const idStart = coordStart + coordLength;
+    
+    // Expand the ID stream first so coordinates can be paired in one pass
+    const encodedIds: number[] = [];
+    let offset = idStart;
+    while (offset < buffer.length) {
+      const result = VarintEncoder.readVarintFast(buffer, offset);
+      encodedIds.push(VarintEncoder.decodeZigzag(result.value));
+      offset = result.offset;
+    }
+    const blockIds = DeltaEncoder.decodeBlockIds(encodedIds, (flags & this.FLAG_RLE_IDS) !== 0);
+    
+    if (blockIds.length !== blockCount) {
+      throw new Error(`Columnar ID stream has ${blockIds.length} IDs, expected ${blockCount}`);
+    }
+    
+    const minX = bounds?.minX || 0;
+    const minY = bounds?.minY || 0;
+    const minZ = bounds?.minZ || 0;
+    const blocks: { [key: string]: number } = {};
+    
+    let x = 0, y = 0, z = 0;
+    offset = coordStart;
+    for (let i = 0; i < blockCount; i++) {
+      let result = VarintEncoder.readVarintFast(buffer, offset);
+      x += VarintEncoder.decodeZigzag(result.value);
+      result = VarintEncoder.readVarintFast(buffer, result.offset);
+      y += VarintEncoder.decodeZigzag(result.value);
+      result = VarintEncoder.readVarintFast(buffer, result.offset);
+      z += VarintEncoder.decodeZigzag(result.value);
+      offset = result.offset;
+      
+      blocks[`${x + minX},${y + minY},${z + minZ}`] = blockIds[i];
+    }
+    
+    return blocks;
+  }
+  
+  /**
+   * Write signed values as a zigzag varint stream
+   */
+  private static writeStream(values: number[]): Buffer {
+    const buffer = Buffer.allocUnsafe(values.length * 5);
+    let offset = 0;
+    for (const value of values) {
+      offset = VarintEncoder.writeVarint(buffer, offset, VarintEncoder.encodeZigzag(value));
+    }
+    return buffer.subarray(0, offset);
+  }
+}
@@ -1,3 +1,5 @@
+import { BlockSource, VoxelStore } from '../utils/VoxelStore';
+
 /**
  * Delta encoding - stores differences between consecutive values
  * Exploits spatial locality in block positions
@@ -7,7 +9,7 @@ export class DeltaEncoder {
    * Encode positions using delta encoding
    * Sorts blocks spatially and stores differences
    */
-  static encodePositions(blocks: { [key: string]: number }): {
+  static encodePositions(blocks: BlockSource): {
     deltas: number[];
     blockIds: number[];
     bounds: { minX: number; minY: number; minZ: number; maxX: number; maxY: number; maxZ: number };
@@ -90,7 +92,7 @@ export class DeltaEncoder {
    * Sort blocks spatially for better delta compression
    * Sort by Y, then X, then Z (vertical layers)
    */
-  private static sortBlocksSpatially(blocks: { [key: string]: number }): Array<{
+  private static sortBlocksSpatially(blocks: BlockSource): Array<{
     x: number;
     y: number;
     z: number;
@@ -98,10 +100,9 @@ export class DeltaEncoder {
   }> {
     const parsed: Array<{ x: number; y: number; z: number; id: number }> = [];
     
-    for (const [key, id] of Object.entries(blocks)) {
-      const [x, y, z] = key.split(',').map(Number);
+    VoxelStore.forEachBlock(blocks, (x, y, z, id) => {
       parsed.push({ x, y, z, id });
-    }
+    });
     
     // Sort by Y, X, Z for better locality
     parsed.sort((a, b) => {
@@ -0,0 +1,425 @@
+import { BrotliWrapper } from './BrotliWrapper';
+
+/**
+ * Lossless binary encoding for map entities
+ * Strings (model URIs, names, object keys) are interned once, objects with the
+ * same keys share one shape, "x,y,z" entity positions are delta-encoded as
+ * scaled integers, and decimals such as rotations are stored as scaled varints
+ * instead of text. Decoding returns objects equal to the input, key order
+ * included; only values JSON would drop (undefined, functions) are skipped.
+ *
+ * Layout:
+ * [version:u8]
+ * [stringCount]  repeat: [byteLength][utf-8 bytes]
+ * [shapeCount]   repeat: [keyCount][stringIndex...]
+ * [mode:u8]      0 = any value, 1 = record keyed by "x,y,z" positions
+ * mode 0: [value]
+ * mode 1: [digits:u8][count] repeat: [dx][dy][dz] zigzag varint deltas of position * 10^digits, [value]
+ *
+ * value: [tag:u8] followed by
+ *   null / false / true   nothing
+ *   int                   zigzag varint
+ *   decimal               [digits:u8][zigzag varint of value * 10^digits]
+ *   float64               8 bytes little-endian
+ *   string                [stringIndex]
+ *   array                 [length][value...]
+ *   object                [shapeIndex][value per shape key]
+ */
+export class EntityEncoder {
+  static readonly VERSION = 1;
+  static readonly MAX_DIGITS = 6;
+  
+  private static readonly MODE_VALUE = 0;
+  private static readonly MODE_POSITIONS = 1;
+  
+  private static readonly TAG_NULL = 0;
+  private static readonly TAG_FALSE = 1;
+  private static readonly TAG_TRUE = 2;
+  private static readonly TAG_INT = 3;
+  private static readonly TAG_DECIMAL = 4;
+  private static readonly TAG_FLOAT64 = 5;
+  private static readonly TAG_STRING = 6;
+  private static readonly TAG_ARRAY = 7;
+  private static readonly TAG_OBJECT = 8;
+  
+  // Largest magnitude stored as a varint; zigzag doubles it and must stay a safe integer
+  private static readonly MAX_VARINT_MAGNITUDE = 2 ** 52;
+  
+  /**
+   * Encode entities (any JSON value) into the packed format
+   */
+  static encode(entities: any): Buffer {
+    const body = new ByteWriter();
+    const strings = new Map<string, number>();
+    const shapes = new Map<string, number>();
+    const shapeKeys: number[][] = [];
+    
+    const intern = (text: string): number => {
+      let index = strings.get(text);
+      if (index === undefined) {
+        index = strings.size;
+        strings.set(text, index);
+      }
+      return index;
+    };
+    const writeValue = (value: any): void => this.writeValue(body, value, intern, (keys: string[]) => {
+      const ids = keys.map(intern);
+      const signature = ids.join(',');
+      let index = shapes.get(signature);
+      if (index === undefined) {
+        index = shapeKeys.length;
+        shapes.set(signature, index);
+        shapeKeys.push(ids);
+      }
+      return index;
+    });
+    
+    const positions = this.readPositions(entities);
+    if (positions) {
+      body.byte(this.MODE_POSITIONS);
+      body.byte(positions.digits);
+      body.varint(positions.keys.length);
+      let lastX = 0, lastY = 0, lastZ = 0;
+      positions.keys.forEach((key, i) => {
+        const [x, y, z] = positions.scaled[i];
+        body.signed(x - lastX);
+        body.signed(y - lastY);
+        body.signed(z - lastZ);
+        lastX = x;
+        lastY = y;
+        lastZ = z;
+        writeValue(entities[key]);
+      });
+    } else {
+      body.byte(this.MODE_VALUE);
+      writeValue(entities);
+    }
+    
+    const writer = new ByteWriter();
+    writer.byte(this.VERSION);
+    writer.varint(strings.size);
+    for (const text of strings.keys()) {
+      const bytes = Buffer.from(text, 'utf-8');
+      writer.varint(bytes.length);
+      writer.bytes(bytes);
+    }
+    writer.varint(shapeKeys.length);
+    for (const ids of shapeKeys) {
+      writer.varint(ids.length);
+      ids.forEach(id => writer.varint(id));
+    }
+    writer.bytes(body.toBuffer());
+    return writer.toBuffer();
+  }
+  
+  /**
+   * Decode a packed buffer back into the original entities
+   */
+  static decode(buffer: Buffer): any {
+    const reader = new ByteReader(buffer);
+    const version = reader.byte();
+    if (version !== this.VERSION) {
+      throw new Error(`Unsupported entity encoding version ${version}`);
+    }
+    
+    const strings: string[] = [];
+    const stringCount = reader.varint();
+    for (let i = 0; i < stringCount; i++) {
+      strings.push(reader.bytes(reader.varint()).toString('utf-8'));
+    }
+    const shapes: string[][] = [];
+    const shapeCount = reader.varint();
+    for (let i = 0; i < shapeCount; i++) {
+      const keyCount = reader.varint();
+      const keys: string[] = [];
+      for (let k = 0; k < keyCount; k++) keys.push(this.lookup(strings, reader.varint()));
+      shapes.push(keys);
+    }
+    
+    const mode = reader.byte();
+    if (mode === this.MODE_VALUE) {
+      return this.readValue(reader, strings, shapes);
+    }
+    if (mode !== this.MODE_POSITIONS) {
+      throw new Error(`Invalid entity data: unknown mode ${mode}`);
+    }
+    
+    const scale = 10 ** reader.byte();
+    const count = reader.varint();
+    const entities: { [key: string]: any } = {};
+    let x = 0, y = 0, z = 0;
+    for (let i = 0; i < count; i++) {
+      x += reader.signed();
+      y += reader.signed();
+      z += reader.signed();
+      entities[`${x / scale},${y / scale},${z / scale}`] = this.readValue(reader, strings, shapes);
+    }
+    return entities;
+  }
+  
+  /**
+   * Encode and compress with the map's codec, base64 for JSON maps
+   */
+  static async compress(entities: any, options: { algorithm?: string; level?: number } = {}): Promise<string> {
+    return BrotliWrapper.compressToBase64(this.encode(entities), options);
+  }
+  
+  /**
+   * Decompress and decode entity data written by compress() (base64 or raw bytes)
+   */
+  static async decompress(data: string | Buffer, algorithm: string = 'brotli'): Promise<any> {
+    const raw = typeof data === 'string'
+      ? await BrotliWrapper.decompressFromBase64(data, algorithm)
+      : await BrotliWrapper.decompress(data, algorithm);
+    return this.decode(raw);
+  }
+  
+  /**
+   * Scaled integer positions when every key is a canonical "x,y,z" with few decimals
+   */
+  private static readPositions(entities: any): { keys: string[]; digits: number; scaled: number[][] } | null {
+    if (!entities || typeof entities !== 'object' || Array.isArray(entities)) return null;
+    const keys = Object.keys(entities).filter(key => this.isEncodable(entities[key]));
+    if (keys.length === 0 || keys.length !== Object.keys(entities).length) return null;
+    
+    const coords: number[][] = [];
+    let digits = 0;
+    for (const key of keys) {
+      const parts = key.split(',');
+      if (parts.length !== 3) return null;
+      const values = parts.map(Number);
+      // Only keys that print back identically, e.g. not "01,2,3" or "1.0,2,3"
+      if (`${values[0]},${values[1]},${values[2]}` !== key) return null;
+      for (const value of values) {
+        const valueDigits = this.decimalDigits(value);
+        if (valueDigits === null) return null;
+        digits = Math.max(digits, valueDigits);
+      }
+      coords.push(values);
+    }
+    
+    const scale = 10 ** digits;
+    const scaled = coords.map(values => values.map(value => Math.round(value * scale)));
+    // Half the varint range, so the delta between two positions still fits
+    const exact = scaled.every((values, i) => values.every((value, axis) =>
+      Math.abs(value) <= this.MAX_VARINT_MAGNITUDE / 2 && value / scale === coords[i][axis]
+    ));
+    return exact ? { keys, digits, scaled } : null;
+  }
+  
+  /**
+   * Fewest decimal digits that represent a number exactly (null when more than MAX_DIGITS)
+   */
+  private static decimalDigits(value: number): number | null {
+    if (!Number.isFinite(value) || Object.is(value, -0)) return null;
+    for (let digits = 0; digits <= this.MAX_DIGITS; digits++) {
+      const scale = 10 ** digits;
+      const scaled = Math.round(value * scale);
+      if (Math.abs(scaled) > this.MAX_VARINT_MAGNITUDE) return null;
+      if (scaled / scale === value) return digits;
+    }
+    return null;
+  }
+  
+  private static isEncodable(value: any): boolean {
+    return value !== undefined && typeof value !== 'function' && typeof value !== 'symbol';
+  }
+  
+  private static writeValue(
+    writer: ByteWriter,
+    value: any,
+    intern: (text: string) => number,
+    shape: (keys: string[]) => number
+  ): void {
+    if (value === null || !this.isEncodable(value)) {
+      // Array holes and unencodable items become null, as in JSON
+      writer.byte(this.TAG_NULL);
+    } else if (typeof value === 'boolean') {
+      writer.byte(value ? this.TAG_TRUE : this.TAG_FALSE);
+    } else if (typeof value === 'number') {
+      const digits = this.decimalDigits(value);
+      if (digits === 0) {
+        writer.byte(this.TAG_INT);
+        writer.signed(value);
+      } else if (digits !== null) {
+        writer.byte(this.TAG_DECIMAL);
+        writer.byte(digits);
+        writer.signed(Math.round(value * 10 ** digits));
+      } else {
+        writer.byte(this.TAG_FLOAT64);
+        writer.float64(value);
+      }
+    } else if (typeof value === 'string') {
+      writer.byte(this.TAG_STRING);
+      writer.varint(intern(value));
+    } else if (Array.isArray(value)) {
+      writer.byte(this.TAG_ARRAY);
+      writer.varint(value.length);
+      for (let i = 0; i < value.length; i++) {
+        this.writeValue(writer, value[i], intern, shape);
+      }
+    } else if (typeof value === 'object') {
+      const source = typeof value.toJSON === 'function' ? value.toJSON() : value;
+      if (source !== value) {
+        this.writeValue(writer, source, intern, shape);
+        return;
+      }
+      const keys = Object.keys(value).filter(key => this.isEncodable(value[key]));
+      writer.byte(this.TAG_OBJECT);
+      writer.varint(shape(keys));
+      for (const key of keys) {
+        this.writeValue(writer, value[key], intern, shape);
+      }
+    } else {
+      throw new Error(`Cannot encode entity value of type ${typeof value}`);
+    }
+  }
+  
+  private static readValue(reader: ByteReader, strings: string[], shapes: string[][]): any {
+    const tag = reader.byte();
+    switch (tag) {
+      case this.TAG_NULL:
+        return null;
+      case this.TAG_FALSE:
+        return false;
+      case this.TAG_TRUE:
+        return true;
+      case this.TAG_INT:
+        return reader.signed();
+      case this.TAG_DECIMAL: {
+        const scale = 10 ** reader.byte();
+        return reader.signed() / scale;
+      }
+      case this.TAG_FLOAT64:
+        return reader.float64();
+      case this.TAG_STRING:
+        return this.lookup(strings, reader.varint());
+      case this.TAG_ARRAY: {
+        const length = reader.varint();
+        const array = new Array(length);
+        for (let i = 0; i < length; i++) array[i] = this.readValue(reader, strings, shapes);
+        return array;
+      }
+      case this.TAG_OBJECT: {
+        const keys = this.lookup(shapes, reader.varint());
+        const object: { [key: string]: any } = {};
+        for (const key of keys) {
+          // defineProperty keeps a "__proto__" key an own property, as JSON.parse does
+          Object.defineProperty(object, key, {
+            value: this.readValue(reader, strings, shapes),
+            enumerable: true,
+            writable: true,
+            configurable: true
+          });
+        }
+        return object;
+      }
+      default:
+        throw new Error(`Invalid entity data: unknown value tag ${tag}`);
+    }
+  }
+  
+  private static lookup<T>(table: T[], index: number): T {
+    if (index >= table.length) {
+      throw new Error(`Invalid entity data: table index ${index} out of range`);
+    }
+    return table[index];
+  }
+}
+
+/**
+ * Growable output buffer with varints beyond 32 bits (up to 2^53)
+ */
+class ByteWriter {
+  private buffer = Buffer.allocUnsafe(1024);
+  private length = 0;
+  
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+  
+  varint(value: number): void {
+    this.reserve(8);
+    while (value >= 0x80) {
+      this.buffer[this.length++] = (value % 0x80) | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.buffer[this.length++] = value;
+  }
+  
+  signed(value: number): void {
+    this.varint(value < 0 ? -value * 2 - 1 : value * 2);
+  }
+  
+  float64(value: number): void {
+    this.reserve(8);
+    this.buffer.writeDoubleLE(value, this.length);
+    this.length += 8;
+  }
+  
+  bytes(bytes: Buffer): void {
+    this.reserve(bytes.length);
+    bytes.copy(this.buffer, this.length);
+    this.length += bytes.length;
+  }
+  
+  toBuffer(): Buffer {
+    return this.buffer.subarray(0, this.length);
+  }
+  
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + size));
+    this.buffer.copy(grown, 0, 0, this.length);
+    this.buffer = grown;
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+  
+  constructor(private buffer: Buffer) {}
+  
+  byte(): number {
+    if (this.offset >= this.buffer.length) {
+      throw new Error('Invalid entity data: unexpected end of data');
+    }
+    return this.buffer[this.offset++];
+  }
+  
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      scale *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  }
+  
+  signed(): number {
+    const value = this.varint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+  
+  float64(): number {
+    if (this.offset + 8 > this.buffer.length) {
+      throw new Error('Invalid entity data: unexpected end of data');
+    }
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+  
+  bytes(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Invalid entity data: unexpected end of data');
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
@@ -0,0 +1,183 @@
+import { VarintEncoder } from './VarintEncoder';
+import { BlockSource, VoxelStore } from '../utils/VoxelStore';
+
+/**
+ * Per-chunk palette encoding with bit-packed indices
+ * Each 16³ chunk stores a small local palette of block IDs and one index per cell,
+ * packed with just enough bits for the palette size. Ideal for dense terrain.
+ *
+ * Layout:
+ * [chunkCount:u32]
+ * repeat chunkCount (sorted by chunk Y, X, Z):
+ *   [dcx][dcy][dcz]                 zigzag varint chunk coordinate deltas
+ *   [paletteSize][id...]            varint size, zigzag varint IDs (-1 = empty cell)
+ *   [bitsPerIndex:u8]
+ *   [indices]                       ceil(4096 * bits / 8) bytes, LSB-first
+ */
+export class PaletteEncoder {
+  static readonly CHUNK_SIZE = 16;
+  static readonly CHUNK_VOLUME = 4096;
+  private static readonly EMPTY = -1;
+  
+  /**
+   * Encode a block dictionary or VoxelStore into the palette format
+   */
+  static encode(blocks: BlockSource): Buffer {
+    const chunks = new Map<string, { cx: number; cy: number; cz: number; cells: Int32Array }>();
+    
+    VoxelStore.forEachBlock(blocks, (x, y, z, id) => {
+      const cx = x >> 4;
+      const cy = y >> 4;
+      const cz = z >> 4;
+      const chunkKey = `${cx},${cy},${cz}`;
+      
+      let chunk = chunks.get(chunkKey);
+      if (!chunk) {
+        chunk = { cx, cy, cz, cells: new Int32Array(this.CHUNK_VOLUME).fill(this.EMPTY) };
+        chunks.set(chunkKey, chunk);
+      }
+      chunk.cells[(x & 15) + ((y & 15) << 4) + ((z & 15) << 8)] = id;
+    });
+    
+    const sorted = Array.from(chunks.values())
+      .sort((a, b) => a.cy - b.cy || a.cx - b.cx || a.cz - b.cz);
+    
+    const parts: Buffer[] = [];
+    const header = Buffer.allocUnsafe(4);
+    header.writeUInt32LE(sorted.length, 0);
+    parts.push(header);
+    
+    let lastX = 0, lastY = 0, lastZ = 0;
+    for (const chunk of sorted) {
+      // Build the local palette in order of first appearance
+      const palette: number[] = [];
+      const paletteIndex = new Map<number, number>();
+      const indices = new Uint16Array(this.CHUNK_VOLUME);
+      for (let i = 0; i < this.CHUNK_VOLUME; i++) {
+        const id = chunk.cells[i];
+        let index = paletteIndex.get(id);
+        if (index === undefined) {
+          index = palette.length;
+          palette.push(id);
+          paletteIndex.set(id, index);
+        }
+        indices[i] = index;
+      }
+      
+      const bits = this.bitsFor(palette.length);
+      const packedSize = Math.ceil(this.CHUNK_VOLUME * bits / 8);
+      const buffer = Buffer.alloc(15 + 5 + palette.length * 5 + 1 + packedSize);
+      let offset = 0;
+      
+      offset = VarintEncoder.writeVarint(buffer, offset, VarintEncoder.encodeZigzag(chunk.cx - lastX));
+      offset = VarintEncoder.writeVarint(buffer, offset, VarintEncoder.encodeZigzag(chunk.cy - lastY));
+      offset = VarintEncoder.writeVarint(buffer, offset, VarintEncoder.encodeZigzag(chunk.cz - lastZ));
+      lastX = chunk.cx;
+      lastY = chunk.cy;
+      lastZ = chunk.cz;
+      
+      offset = VarintEncoder.writeVarint(buffer, offset, palette.length);
+      for (const id of palette) {
+        offset = VarintEncoder.writeVarint(buffer, offset, VarintEncoder.encodeZigzag(id));
+      }
+      
+      buffer[offset++] = bits;
+      this.packIndices(indices, bits, buffer, offset);
+      offset += packedSize;
+      
+      parts.push(buffer.subarray(0, offset));
+    }
+    
+    return Buffer.concat(parts);
+  }
+  
+  /**
+   * Decode the palette format back to a block dictionary
+   */
+  static decode(buffer: Buffer): { [key: string]: number } {
+    const blocks: { [key: string]: number } = {};
+    let offset = 0;
+    
+    const chunkCount = buffer.readUInt32LE(offset);
+    offset += 4;
+    
+    let cx = 0, cy = 0, cz = 0;
+    const palette: number[] = [];
+    for (let c = 0; c < chunkCount; c++) {
+      let result = VarintEncoder.readVarintFast(buffer, offset);
+      cx += VarintEncoder.decodeZigzag(result.value);
+      result = VarintEncoder.readVarintFast(buffer, result.offset);
+      cy += VarintEncoder.decodeZigzag(result.value);
+      result = VarintEncoder.readVarintFast(buffer, result.offset);
+      cz += VarintEncoder.decodeZigzag(result.value);
+      
+      result = VarintEncoder.readVarintFast(buffer, result.offset);
+      const paletteSize = result.value;
+      offset = result.offset;
+      
+      palette.length = 0;
+      for (let i = 0; i < paletteSize; i++) {
+        result = VarintEncoder.readVarintFast(buffer, offset);
+        palette.push(VarintEncoder.decodeZigzag(result.value));
+        offset = result.offset;
+      }
+      
+      const bits = buffer[offset++];
+      const originX = cx << 4;
+      const originY = cy << 4;
+      const originZ = cz << 4;
+      const mask = (1 << bits) - 1;
+      
+      let bitPosition = offset * 8;
+      for (let i = 0; i < this.CHUNK_VOLUME; i++) {
+        let index = 0;
+        if (bits > 0) {
+          // An index plus its bit offset (0-7) must fit in three bytes: at most 4096
+          // palette entries need 12 bits, and the read stays correct up to 17
+          const byteIndex = bitPosition >> 3;
+          const word = buffer[byteIndex] | (buffer[byteIndex + 1] << 8) | (buffer[byteIndex + 2] << 16);
+          index = (word >> (bitPosition & 7)) & mask;
+          bitPosition += bits;
+        }
+        
+        const id = palette[index];
+        if (id === this.EMPTY) continue;
+        
+        const x = originX + (i & 15);
+        const y = originY + ((i >> 4) & 15);
+        const z = originZ + (i >> 8);
+        blocks[`${x},${y},${z}`] = id;
+      }
+      
+      offset += Math.ceil(this.CHUNK_VOLUME * bits / 8);
+    }
+    
+    return blocks;
+  }
+  
+  /**
+   * Bits needed to index a palette of the given size (0 for a uniform chunk)
+   */
+  static bitsFor(paletteSize: number): number {
+    return paletteSize <= 1 ? 0 : Math.ceil(Math.log2(paletteSize));
+  }
+  
+  private static packIndices(indices: Uint16Array, bits: number, buffer: Buffer, offset: number): void {
+    if (bits === 0) return;
+    
+    let accumulator = 0;
+    let accumulatedBits = 0;
+    for (let i = 0; i < indices.length; i++) {
+      accumulator |= indices[i] << accumulatedBits;
+      accumulatedBits += bits;
+      while (accumulatedBits >= 8) {
+        buffer[offset++] = accumulator & 0xFF;
+        accumulator >>>= 8;
+        accumulatedBits -= 8;
+      }
+    }
+    if (accumulatedBits > 0) {
+      buffer[offset] = accumulator & 0xFF;
+    }
+  }
+}
\ No newline at end of file
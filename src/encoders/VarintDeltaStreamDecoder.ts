@@ -0,0 +1,95 @@
+import { DecodedBlock } from '../types';
+
+/**
+ * Incremental decoder for the Varint + Delta block stream
+ * Accepts the decompressed stream in arbitrary pieces and emits blocks as soon
+ * as all four varints (dx, dy, dz, id) of a block are available
+ */
+export class VarintDeltaStreamDecoder {
+  private pending: Buffer = Buffer.alloc(0);
+  private headerRead = false;
+  private remaining = 0;
+  private lastX = 0;
+  private lastY = 0;
+  private lastZ = 0;
+  private readonly fields = new Int32Array(4);
+  private readonly origin: { minX: number; minY: number; minZ: number };
+  
+  constructor(origin?: { minX: number; minY: number; minZ: number }) {
+    this.origin = {
+      minX: origin?.minX || 0,
+      minY: origin?.minY || 0,
+      minZ: origin?.minZ || 0
+    };
+  }
+  
+  /**
+   * Feed the next piece of the stream
+   * @returns Blocks fully decoded from the data seen so far
+   */
+  push(piece: Buffer): DecodedBlock[] {
+    const buffer = this.pending.length > 0 ? Buffer.concat([this.pending, piece]) : piece;
+    let offset = 0;
+    
+    if (!this.headerRead) {
+      if (buffer.length < 4) {
+        this.pending = Buffer.from(buffer);
+        return [];
+      }
+      this.remaining = buffer.readUInt32LE(0);
+      this.headerRead = true;
+      offset = 4;
+    }
+    
+    const blocks: DecodedBlock[] = [];
+    const end = buffer.length;
+    
+    while (this.remaining > 0) {
+      let cursor = offset;
+      let complete = true;
+      
+      for (let field = 0; field < 4; field++) {
+        let v = 0, s = 0, b = 0;
+        do {
+          if (cursor >= end) {
+            complete = false;
+            break;
+          }
+          b = buffer[cursor++];
+          v |= (b & 0x7F) << s;
+          s += 7;
+        } while (b & 0x80);
+        
+        if (!complete) break;
+        this.fields[field] = (v >>> 1) ^ -(v & 1);
+      }
+      
+      // Block is split across pieces - wait for the rest
+      if (!complete) break;
+      
+      this.lastX += this.fields[0];
+      this.lastY += this.fields[1];
+      this.lastZ += this.fields[2];
+      blocks.push({
+        x: this.lastX + this.origin.minX,
+        y: this.lastY + this.origin.minY,
+        z: this.lastZ + this.origin.minZ,
+        id: this.fields[3]
+      });
+      
+      offset = cursor;
+      this.remaining--;
+    }
+    
+    // Copy the tail so the large piece can be released
+    this.pending = Buffer.from(buffer.subarray(offset));
+    return blocks;
+  }
+  
+  /**
+   * True once the header and every announced block have been decoded
+   */
+  get isComplete(): boolean {
+    return this.headerRead && this.remaining === 0;
+  }
+}
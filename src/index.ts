@@ -1,13 +1,70 @@
 export { MapCompression } from './core/MapCompression';
 export { MapCompressor } from './core/MapCompressor';
 export { MapDecompressor } from './core/MapDecompressor';
+export { MapContainer } from './core/MapContainer';
+export { MapPatcher } from './core/MapPatcher';
+export { BlockIdRemapper } from './core/BlockIdRemapper';
+export { MapVerifier } from './core/MapVerifier';
+export { MapFormat } from './core/MapFormat';
+export { MapValidator } from './core/MapValidator';
+export { MapWatcher } from './core/MapWatcher';
+export { ChunkContainer } from './core/ChunkContainer';
+export { CodecRegistry } from './encoders/CodecRegistry';
+export { EntityEncoder } from './encoders/EntityEncoder';
+export { VoxelStore } from './utils/VoxelStore';
+export { BlockTypeRegistrar } from './utils/BlockTypeRegistrar';
+export { ChunkArray } from './utils/ChunkArray';
+export { ColliderBuilder } from './utils/ColliderBuilder';
 export { FastLoader } from './optimization/FastLoader';
 export { MonkeyPatchLoader } from './optimization/MonkeyPatchLoader';
 export { DirectChunkLoader } from './optimization/DirectChunkLoader';
+export { DirectChunkLoaderV3 } from './optimization/DirectChunkLoaderV3';
+export { DiffLoader } from './optimization/DiffLoader';
+export { WorldAdapters } from './adapters/WorldAdapters';
+export { BaseWorldAdapter } from './adapters/BaseWorldAdapter';
+export { ChunkLatticeWorldAdapter } from './adapters/ChunkLatticeWorldAdapter';
+export { LegacyWorldAdapter } from './adapters/LegacyWorldAdapter';
+export { FakeWorld, FakeCollider, FakeEntity } from './testing/FakeWorld';
+export { LoaderConformance } from './testing/LoaderConformance';
 
 export type {
   MapCompressionOptions,
   CompressionResult,
   DecompressionResult,
-  PerformanceMetrics
-} from './types';
\ No newline at end of file
+  ChunkDecompressionResult,
+  VoxelDecompressionResult,
+  PerformanceMetrics,
+  MapData,
+  CompressedMapData,
+  Codec,
+  MapPatch,
+  BlockIdRemapMode,
+  EntityEncoding,
+  MapFields,
+  VerifyResult,
+  VerifySection,
+  MapFormatInfo,
+  MigrationResult,
+  ValidationResult,
+  ValidationIssue,
+  MapReloadResult,
+  DiffLoadResult,
+  WorldAdapter,
+  WorldAdapterFactory,
+  WorldCapability,
+  WorldCapabilities,
+  WorldCapabilityReport,
+  WorldChunk,
+  LoaderStrategy,
+  BlockDifference,
+  StrategyConformance,
+  ConformanceReport,
+  ColliderBox,
+  ChunkSyncIssue,
+  ChunkSyncReport
+} from './types';
+export type { BlockSource } from './utils/VoxelStore';
+export type { BinaryChunk } from './core/ChunkContainer';
+export type { ChunkBlockArray, ChunkIdWidth } from './utils/ChunkArray';
+export type { FakeWorldOptions, FakeWorldCall, FakeWorldEvent } from './testing/FakeWorld';
+export type { LoaderConformanceOptions } from './testing/LoaderConformance';
\ No newline at end of file
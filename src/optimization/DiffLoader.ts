@@ -0,0 +1,210 @@
+import { DecodedBlock, DiffLoadResult, MapData, WorldAdapter, WorldChunk } from '../types';
+import { VoxelStore } from '../utils/VoxelStore';
+import { BlockIdRemapper } from '../core/BlockIdRemapper';
+import { WorldAdapters } from '../adapters/WorldAdapters';
+import { ChunkArray } from '../utils/ChunkArray';
+import { ColliderBuilder } from '../utils/ColliderBuilder';
+
+/**
+ * Changes DiffLoader found between a map and the world, not yet applied
+ */
+export interface DiffPlan {
+  result: DiffLoadResult;
+  blocks: DecodedBlock[]; // Blocks to set, id 0 = remove (remapped IDs)
+  entities: any; // Entities the world should hold afterwards (remapped)
+  previousEntities: any; // Entities the world holds now
+  startTime: number;
+}
+
+/**
+ * DiffLoader - Applies a new map to a running world with the fewest changes
+ * Compares each 16³ chunk of the new map with the chunk currently in
+ * world.chunkLattice and sets only the blocks that differ, through the SDK's
+ * setBlock so connected clients receive the updates. Nothing is cleared.
+ * Changed entities are despawned and spawned through the SDK's Entity class,
+ * and the merged colliders of changed injected chunks are rebuilt.
+ * plan() and commit() split the comparison from the update, for callers that
+ * report the affected chunks before the world changes (MapCompression.watch).
+ */
+export class DiffLoader {
+  private adapter: WorldAdapter;
+  private options: any;
+  
+  constructor(world: any, options: any = {}) {
+    this.adapter = WorldAdapters.detect(world);
+    this.options = options;
+  }
+  
+  /**
+   * Bring the world in line with mapData, touching only changed blocks and entities
+   * Block IDs are remapped first when a remapper is given (as on load).
+   */
+  async apply(mapData: MapData, remapper?: BlockIdRemapper | null): Promise<DiffLoadResult> {
+    return this.commit(this.plan(mapData, remapper));
+  }
+  
+  /**
+   * Compare mapData with the chunks in the world without changing anything
+   */
+  plan(mapData: MapData, remapper?: BlockIdRemapper | null): DiffPlan {
+    const startTime = Date.now();
+    if (!mapData?.blocks || typeof mapData.blocks !== 'object') {
+      // Applying an empty map would remove every block in the world
+      throw new Error('Map data has no blocks');
+    }
+    if (!this.adapter.capabilities.setBlock) {
+      throw new Error(`World has no setBlock (chunkLattice.setBlock or world.setBlock; adapter "${this.adapter.name}")`);
+    }
+    const current = this.readLattice();
+    
+    const target = VoxelStore.from(remapper ? remapper.remapBlocks(mapData.blocks) : mapData.blocks);
+    const result: DiffLoadResult = {
+      chunks: [],
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchangedChunks: 0,
+      entities: { added: [], removed: [], changed: [] },
+      entitiesSynced: true,
+      timeMs: 0
+    };
+    
+    const changes: DecodedBlock[] = [];
+    for (const { origin, blocks } of target.toChunks()) {
+      const key = `${origin.x},${origin.y},${origin.z}`;
+      const before = current.get(key);
+      current.delete(key);
+      
+      const count = changes.length;
+      for (let i = 0; i < blocks.length; i++) {
+        const previous = before ? this.cellId(before, i) : 0;
+        if (previous === blocks[i]) continue;
+        changes.push({ x: origin.x + (i & 15), y: origin.y + ((i >> 4) & 15), z: origin.z + (i >> 8), id: blocks[i] });
+        if (previous === 0) {
+          result.added++;
+        } else if (blocks[i] === 0) {
+          result.removed++;
+        } else {
+          result.changed++;
+        }
+      }
+      this.recordChunk(result, origin, changes.length > count);
+    }
+    
+    // Chunks the new map no longer has at all
+    for (const before of current.values()) {
+      const count = changes.length;
+      for (let i = 0; i < 4096; i++) {
+        if (this.cellId(before, i) === 0) continue;
+        changes.push({ x: before.origin.x + (i & 15), y: before.origin.y + ((i >> 4) & 15), z: before.origin.z + (i >> 8), id: 0 });
+        result.removed++;
+      }
+      this.recordChunk(result, before.origin, changes.length > count);
+    }
+    
+    const entities = remapper ? remapper.remapEntities(mapData.entities) : mapData.entities;
+    const previousEntities = this.adapter.getEntities();
+    result.entities = this.diffEntities(previousEntities, entities);
+    
+    return { result, blocks: changes, entities, previousEntities, startTime };
+  }
+  
+  /**
+   * Set the planned blocks and entities
+   */
+  commit(plan: DiffPlan): DiffLoadResult {
+    const { result, blocks } = plan;
+    for (const block of blocks) {
+      this.adapter.setBlock({ x: block.x, y: block.y, z: block.z }, block.id);
+    }
+    const rebuilt = this.rebuildColliders(result.chunks);
+    
+    if (result.entities.added.length || result.entities.removed.length || result.entities.changed.length) {
+      if (this.adapter.capabilities.entities) {
+        this.adapter.updateEntities(plan.previousEntities, plan.entities, result.entities);
+      } else {
+        // Without the SDK's Entity class only the record changes; clients keep the old entities
+        this.adapter.setEntities(plan.entities);
+        result.entitiesSynced = false;
+        console.warn(`[DiffLoader] Entity changes not shown to clients: no hytopia Entity class (adapter "${this.adapter.name}"), only world.entities was updated`);
+      }
+    }
+    
+    result.timeMs = Date.now() - plan.startTime;
+    if (this.options.debug) {
+      console.log(`[DiffLoader] ${blocks.length} blocks in ${result.chunks.length} chunks updated, ${rebuilt} chunk colliders rebuilt, ${result.unchangedChunks} chunks unchanged (${result.timeMs}ms)`);
+    }
+    return result;
+  }
+  
+  /**
+   * Chunks currently in the world, keyed by origin ("x,y,z")
+   */
+  private readLattice(): Map<string, WorldChunk> {
+    const result = new Map<string, WorldChunk>();
+    for (const chunk of this.adapter.getChunks()) {
+      result.set(`${chunk.origin.x},${chunk.origin.y},${chunk.origin.z}`, chunk);
+    }
+    return result;
+  }
+  
+  /**
+   * Rebuild the merged colliders of changed chunks that were injected
+   * The SDK has no colliders of its own for injected blocks, so the boxes added
+   * on load would otherwise keep covering removed blocks and miss new ones.
+   * @returns Number of chunks whose colliders were rebuilt
+   */
+  private rebuildColliders(origins: Array<{ x: number; y: number; z: number }>): number {
+    if (this.options.optimization?.colliders === false || !this.adapter.capabilities.colliders) return 0;
+    const injected = origins.filter(origin => this.adapter.isInjected(origin));
+    if (injected.length === 0) return 0;
+    
+    const isSolid = ColliderBuilder.solidFilter(this.adapter.getBlockTypes());
+    const chunks = this.readLattice();
+    for (const origin of injected) {
+      const chunk = chunks.get(`${origin.x},${origin.y},${origin.z}`);
+      const blocks = new Uint16Array(ChunkArray.VOLUME);
+      for (let i = 0; chunk && i < blocks.length; i++) {
+        blocks[i] = this.cellId(chunk, i);
+      }
+      this.adapter.replaceColliders(origin, ColliderBuilder.fromChunk(origin, blocks, isSolid));
+    }
+    return injected.length;
+  }
+  
+  private cellId(chunk: WorldChunk, index: number): number {
+    if (chunk.blocks) {
+      return chunk.blocks[index] ?? 0;
+    }
+    return chunk.source.getBlockId?.({ x: index & 15, y: (index >> 4) & 15, z: index >> 8 }) ?? 0;
+  }
+  
+  private recordChunk(result: DiffLoadResult, origin: { x: number; y: number; z: number }, changed: boolean): void {
+    if (changed) {
+      result.chunks.push({ x: origin.x, y: origin.y, z: origin.z });
+    } else {
+      result.unchangedChunks++;
+    }
+  }
+  
+  /**
+   * Keys of an entity record (or indexes of a list) that were added, removed or changed
+   */
+  private diffEntities(before: any, after: any): DiffLoadResult['entities'] {
+    const oldEntities = before && typeof before === 'object' ? before : {};
+    const newEntities = after && typeof after === 'object' ? after : {};
+    const diff: DiffLoadResult['entities'] = { added: [], removed: [], changed: [] };
+    
+    for (const key of Object.keys(newEntities)) {
+      if (!(key in oldEntities)) {
+        diff.added.push(key);
+      } else if (JSON.stringify(oldEntities[key]) !== JSON.stringify(newEntities[key])) {
+        diff.changed.push(key);
+      }
+    }
+    for (const key of Object.keys(oldEntities)) {
+      if (!(key in newEntities)) diff.removed.push(key);
+    }
+    return diff;
+  }
+}
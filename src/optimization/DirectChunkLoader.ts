@@ -1,30 +1,37 @@
-import { MapCompressionOptions } from '../types';
+import { MapCompressionOptions, DecodedBlock, WorldAdapter } from '../types';
+import { BlockSource, VoxelStore } from '../utils/VoxelStore';
+import { BlockTypeRegistrar } from '../utils/BlockTypeRegistrar';
+import { ColliderBuilder } from '../utils/ColliderBuilder';
+import { BlockIdRemapper } from '../core/BlockIdRemapper';
+import { ChunkContainer } from '../core/ChunkContainer';
+import { WorldAdapters } from '../adapters/WorldAdapters';
 
 /**
  * Direct chunk injection - bypasses individual setBlock calls
  * Loads blocks in batches directly into the world's internal structures
  */
 export class DirectChunkLoader {
-  private world: any;
+  private adapter: WorldAdapter;
   private options: MapCompressionOptions;
   private chunkSize: number = 16; // Default Minecraft-style chunk size
   
   constructor(world: any, options: MapCompressionOptions = {}) {
-    this.world = world;
+    this.adapter = WorldAdapters.detect(world);
     this.options = options;
   }
   
   /**
    * Load blocks using direct chunk injection
+   * Accepts the "x,y,z" dictionary or a VoxelStore (already grouped by chunk)
    */
-  async loadChunks(blocks: { [key: string]: number }, blockTypes?: any): Promise<void> {
+  async loadChunks(blocks: BlockSource, blockTypes?: any): Promise<void> {
     const startTime = Date.now();
     const batchSize = this.options.optimization?.batchSize || 10000;
     // Ensure block types are registered before any placement
     this.registerBlockTypes(blockTypes);
     
     if (this.options.debug) {
-      console.log(`[DirectChunkLoader] Loading ${Object.keys(blocks).length} blocks in chunks`);
+      console.log(`[DirectChunkLoader] Loading ${VoxelStore.count(blocks)} blocks in chunks`);
       console.log(`[DirectChunkLoader] Batch size: ${batchSize}`);
     }
     
@@ -41,7 +48,7 @@ export class DirectChunkLoader {
       const batch = chunkArray.slice(i, i + batchSize);
       
       // Try to access internal chunk structure if available
-      if (this.world._chunks || this.world.chunks) {
+      if (this.adapter.capabilities.chunkStorage) {
         await this.loadChunksDirect(batch);
       } else {
         // Fallback to batch setBlock calls
@@ -58,10 +65,37 @@ export class DirectChunkLoader {
     }
   }
   
+  /**
+   * Load blocks from a stream of decoded batches (e.g. MapDecompressor.decompressStream)
+   * Placement of each batch starts while later batches are still being decoded
+   */
+  async loadBlockStream(blockStream: AsyncIterable<DecodedBlock[]>, blockTypes?: any): Promise<void> {
+    const startTime = Date.now();
+    this.registerBlockTypes(blockTypes);
+    
+    let blocksLoaded = 0;
+    for await (const batch of blockStream) {
+      await this.loadBlocksBatched(batch);
+      blocksLoaded += batch.length;
+      
+      if (this.options.debug) {
+        console.log(`[DirectChunkLoader] Streamed ${blocksLoaded} blocks`);
+      }
+    }
+    
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoader] Streamed ${blocksLoaded} blocks in ${Date.now() - startTime}ms`);
+    }
+  }
+  
   /**
    * Group blocks by chunk coordinates
    */
-  private groupBlocksByChunk(blocks: { [key: string]: number }): Map<string, Array<{x: number, y: number, z: number, id: number}>> {
+  private groupBlocksByChunk(blocks: BlockSource): Map<string, Array<{x: number, y: number, z: number, id: number}>> {
+    if (VoxelStore.isVoxelStore(blocks)) {
+      return new Map(blocks.chunks());
+    }
+    
     const chunks = new Map<string, Array<{x: number, y: number, z: number, id: number}>>();
     
     for (const [key, id] of Object.entries(blocks)) {
@@ -88,25 +122,19 @@ export class DirectChunkLoader {
    * Load chunks directly into internal structure (if accessible)
    */
   private async loadChunksDirect(chunks: Array<[string, Array<{x: number, y: number, z: number, id: number}>]>): Promise<void> {
-    const chunkStorage = this.world._chunks || this.world.chunks;
+    const chunkStorage = this.adapter.getChunkStorage();
     
     for (const [chunkKey, blocks] of chunks) {
-      // Try to create or access chunk directly
-      if (typeof chunkStorage.getOrCreate === 'function') {
-        const chunk = chunkStorage.getOrCreate(chunkKey);
-        
-        // Set blocks directly in chunk
-        for (const block of blocks) {
-          if (chunk.setBlock) {
-            const localX = ((block.x % this.chunkSize) + this.chunkSize) % this.chunkSize;
-            const localY = ((block.y % this.chunkSize) + this.chunkSize) % this.chunkSize;
-            const localZ = ((block.z % this.chunkSize) + this.chunkSize) % this.chunkSize;
-            chunk.setBlock({ x: localX, y: localY, z: localZ }, block.id);
-          }
+      const chunk = chunkStorage.getOrCreate(chunkKey);
+      
+      // Set blocks directly in chunk
+      for (const block of blocks) {
+        if (chunk.setBlock) {
+          const localX = ((block.x % this.chunkSize) + this.chunkSize) % this.chunkSize;
+          const localY = ((block.y % this.chunkSize) + this.chunkSize) % this.chunkSize;
+          const localZ = ((block.z % this.chunkSize) + this.chunkSize) % this.chunkSize;
+          chunk.setBlock({ x: localX, y: localY, z: localZ }, block.id);
         }
-      } else {
-        // Fallback to batched loading
-        await this.loadBlocksBatched(blocks);
       }
     }
   }
@@ -142,7 +170,7 @@ export class DirectChunkLoader {
       // Set blocks
       for (const block of batch) {
         try {
-          this.world.setBlock({ x: block.x, y: block.y, z: block.z }, block.id);
+          this.adapter.setBlock({ x: block.x, y: block.y, z: block.z }, block.id);
         } catch (e) {
           console.error(`[DirectChunkLoader] Failed to setBlock at (${block.x}, ${block.y}, ${block.z}) with id ${block.id}:`, e);
           throw e;
@@ -153,123 +181,73 @@ export class DirectChunkLoader {
   
   /**
    * Pre-compute chunks for even faster loading
+   * Merged collider boxes are stored with the chunks unless optimization.colliders
+   * is false; block types tell which blocks are liquid and get no collider.
    */
-  async precomputeChunks(blocks: { [key: string]: number }): Promise<Buffer> {
-    const chunks = this.groupBlocksByChunk(blocks);
-    const buffers: Buffer[] = [];
-    const magicHeader = Buffer.allocUnsafe(8);
-    magicHeader.writeUInt32LE(0x3142434d, 0); // "MCB1" little-endian
-    magicHeader.writeUInt32LE(chunks.size, 4);
-    buffers.push(magicHeader);
-    
-    for (const [chunkKey, blockList] of chunks) {
-      const [chunkX, chunkY, chunkZ] = chunkKey.split(',').map(Number);
-      
-      const header = Buffer.allocUnsafe(16);
-      header.writeInt32LE(chunkX, 0);
-      header.writeInt32LE(chunkY, 4);
-      header.writeInt32LE(chunkZ, 8);
-      header.writeUInt32LE(blockList.length, 12);
-      buffers.push(header);
-      
-      const blocksBuffer = Buffer.allocUnsafe(blockList.length * 14);
-      let offset = 0;
-      for (const block of blockList) {
-        blocksBuffer.writeInt32LE(block.x, offset);
-        offset += 4;
-        blocksBuffer.writeInt32LE(block.y, offset);
-        offset += 4;
-        blocksBuffer.writeInt32LE(block.z, offset);
-        offset += 4;
-        blocksBuffer.writeUInt16LE(block.id, offset);
-        offset += 2;
-      }
-      
-      buffers.push(blocksBuffer);
+  async precomputeChunks(blocks: BlockSource, blockTypes?: any): Promise<Buffer> {
+    if (this.options.optimization?.colliders === false) {
+      return ChunkContainer.encode(this.groupBlocksByChunk(blocks));
     }
     
-    // Combine all chunks
-    return Buffer.concat(buffers);
+    const store = VoxelStore.from(blocks);
+    const colliders = ColliderBuilder.fromChunks(store.toChunks(), ColliderBuilder.solidFilter(blockTypes));
+    return ChunkContainer.encode(this.groupBlocksByChunk(store), colliders);
   }
   
   /**
    * Register block types before loading chunks
    */
   private registerBlockTypes(blockTypes?: any[]): void {
-    // Check if world has setBlock method
-    if (!this.world.setBlock) {
-      console.error('[DirectChunkLoader] ERROR: world.setBlock method does not exist!');
-      console.log('[DirectChunkLoader] Available world methods:', Object.getOwnPropertyNames(this.world));
-      throw new Error('world.setBlock method not available');
+    // Check if the world can place blocks
+    if (!this.adapter.capabilities.setBlock) {
+      const report = this.adapter.report();
+      console.error(`[DirectChunkLoader] ERROR: world has no setBlock (adapter "${report.adapter}")`);
+      console.log('[DirectChunkLoader] World capabilities found:', report.found.join(', ') || 'none');
+      throw new Error('setBlock not available (chunkLattice.setBlock or world.setBlock)');
     }
     
-    if (!blockTypes || !this.world.blockTypeRegistry) {
-      console.log('[DirectChunkLoader] No block types to register or no registry available');
+    if (!blockTypes || !this.adapter.capabilities.registerBlockTypes) {
+      if (this.options.debug) {
+        console.log('[DirectChunkLoader] No block types to register or no registry available');
+      }
       return;
     }
     
-    const list = Array.isArray(blockTypes) ? blockTypes : Object.values(blockTypes);
+    const list = BlockTypeRegistrar.list(blockTypes);
     if (list.length === 0) {
-      console.log('[DirectChunkLoader] No block types to register');
+      if (this.options.debug) {
+        console.log('[DirectChunkLoader] No block types to register');
+      }
       return;
     }
     
-    console.log(`[DirectChunkLoader] Registering ${list.length} block types...`);
-    for (const blockType of list) {
-      try {
-        this.world.blockTypeRegistry.registerGenericBlockType({
-          id: blockType.id,
-          isLiquid: blockType.isLiquid || false,
-          name: blockType.name || `block_${blockType.id}`,
-          textureUri: blockType.textureUri || 'blocks/stone.png'
-        });
-      } catch (e) {
-        // Already registered or error, skip
-      }
+    if (this.options.debug) {
+      console.log(`[DirectChunkLoader] Registering ${list.length} block types...`);
     }
+    BlockTypeRegistrar.register(this.adapter, list);
   }
   
   /**
    * Load pre-computed chunks
+   * With a remapper, block types and block IDs are remapped as they are read
    */
-  async loadPrecomputedChunks(chunkData: Buffer, blockTypes?: any[]): Promise<void> {
+  async loadPrecomputedChunks(chunkData: Buffer, blockTypes?: any[], remapper?: BlockIdRemapper | null): Promise<void> {
     // Register block types first!
-    this.registerBlockTypes(blockTypes);
+    this.registerBlockTypes(remapper ? remapper.remapBlockTypes(blockTypes) : blockTypes);
+    const mapId = (id: number) => remapper ? remapper.map(id) : id;
     
     let offset = 0;
     const startTime = Date.now();
     let chunksLoaded = 0;
     
-    const magic = 0x3142434d; // "MCB1"
-    if (chunkData.length >= 8 && chunkData.readUInt32LE(0) === magic) {
-      offset = 4;
-      const chunkCount = chunkData.readUInt32LE(offset);
-      offset += 4;
+    if (ChunkContainer.isContainer(chunkData)) {
+      // Parse (and checksum) every chunk before placing anything
+      const chunks = Array.from(ChunkContainer.read(chunkData));
       
-      for (let c = 0; c < chunkCount; c++) {
-        if (offset + 16 > chunkData.length) break;
-        const chunkX = chunkData.readInt32LE(offset);
-        offset += 4;
-        const chunkY = chunkData.readInt32LE(offset);
-        offset += 4;
-        const chunkZ = chunkData.readInt32LE(offset);
-        offset += 4;
-        const blockCount = chunkData.readUInt32LE(offset);
-        offset += 4;
-        
-        const blocks: Array<{x: number, y: number, z: number, id: number}> = new Array(blockCount);
-        for (let i = 0; i < blockCount; i++) {
-          if (offset + 14 > chunkData.length) break;
-          const x = chunkData.readInt32LE(offset);
-          offset += 4;
-          const y = chunkData.readInt32LE(offset);
-          offset += 4;
-          const z = chunkData.readInt32LE(offset);
-          offset += 4;
-          const id = chunkData.readUInt16LE(offset);
-          offset += 2;
-          blocks[i] = { x, y, z, id };
-        }
+      for (const chunk of chunks) {
+        const blocks = remapper
+          ? chunk.blocks.map(block => ({ ...block, id: mapId(block.id) }))
+          : chunk.blocks;
         
         await this.loadBlocksBatched(blocks);
         chunksLoaded++;
@@ -292,7 +270,7 @@ export class DirectChunkLoader {
             const x = chunkData.readInt32LE(offset);
             const y = chunkData.readInt32LE(offset + 4);
             const z = chunkData.readInt32LE(offset + 8);
-            const id = chunkData.readUInt16LE(offset + 12);
+            const id = mapId(chunkData.readUInt16LE(offset + 12));
             
             blocks.push({ x, y, z, id });
             offset += 14;
@@ -1,41 +1,50 @@
 import * as zlib from 'zlib';
+import { ChunkSyncIssue, ChunkSyncReport, ColliderBox, DecodedChunk, WorldAdapter } from '../types';
+import { ChunkArray, ChunkBlockArray } from '../utils/ChunkArray';
+import { BlockTypeRegistrar } from '../utils/BlockTypeRegistrar';
+import { ColliderBuilder } from '../utils/ColliderBuilder';
+import { BlockIdRemapper } from '../core/BlockIdRemapper';
+import { ChunkContainer } from '../core/ChunkContainer';
+import { WorldAdapters } from '../adapters/WorldAdapters';
 
 /**
  * DirectChunkLoaderV3 - Exactly like HyFire8's implementation
  * Directly manipulates chunkLattice instead of using setBlock
+ * Takes a world or a WorldAdapter; the adapter must support chunk injection.
+ * Injected chunks get merged block colliders, precomputed in MCB2 caches or
+ * built here, so physics works without setBlock. Clients are told about them
+ * in batches with CHUNK_LATTICE.ADD_CHUNK, like chunks the SDK creates, and
+ * each load ends with a check that every chunk reached the network layer.
  */
 export class DirectChunkLoaderV3 {
-  private world: any;
+  static readonly DEFAULT_SYNC_BATCH_SIZE = 64;
+  
+  private adapter: WorldAdapter;
   private options: any;
   
+  // Chunks of the last load, for announcing and verifying
+  private injected: Array<{ x: number; y: number; z: number }> = [];
+  private pending: Array<{ x: number; y: number; z: number }> = [];
+  private announced = new Set<string>();
+  private batches = 0;
+  
   constructor(world: any, options: any = {}) {
-    this.world = world;
+    this.adapter = WorldAdapters.detect(world);
     this.options = options;
   }
   
   /**
    * Load precomputed chunks directly into chunkLattice (HyFire8 style)
+   * With a remapper, block types and chunk contents are remapped before injection
    */
-  loadDirectly(chunksData: any, blockTypes?: any): void {
+  loadDirectly(chunksData: any, blockTypes?: any, remapper?: BlockIdRemapper | null): void {
+    const loadedBlockTypes = remapper ? remapper.remapBlockTypes(blockTypes) : blockTypes;
     const startTime = Date.now();
-    console.log(`[DirectChunkLoaderV3] Loading precomputed chunks...`);
-    
-    const chunkLattice = this.world.chunkLattice;
-    if (!chunkLattice) {
-      throw new Error('World does not have chunkLattice');
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Loading precomputed chunks...`);
     }
     
-    this.registerBlockTypes(blockTypes);
-    
-    // Clear existing
-    if (chunkLattice.clear) {
-      chunkLattice.clear();
-    }
-    
-    // Initialize maps
-    if (!chunkLattice._chunks) chunkLattice._chunks = new Map();
-    if (!chunkLattice._blockTypeColliders) chunkLattice._blockTypeColliders = new Map();
-    if (!chunkLattice._blockTypeCounts) chunkLattice._blockTypeCounts = new Map();
+    this.prepareLattice(loadedBlockTypes);
     
     // Parse chunks data
     let chunks: any[] = [];
@@ -46,8 +55,7 @@ export class DirectChunkLoaderV3 {
         parsed = JSON.parse(chunksData);
       } catch {}
     } else if (Buffer.isBuffer(chunksData)) {
-      const magic = chunksData.length >= 4 ? chunksData.readUInt32LE(0) : 0;
-      if (magic !== 0x3142434d) {
+      if (!ChunkContainer.isContainer(chunksData)) {
         try {
           parsed = JSON.parse(chunksData.toString('utf-8'));
         } catch {}
@@ -69,79 +77,186 @@ export class DirectChunkLoaderV3 {
       chunks = this.parseBinaryChunks(chunksData);
     }
     
-    console.log(`[DirectChunkLoaderV3] Loading ${chunks.length} chunks...`);
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Loading ${chunks.length} chunks...`);
+    }
     
     // Load chunks into memory
     let totalBlocks = 0;
+    const injected: DecodedChunk[] = [];
     for (const chunkData of chunks) {
       const { origin, blocks: blockArray } = chunkData;
       
-      // Convert to Uint8Array
-      let typedBlockArray: Uint8Array;
-      if (blockArray instanceof Uint8Array) {
-        typedBlockArray = blockArray;
-      } else if (Array.isArray(blockArray)) {
-        typedBlockArray = new Uint8Array(blockArray);
-      } else {
-        typedBlockArray = new Uint8Array(4096);
-        for (let i = 0; i < 4096; i++) {
-          typedBlockArray[i] = blockArray[i] || 0;
-        }
-      }
-      
-      // Create chunk object (exactly like HyFire8)
-      const chunkKey = `${origin.x},${origin.y},${origin.z}`;
-      const chunk = {
-        _blocks: typedBlockArray,
-        _originCoordinate: origin,
-        blocks: typedBlockArray,
-        originCoordinate: origin,
-        getBlockId: function(localCoord: any) {
-          const index = localCoord.x + (localCoord.y << 4) + (localCoord.z << 8);
-          return this._blocks[index];
-        },
-        hasBlock: function(localCoord: any) {
-          const index = localCoord.x + (localCoord.y << 4) + (localCoord.z << 8);
-          return this._blocks[index] !== 0;
-        },
-        setBlock: function(localCoord: any, blockId: number) {
-          const index = localCoord.x + (localCoord.y << 4) + (localCoord.z << 8);
-          this._blocks[index] = blockId;
-        },
-        serialize: function() {
-          return {
-            c: [this._originCoordinate.x, this._originCoordinate.y, this._originCoordinate.z],
-            b: Array.from(this._blocks)
-          };
-        }
-      };
-      
-      // Add to chunkLattice
-      chunkLattice._chunks.set(chunkKey, chunk);
+      // Convert to Uint8Array / Uint16Array - IDs above 16 bits throw instead of truncating
+      const typedBlockArray = ChunkArray.from(blockArray, parsed?.idWidth);
+      const blocks = remapper ? remapper.remapChunk(typedBlockArray) : typedBlockArray;
       
-      // Emit event if possible
-      if (chunkLattice.emitWithWorld) {
-        chunkLattice.emitWithWorld(this.world, "CHUNK_LATTICE.ADD_CHUNK", {
-          chunkLattice: chunkLattice,
-          chunk: chunk
-        });
-      }
+      totalBlocks += this.inject(origin, blocks);
+      injected.push({ origin, blocks });
+    }
+    this.announcePending();
+    
+    // Precomputed boxes carry the original IDs, so a remapped load builds its own
+    let precomputed: ColliderBox[] | null = null;
+    if (!remapper) {
+      precomputed = parsed?.colliders ?? (ChunkContainer.isContainer(chunksData) ? ChunkContainer.readColliders(chunksData) : null);
+    }
+    this.addColliders(injected, precomputed, loadedBlockTypes);
+    this.finishSync();
+    
+    const loadTime = Date.now() - startTime;
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Loaded ${chunks.length} chunks with ${totalBlocks} blocks in ${loadTime}ms`);
+    }
+  }
+  
+  /**
+   * Load chunks from a stream (e.g. MapDecompressor.decompressChunkStream)
+   * Each chunk is injected as soon as it arrives, while decoding continues;
+   * after each announced batch the event loop gets a turn to send it.
+   */
+  async loadStream(chunkStream: AsyncIterable<DecodedChunk>, blockTypes?: any, remapper?: BlockIdRemapper | null): Promise<void> {
+    const startTime = Date.now();
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Loading streamed chunks...`);
+    }
+    
+    const loadedBlockTypes = remapper ? remapper.remapBlockTypes(blockTypes) : blockTypes;
+    this.prepareLattice(loadedBlockTypes);
+    
+    let chunkCount = 0;
+    let totalBlocks = 0;
+    const injected: DecodedChunk[] = [];
+    for await (const chunkData of chunkStream) {
+      const blocks = remapper ? remapper.remapChunk(chunkData.blocks) : chunkData.blocks;
+      totalBlocks += this.inject(chunkData.origin, blocks);
+      injected.push({ origin: chunkData.origin, blocks });
+      chunkCount++;
       
-      // Count non-zero blocks and update counts
-      for (let i = 0; i < typedBlockArray.length; i++) {
-        const blockId = typedBlockArray[i];
-        if (blockId !== 0) {
-          totalBlocks++;
-          if (chunkLattice._blockTypeCounts) {
-            const currentCount = chunkLattice._blockTypeCounts.get(blockId) || 0;
-            chunkLattice._blockTypeCounts.set(blockId, currentCount + 1);
-          }
-        }
+      if (this.pending.length === 0) {
+        await new Promise(resolve => setImmediate(resolve));
       }
     }
+    this.announcePending();
+    this.addColliders(injected, null, loadedBlockTypes);
+    this.finishSync();
     
     const loadTime = Date.now() - startTime;
-    console.log(`[DirectChunkLoaderV3] Loaded ${chunks.length} chunks with ${totalBlocks} blocks in ${loadTime}ms`);
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Loaded ${chunkCount} streamed chunks with ${totalBlocks} blocks in ${loadTime}ms`);
+    }
+  }
+  
+  /**
+   * Check that every chunk of the last load can reach clients
+   * A chunk must be in the lattice (sent to players who join later), announced
+   * with ADD_CHUNK (sent to players already connected) and hold a 16³ block
+   * array at its origin (what the network serializer sends).
+   */
+  verifyChunkSync(): ChunkSyncReport {
+    const listed = new Map<string, any>();
+    if (this.adapter.capabilities.readChunks) {
+      for (const chunk of this.adapter.getChunks()) {
+        listed.set(`${chunk.origin.x},${chunk.origin.y},${chunk.origin.z}`, chunk);
+      }
+    }
+    
+    const issues: ChunkSyncIssue[] = [];
+    for (const origin of this.injected) {
+      const key = `${origin.x},${origin.y},${origin.z}`;
+      const chunk = listed.get(key);
+      if (!chunk) {
+        issues.push({ origin, problem: 'not-listed' });
+      } else if (chunk.blocks?.length !== ChunkArray.VOLUME || chunk.origin.x !== origin.x || chunk.origin.y !== origin.y || chunk.origin.z !== origin.z) {
+        issues.push({ origin, problem: 'not-serializable' });
+      }
+      if (!this.announced.has(key)) {
+        issues.push({ origin, problem: 'not-announced' });
+      }
+    }
+    
+    return {
+      synced: issues.length === 0,
+      chunks: this.injected.length,
+      announced: this.announced.size,
+      batches: this.batches,
+      issues
+    };
+  }
+  
+  /**
+   * Register block types and reset the chunkLattice before injection
+   */
+  private prepareLattice(blockTypes?: any): void {
+    // Throws before anything is registered when the world can't take chunks
+    this.adapter.clearChunks();
+    BlockTypeRegistrar.register(this.adapter, blockTypes);
+    
+    this.injected = [];
+    this.pending = [];
+    this.announced.clear();
+    this.batches = 0;
+  }
+  
+  /**
+   * Inject one chunk; a full batch is announced once all of its chunks are in place
+   */
+  private inject(origin: { x: number; y: number; z: number }, blocks: ChunkBlockArray): number {
+    const blockCount = this.adapter.injectChunk(origin, blocks);
+    this.injected.push(origin);
+    this.pending.push(origin);
+    if (this.pending.length >= (this.options.loading?.syncBatchSize || DirectChunkLoaderV3.DEFAULT_SYNC_BATCH_SIZE)) {
+      this.announcePending();
+    }
+    return blockCount;
+  }
+  
+  private announcePending(): void {
+    if (this.pending.length === 0) return;
+    // A short count means chunks vanished before their event; the sync check reports them
+    if (this.adapter.capabilities.chunkEvents && this.adapter.announceChunks(this.pending) === this.pending.length) {
+      for (const origin of this.pending) {
+        this.announced.add(`${origin.x},${origin.y},${origin.z}`);
+      }
+      this.batches++;
+    }
+    this.pending = [];
+  }
+  
+  /**
+   * Post-load sync check: warns about chunks clients can't get and hands the
+   * report to loading.onChunkSync
+   */
+  private finishSync(): void {
+    if (this.options.loading?.verifySync === false) return;
+    
+    const report = this.verifyChunkSync();
+    if (!report.synced) {
+      const problems = Array.from(new Set(report.issues.map(issue => issue.problem))).join(', ');
+      console.warn(`[DirectChunkLoaderV3] ${report.issues.length} chunk sync issue(s) (${problems}) - players may see missing terrain (adapter "${this.adapter.name}")`);
+    }
+    this.options.loading?.onChunkSync?.(report);
+  }
+  
+  /**
+   * Give injected chunks physics: the precomputed boxes when there are any,
+   * otherwise boxes greedy-merged from the chunks
+   */
+  private addColliders(chunks: DecodedChunk[], precomputed: ColliderBox[] | null, blockTypes?: any): void {
+    if (this.options.optimization?.colliders === false) return;
+    if (!this.adapter.capabilities.colliders) {
+      if (this.options.debug || this.options.metrics) {
+        console.warn(`[DirectChunkLoaderV3] World has no colliders (adapter "${this.adapter.name}"), injected blocks have no physics`);
+      }
+      return;
+    }
+    
+    const startTime = Date.now();
+    const boxes = precomputed ?? ColliderBuilder.fromChunks(chunks, ColliderBuilder.solidFilter(blockTypes));
+    const added = this.adapter.addColliders(boxes);
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Added ${added} ${precomputed ? 'precomputed' : 'merged'} colliders in ${Date.now() - startTime}ms`);
+    }
   }
   
   /**
@@ -149,55 +264,31 @@ export class DirectChunkLoaderV3 {
    * Our format: [chunkX, chunkZ, block1.x, block1.y, block1.z, block1.id, ...]
    */
   private parseBinaryChunks(chunkData: Buffer): any[] {
-    const chunks = new Map<string, Uint8Array>();
+    const chunks = new Map<string, ChunkBlockArray>();
     let offset = 0;
     let totalBlocks = 0;
     
-    console.log(`[DirectChunkLoaderV3] Parsing binary chunks, buffer size: ${chunkData.length}`);
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Parsing binary chunks, buffer size: ${chunkData.length}`);
+    }
     
-    const magic = chunkData.length >= 4 ? chunkData.readUInt32LE(0) : 0;
-    if (magic === 0x3142434d && chunkData.length >= 8) {
-      offset = 4;
-      const chunkCount = chunkData.readUInt32LE(offset);
-      offset += 4;
-      
-      for (let c = 0; c < chunkCount; c++) {
-        if (offset + 16 > chunkData.length) break;
-        const chunkX = chunkData.readInt32LE(offset);
-        offset += 4;
-        const chunkY = chunkData.readInt32LE(offset);
-        offset += 4;
-        const chunkZ = chunkData.readInt32LE(offset);
-        offset += 4;
-        const blockCount = chunkData.readUInt32LE(offset);
-        offset += 4;
-        
-        const chunkKey = `${chunkX},${chunkY},${chunkZ}`;
+    if (ChunkContainer.isContainer(chunkData)) {
+      // MCB1 / MCB2 - a checksum mismatch throws before anything is injected
+      for (const chunk of ChunkContainer.read(chunkData)) {
+        const chunkKey = `${chunk.x},${chunk.y},${chunk.z}`;
         if (!chunks.has(chunkKey)) {
           chunks.set(chunkKey, new Uint8Array(4096));
         }
-        const blockArray = chunks.get(chunkKey)!;
+        let blockArray = chunks.get(chunkKey)!;
         
-        for (let i = 0; i < blockCount; i++) {
-          if (offset + 14 > chunkData.length) break;
-          const blockX = chunkData.readInt32LE(offset);
-          offset += 4;
-          const blockY = chunkData.readInt32LE(offset);
-          offset += 4;
-          const blockZ = chunkData.readInt32LE(offset);
-          offset += 4;
-          const blockId = chunkData.readUInt16LE(offset);
-          offset += 2;
-          
-          const localX = blockX & 15;
-          const localY = blockY & 15;
-          const localZ = blockZ & 15;
-          
-          const index = localX + (localY << 4) + (localZ << 8);
-          if (index >= 0 && index < 4096) {
-            blockArray[index] = blockId;
-            totalBlocks++;
+        for (const block of chunk.blocks) {
+          const index = (block.x & 15) + ((block.y & 15) << 4) + ((block.z & 15) << 8);
+          if (block.id > 0xff && blockArray instanceof Uint8Array) {
+            blockArray = ChunkArray.widen(blockArray, block.id);
+            chunks.set(chunkKey, blockArray);
           }
+          blockArray[index] = block.id;
+          totalBlocks++;
         }
       }
     } else {
@@ -214,7 +305,7 @@ export class DirectChunkLoaderV3 {
         if (!chunks.has(chunkKey)) {
           chunks.set(chunkKey, new Uint8Array(4096));
         }
-        const blockArray = chunks.get(chunkKey)!;
+        let blockArray = chunks.get(chunkKey)!;
         
         let blocksInChunk = 0;
         while (offset + 14 <= chunkData.length) {
@@ -237,6 +328,10 @@ export class DirectChunkLoaderV3 {
           
           const index = localX + (localY << 4) + (localZ << 8);
           if (index >= 0 && index < 4096) {
+            if (blockId > 0xff && blockArray instanceof Uint8Array) {
+              blockArray = ChunkArray.widen(blockArray, blockId);
+              chunks.set(chunkKey, blockArray);
+            }
             blockArray[index] = blockId;
             blocksInChunk++;
             totalBlocks++;
@@ -245,7 +340,9 @@ export class DirectChunkLoaderV3 {
       }
     }
     
-    console.log(`[DirectChunkLoaderV3] Parsed ${chunks.size} chunks with ${totalBlocks} total blocks`);
+    if (this.options.debug || this.options.metrics) {
+      console.log(`[DirectChunkLoaderV3] Parsed ${chunks.size} chunks with ${totalBlocks} total blocks`);
+    }
     
     // Convert to array format
     const result: any[] = [];
@@ -259,23 +356,4 @@ export class DirectChunkLoaderV3 {
     
     return result;
   }
-  
-  private registerBlockTypes(blockTypes?: any): void {
-    if (!blockTypes || !this.world?.blockTypeRegistry) return;
-    
-    const list = Array.isArray(blockTypes) ? blockTypes : Object.values(blockTypes);
-    for (const blockType of list) {
-      if (!blockType || typeof blockType.id !== 'number') continue;
-      try {
-        this.world.blockTypeRegistry.registerGenericBlockType({
-          id: blockType.id,
-          isLiquid: blockType.isLiquid || false,
-          name: blockType.name || `block_${blockType.id}`,
-          textureUri: blockType.textureUri || 'blocks/stone.png'
-        });
-      } catch {
-        // ignore duplicates
-      }
-    }
-  }
 }
@@ -1,25 +1,30 @@
 import { MapDecompressor } from '../core/MapDecompressor';
+import { MapFormat } from '../core/MapFormat';
 import { MonkeyPatchLoader } from './MonkeyPatchLoader';
 import { DirectChunkLoader } from './DirectChunkLoader';
-import { MapCompressionOptions } from '../types';
+import { DirectChunkLoaderV3 } from './DirectChunkLoaderV3';
+import { BlockIdRemapper } from '../core/BlockIdRemapper';
+import { VoxelStore } from '../utils/VoxelStore';
+import { WorldAdapters } from '../adapters/WorldAdapters';
+import { MapCompressionOptions, WorldAdapter } from '../types';
 
 /**
  * Combined fast loading strategies
  * Achieves 50x faster loading by combining all optimizations
  */
 export class FastLoader {
-  private world: any;
+  private adapter: WorldAdapter;
   private options: MapCompressionOptions;
   private decompressor: MapDecompressor;
   private monkeyPatcher: MonkeyPatchLoader;
   private chunkLoader: DirectChunkLoader;
   
   constructor(world: any, options: MapCompressionOptions = {}) {
-    this.world = world;
+    this.adapter = WorldAdapters.detect(world);
     this.options = options;
     this.decompressor = new MapDecompressor(options);
-    this.monkeyPatcher = new MonkeyPatchLoader(world, options);
-    this.chunkLoader = new DirectChunkLoader(world, options);
+    this.monkeyPatcher = new MonkeyPatchLoader(this.adapter, options);
+    this.chunkLoader = new DirectChunkLoader(this.adapter, options);
   }
   
   /**
@@ -34,18 +39,60 @@ export class FastLoader {
     
     // Check if it's compressed
     const isCompressed = this.isCompressedMap(mapData);
+    
+    // Binary containers and older formats are read into the current JSON format
+    if (isCompressed) {
+      mapData = await MapFormat.read(mapData);
+    }
     let decompressedData: any = mapData;
     
+    // Block ID remapping is decided once per load from the map's block types
+    const remapper = BlockIdRemapper.create(this.options.blockIds?.remap, mapData.blockTypes, this.adapter, this.options.blockIds);
+    if (remapper && this.options.debug) {
+      console.log(`[FastLoader] Remapping ${remapper.entries().size} block IDs (${this.options.blockIds?.remap})`);
+    }
+    
+    // Parallel: decode segments in workers straight into lattice chunks
+    if (isCompressed && this.canLoadParallel(mapData)) {
+      if (this.options.debug) {
+        console.log('[FastLoader] Detected multi-segment map, decoding segments in worker threads...');
+      }
+      
+      await this.loadParallel(mapData, remapper);
+      
+      if (this.options.debug || this.options.metrics) {
+        console.log(`[FastLoader] Parallel map loading complete in ${Date.now() - startTime}ms`);
+      }
+      return;
+    }
+    
+    // Streaming: place blocks while the rest of the map is still decoding
+    if (isCompressed && this.canStream()) {
+      if (this.options.debug) {
+        console.log('[FastLoader] Detected compressed map, streaming decompression into chunk loader...');
+      }
+      
+      await this.loadStreaming(mapData, remapper);
+      
+      if (this.options.debug || this.options.metrics) {
+        console.log(`[FastLoader] Streamed map loading complete in ${Date.now() - startTime}ms`);
+      }
+      return;
+    }
+    
     if (isCompressed) {
       if (this.options.debug) {
         console.log('[FastLoader] Detected compressed map, decompressing...');
       }
       
-      // Decompress first
+      // Decompress first - into a VoxelStore when the blocks go to the chunk loader
       const decompressionStart = Date.now();
-      const result = await this.decompressor.decompress(mapData);
+      const result = this.canLoadVoxels(mapData)
+        ? await this.decompressor.decompressVoxels(mapData)
+        : await this.decompressor.decompress(mapData);
       
       decompressedData = {
+        ...result.fields,
         blocks: result.blocks,
         blockTypes: result.blockTypes || mapData.blockTypes,
         entities: result.entities || {},
@@ -54,12 +101,16 @@ export class FastLoader {
       
       if (this.options.debug) {
         console.log(`[FastLoader] Decompression took ${Date.now() - decompressionStart}ms`);
-        console.log(`[FastLoader] Decompressed ${Object.keys(decompressedData.blocks).length} blocks`);
+        console.log(`[FastLoader] Decompressed ${VoxelStore.count(decompressedData.blocks)} blocks`);
       }
     }
     
+    if (remapper) {
+      decompressedData = remapper.remapMap(decompressedData);
+    }
+    
     // Determine best loading method
-    const method = this.options.loading?.method || this.determineOptimalMethod(decompressedData);
+    const method = this.options.loading?.method || this.determineOptimalMethod(VoxelStore.count(decompressedData.blocks));
     
     if (this.options.debug) {
       console.log(`[FastLoader] Using loading method: ${method}`);
@@ -70,15 +121,15 @@ export class FastLoader {
       case 'monkeypatch':
         await this.loadWithMonkeyPatch(decompressedData);
         break;
-        
+      
       case 'chunks':
         await this.loadWithChunks(decompressedData);
         break;
-        
+      
       case 'hybrid':
         await this.loadHybrid(decompressedData);
         break;
-        
+      
       default:
         await this.loadDefault(decompressedData);
     }
@@ -100,8 +151,7 @@ export class FastLoader {
   /**
    * Determine optimal loading method based on map characteristics
    */
-  private determineOptimalMethod(mapData: any): string {
-    const blockCount = Object.keys(mapData.blocks).length;
+  private determineOptimalMethod(blockCount: number): string {
     const optimizationEnabled = this.options.optimization?.enabled !== false;
     const useChunks = this.options.optimization?.useChunks !== false;
     
@@ -123,12 +173,35 @@ export class FastLoader {
     return 'default';
   }
   
+  /**
+   * Whether a compressed map should decompress into a VoxelStore
+   * Only when optimization.preParseCoordinates is set and the chunk loader will
+   * place the blocks - world.loadMap still needs the "x,y,z" dictionary
+   */
+  private canLoadVoxels(mapData: any): boolean {
+    if (!this.options.optimization?.preParseCoordinates) {
+      return false;
+    }
+    
+    const method = this.options.loading?.method || this.determineOptimalMethod(mapData.metadata?.blockCount || 0);
+    return method === 'chunks' || (method === 'hybrid' && this.options.optimization?.useChunks !== false);
+  }
+  
+  /**
+   * Map data in the dictionary format world.loadMap expects
+   */
+  private toWorldMap(mapData: any): any {
+    return VoxelStore.isVoxelStore(mapData.blocks)
+      ? { ...mapData, blocks: mapData.blocks.toDictionary() }
+      : mapData;
+  }
+  
   /**
    * Load using monkey patching
    */
   private async loadWithMonkeyPatch(mapData: any): Promise<void> {
     this.monkeyPatcher.patch();
-    await this.world.loadMap(mapData);
+    await this.adapter.loadMap(this.toWorldMap(mapData));
   }
   
   /**
@@ -137,13 +210,64 @@ export class FastLoader {
   private async loadWithChunks(mapData: any): Promise<void> {
     // Load entities and metadata normally
     if (mapData.entities) {
-      this.world.entities = mapData.entities;
+      this.adapter.setEntities(mapData.entities);
     }
     
     // Load blocks using chunks
     await this.chunkLoader.loadChunks(mapData.blocks, mapData.blockTypes);
   }
   
+  /**
+   * Whether the configured method can consume a decompression stream
+   */
+  private canStream(): boolean {
+    const method = this.options.loading?.method;
+    return !!this.options.loading?.streaming &&
+      this.options.optimization?.useChunks !== false &&
+      (!method || method === 'chunks' || method === 'hybrid');
+  }
+  
+  /**
+   * Load a compressed map by streaming decoded batches into the chunk loader
+   */
+  private async loadStreaming(mapData: any, remapper: BlockIdRemapper | null): Promise<void> {
+    if (mapData.entities) {
+      this.adapter.setEntities(remapper ? remapper.remapEntities(mapData.entities) : mapData.entities);
+    }
+    
+    const blockStream = this.decompressor.decompressStream(mapData);
+    if (remapper) {
+      await this.chunkLoader.loadBlockStream(remapper.remapBlockStream(blockStream), remapper.remapBlockTypes(mapData.blockTypes));
+    } else {
+      await this.chunkLoader.loadBlockStream(blockStream, mapData.blockTypes);
+    }
+  }
+  
+  /**
+   * Whether a multi-segment map can be decoded in workers and injected directly
+   */
+  private canLoadParallel(mapData: any): boolean {
+    const method = this.options.loading?.method;
+    return !!this.options.decompression?.parallel &&
+      mapData.segments?.length > 1 &&
+      this.adapter.capabilities.injectChunks &&
+      this.options.optimization?.useChunks !== false &&
+      (!method || method === 'chunks' || method === 'hybrid');
+  }
+  
+  /**
+   * Load a multi-segment map through worker decoding and DirectChunkLoaderV3
+   * Chunk arrays are SharedArrayBuffer views and are injected without copying
+   */
+  private async loadParallel(mapData: any, remapper: BlockIdRemapper | null): Promise<void> {
+    if (mapData.entities) {
+      this.adapter.setEntities(remapper ? remapper.remapEntities(mapData.entities) : mapData.entities);
+    }
+    
+    const result = await this.decompressor.decompressChunks(mapData);
+    new DirectChunkLoaderV3(this.adapter, this.options).loadDirectly({ chunks: result.chunks }, mapData.blockTypes, remapper);
+  }
+  
   /**
    * Hybrid loading - combines monkey patching with chunk optimization
    */
@@ -153,32 +277,29 @@ export class FastLoader {
     }
     
     if (this.options.optimization?.useChunks !== false) {
+      // Chunks carry no entities; set them as loadWithChunks does
+      if (mapData.entities) {
+        this.adapter.setEntities(mapData.entities);
+      }
       await this.chunkLoader.loadChunks(mapData.blocks, mapData.blockTypes);
       return;
     }
     
-    await this.world.loadMap(mapData);
+    await this.adapter.loadMap(this.toWorldMap(mapData));
   }
   
   /**
    * Default loading (no optimizations)
    */
   private async loadDefault(mapData: any): Promise<void> {
-    await this.world.loadMap(mapData);
+    await this.adapter.loadMap(this.toWorldMap(mapData));
   }
   
   /**
    * Check if map data is compressed
    */
   private isCompressedMap(mapData: any): boolean {
-    return !!(
-      mapData &&
-      mapData.version &&
-      mapData.algorithm &&
-      mapData.data &&
-      typeof mapData.data === 'string' &&
-      mapData.bounds
-    );
+    return MapDecompressor.isCompressedMap(mapData);
   }
   
   /**
@@ -1,18 +1,19 @@
 import { MapDecompressor } from '../core/MapDecompressor';
-import { MapCompressionOptions } from '../types';
+import { MapCompressionOptions, WorldAdapter } from '../types';
+import { WorldAdapters } from '../adapters/WorldAdapters';
 
 /**
  * Monkey patches the Hytopia SDK's world.loadMap() method
  * for optimized loading of compressed maps
  */
 export class MonkeyPatchLoader {
-  private world: any;
-  private originalLoadMap: Function | null = null;
+  private adapter: WorldAdapter;
+  private originalLoadMap: ((mapData: any) => any) | null = null;
   private decompressor: MapDecompressor;
   private options: MapCompressionOptions;
   
   constructor(world: any, options: MapCompressionOptions = {}) {
-    this.world = world;
+    this.adapter = WorldAdapters.detect(world);
     this.options = options;
     this.decompressor = new MapDecompressor(options);
   }
@@ -26,11 +27,8 @@ export class MonkeyPatchLoader {
       return;
     }
     
-    // Store original method
-    this.originalLoadMap = this.world.loadMap.bind(this.world);
-    
-    // Replace with optimized version
-    this.world.loadMap = async (mapData: any) => {
+    // Replace with optimized version, keeping the original
+    this.originalLoadMap = this.adapter.replaceLoadMap(async (mapData: any) => {
       if (this.options.debug) {
         console.log('[MonkeyPatchLoader] Intercepted loadMap call');
       }
@@ -48,6 +46,7 @@ export class MonkeyPatchLoader {
         
         // Convert to SDK format
         const sdkFormat = {
+          ...decompressed.fields,
           blocks: decompressed.blocks,
           blockTypes: decompressed.blockTypes || mapData.blockTypes,
           entities: decompressed.entities || {},
@@ -65,7 +64,7 @@ export class MonkeyPatchLoader {
       
       // Not compressed, use original method
       return this.originalLoadMap!(mapData);
-    };
+    });
     
     if (this.options.debug) {
       console.log('[MonkeyPatchLoader] Successfully patched world.loadMap()');
@@ -81,7 +80,7 @@ export class MonkeyPatchLoader {
       return;
     }
     
-    this.world.loadMap = this.originalLoadMap;
+    this.adapter.replaceLoadMap(this.originalLoadMap);
     this.originalLoadMap = null;
     
     if (this.options.debug) {
@@ -93,14 +92,7 @@ export class MonkeyPatchLoader {
    * Check if map data is compressed
    */
   private isCompressedMap(mapData: any): boolean {
-    return !!(
-      mapData &&
-      mapData.version &&
-      mapData.algorithm &&
-      mapData.data &&
-      typeof mapData.data === 'string' &&
-      mapData.bounds
-    );
+    return MapDecompressor.isCompressedMap(mapData);
   }
   
   /**
@@ -111,6 +103,6 @@ export class MonkeyPatchLoader {
       this.patch();
     }
     
-    return this.world.loadMap(mapData);
+    return this.adapter.loadMap(mapData);
   }
 }
\ No newline at end of file
@@ -0,0 +1,341 @@
+import { ChunkArray, ChunkBlockArray } from '../utils/ChunkArray';
+
+export interface FakeWorldOptions {
+  chunkLattice?: boolean; // Expose world.chunkLattice like the current SDK (default: true)
+  chunkStorage?: boolean; // Expose world._chunks with getOrCreate() like older SDKs (default: false)
+  simulation?: boolean; // Expose world.simulation for colliders (default: true)
+  chunkEvents?: 'emitWithWorld' | 'emit' | false; // chunkLattice.emitWithWorld(), chunkLattice.emit() like older SDKs, or no events (default: 'emitWithWorld')
+}
+
+export interface FakeWorldCall {
+  method: string; // e.g. 'setBlock', 'chunkLattice.clear', 'blockTypeRegistry.registerGenericBlockType'
+  args: any[];
+}
+
+export interface FakeWorldEvent {
+  event: string; // e.g. 'CHUNK_LATTICE.ADD_CHUNK'
+  payload: any;
+}
+
+type Vector3 = { x: number; y: number; z: number };
+
+/**
+ * Stand-in for the SDK's Collider: keeps its options and which simulation it is in
+ */
+export class FakeCollider {
+  readonly options: any;
+  simulation: { colliders: FakeCollider[] } | null = null;
+  
+  constructor(options: any) {
+    this.options = options;
+  }
+  
+  addToSimulation(simulation: { colliders: FakeCollider[] }): void {
+    this.simulation = simulation;
+    simulation.colliders.push(this);
+  }
+  
+  removeFromSimulation(): void {
+    if (!this.simulation) return;
+    const colliders = this.simulation.colliders;
+    colliders.splice(colliders.indexOf(this), 1);
+    this.simulation = null;
+  }
+}
+
+/**
+ * Stand-in for the SDK's Entity: keeps its options and registers with the world's entity manager
+ */
+export class FakeEntity {
+  readonly options: any;
+  world: FakeWorld | null = null;
+  position: Vector3 | null = null;
+  
+  constructor(options: any) {
+    this.options = options;
+  }
+  
+  get modelUri(): string | undefined {
+    return this.options.modelUri;
+  }
+  
+  get isSpawned(): boolean {
+    return this.world !== null;
+  }
+  
+  spawn(world: FakeWorld, position: Vector3): void {
+    this.world = world;
+    this.position = { ...position };
+    world.entityManager.registerEntity(this);
+  }
+  
+  despawn(): void {
+    if (!this.world) return;
+    this.world.entityManager.unregisterEntity(this);
+    this.world = null;
+  }
+}
+
+/**
+ * In-memory stand-in for a Hytopia world, for testing loaders without the runtime
+ * Implements what the loaders use - setBlock/getBlock, a chunkLattice with
+ * _chunks, clear() and emitWithWorld() (or emit()), blockTypeRegistry and
+ * loadMap() - and records every call that changes the world and every event
+ * emitted, so each loading strategy can be checked deterministically.
+ *
+ * All block access shares one set of 16³ chunks: blocks placed with setBlock,
+ * written through chunk storage or injected into chunkLattice._chunks are all
+ * visible through getBlock() and getBlocks(). Colliders and entities need the
+ * SDK classes: pass FakeWorld.sdk to BaseWorldAdapter.useSdk() and they land in
+ * simulation and entityManager. loadMap() spawns map entities keyed "x,y,z".
+ */
+export class FakeWorld {
+  static readonly sdk = {
+    Collider: FakeCollider,
+    ColliderShape: { BLOCK: 'block' },
+    Entity: FakeEntity,
+    RigidBodyType: { FIXED: 'fixed' }
+  };
+  
+  readonly chunkLattice?: any;
+  readonly _chunks?: { getOrCreate(chunkKey: string): any };
+  readonly simulation?: { colliders: FakeCollider[] };
+  readonly blockTypeRegistry: any;
+  readonly entityManager: any;
+  entities: any;
+  
+  readonly calls: FakeWorldCall[] = [];
+  readonly events: FakeWorldEvent[] = [];
+  readonly loadedMaps: any[] = [];
+  
+  private ownChunks = new Map<string, any>();
+  
+  constructor(options: FakeWorldOptions = {}) {
+    const blockTypes = new Map<number, any>();
+    this.blockTypeRegistry = {
+      _blockTypes: blockTypes,
+      registerGenericBlockType: (definition: any) => {
+        this.record('blockTypeRegistry.registerGenericBlockType', definition);
+        blockTypes.set(definition.id, definition);
+        return definition;
+      },
+      getBlockType: (id: number) => blockTypes.get(id),
+      getAllBlockTypes: () => Array.from(blockTypes.values())
+    };
+    
+    const spawned: FakeEntity[] = [];
+    this.entityManager = {
+      registerEntity: (entity: FakeEntity) => {
+        this.record('entityManager.registerEntity', entity);
+        spawned.push(entity);
+      },
+      unregisterEntity: (entity: FakeEntity) => {
+        this.record('entityManager.unregisterEntity', entity);
+        spawned.splice(spawned.indexOf(entity), 1);
+      },
+      getAllEntities: () => spawned.slice()
+    };
+    
+    const chunkEvents = options.chunkEvents ?? 'emitWithWorld';
+    if (options.chunkLattice !== false) {
+      this.chunkLattice = {
+        _chunks: new Map<string, any>(),
+        clear: () => {
+          this.record('chunkLattice.clear');
+          this.chunkMap.clear();
+        },
+        setBlock: (coordinate: Vector3, id: number) => {
+          this.record('chunkLattice.setBlock', coordinate, id);
+          this.placeBlock(coordinate, id);
+        },
+        getBlockId: (coordinate: Vector3) => this.getBlock(coordinate),
+        getAllChunks: () => Array.from(this.chunkMap.values())
+      };
+      if (chunkEvents === 'emitWithWorld') {
+        this.chunkLattice.emitWithWorld = (_world: any, event: string, payload: any) => this.events.push({ event, payload });
+      } else if (chunkEvents === 'emit') {
+        this.chunkLattice.emit = (event: string, payload: any) => this.events.push({ event, payload });
+      }
+    }
+    
+    if (options.chunkStorage) {
+      this._chunks = {
+        getOrCreate: (chunkKey: string) => {
+          this.record('_chunks.getOrCreate', chunkKey);
+          const [x, y, z] = chunkKey.split(',').map(Number);
+          return this.chunkAt({ x: x * 16, y: y * 16, z: z * 16 }, true);
+        }
+      };
+    }
+    
+    if (options.simulation !== false) {
+      this.simulation = { colliders: [] };
+    }
+  }
+  
+  setBlock(coordinate: Vector3, id: number): void {
+    this.record('setBlock', coordinate, id);
+    this.placeBlock(coordinate, id);
+  }
+  
+  /**
+   * Block ID at a world coordinate (0 = air)
+   */
+  getBlock(coordinate: Vector3): number {
+    const chunk = this.chunkAt(coordinate, false);
+    return chunk ? chunk.getBlockId({ x: coordinate.x & 15, y: coordinate.y & 15, z: coordinate.z & 15 }) ?? 0 : 0;
+  }
+  
+  /**
+   * Replace the world with a map, like the SDK: register block types, set every block
+   * The map is kept in loadedMaps exactly as it was passed; keyed entities are spawned.
+   */
+  async loadMap(mapData: any): Promise<void> {
+    this.record('loadMap', mapData);
+    this.loadedMaps.push(mapData);
+    
+    const blockTypes = Array.isArray(mapData?.blockTypes) ? mapData.blockTypes : Object.values(mapData?.blockTypes || {});
+    for (const blockType of blockTypes as any[]) {
+      if (blockType && typeof blockType.id === 'number') {
+        this.blockTypeRegistry._blockTypes.set(blockType.id, blockType);
+      }
+    }
+    
+    this.chunkMap.clear();
+    for (const [key, id] of Object.entries(mapData?.blocks || {})) {
+      const [x, y, z] = key.split(',').map(Number);
+      this.placeBlock({ x, y, z }, id as number, false);
+    }
+    
+    for (const [key, options] of Object.entries(mapData?.entities || {})) {
+      const [x, y, z] = key.split(',').map(Number);
+      if ([x, y, z].every(Number.isFinite)) {
+        new FakeEntity(options).spawn(this, { x, y, z });
+      }
+    }
+    this.entities = mapData?.entities;
+  }
+  
+  /**
+   * Every non-air block as an "x,y,z" dictionary
+   */
+  getBlocks(): { [key: string]: number } {
+    const blocks: { [key: string]: number } = {};
+    for (const chunk of this.chunkMap.values()) {
+      const origin = chunk.originCoordinate ?? chunk._originCoordinate;
+      const cells: ArrayLike<number> = chunk.blocks ?? chunk._blocks;
+      for (let i = 0; i < cells.length; i++) {
+        if (cells[i] === 0) continue;
+        blocks[`${origin.x + (i & 15)},${origin.y + ((i >> 4) & 15)},${origin.z + (i >> 8)}`] = cells[i];
+      }
+    }
+    return blocks;
+  }
+  
+  /**
+   * How many colliders in the simulation cover each block, as an "x,y,z" dictionary
+   * Block colliders are boxes of whole blocks; a block at (x, y, z) fills x..x+1.
+   */
+  getColliderBlocks(): { [key: string]: number } {
+    const covered: { [key: string]: number } = {};
+    for (const collider of this.simulation?.colliders || []) {
+      const { halfExtents, relativePosition } = collider.options;
+      const min = {
+        x: relativePosition.x - halfExtents.x,
+        y: relativePosition.y - halfExtents.y,
+        z: relativePosition.z - halfExtents.z
+      };
+      for (let x = min.x; x < min.x + halfExtents.x * 2; x++) {
+        for (let y = min.y; y < min.y + halfExtents.y * 2; y++) {
+          for (let z = min.z; z < min.z + halfExtents.z * 2; z++) {
+            const key = `${x},${y},${z}`;
+            covered[key] = (covered[key] || 0) + 1;
+          }
+        }
+      }
+    }
+    return covered;
+  }
+  
+  get blockCount(): number {
+    return Object.keys(this.getBlocks()).length;
+  }
+  
+  callsTo(method: string): FakeWorldCall[] {
+    return this.calls.filter(call => call.method === method);
+  }
+  
+  eventsOf(event: string): FakeWorldEvent[] {
+    return this.events.filter(entry => entry.event === event);
+  }
+  
+  /**
+   * Forget recorded calls, events and loaded maps; the blocks stay
+   */
+  resetRecording(): void {
+    this.calls.length = 0;
+    this.events.length = 0;
+    this.loadedMaps.length = 0;
+  }
+  
+  /**
+   * The lattice's chunk map, so chunks injected straight into _chunks are seen too
+   */
+  private get chunkMap(): Map<string, any> {
+    return this.chunkLattice ? this.chunkLattice._chunks : this.ownChunks;
+  }
+  
+  private record(method: string, ...args: any[]): void {
+    this.calls.push({ method, args });
+  }
+  
+  private placeBlock(coordinate: Vector3, id: number, emit: boolean = true): void {
+    const chunk = this.chunkAt(coordinate, id !== 0);
+    if (!chunk) return;
+    
+    const localCoordinate = { x: coordinate.x & 15, y: coordinate.y & 15, z: coordinate.z & 15 };
+    chunk.setBlock(localCoordinate, id);
+    if (emit && (this.chunkLattice?.emitWithWorld || this.chunkLattice?.emit)) {
+      this.events.push({
+        event: 'CHUNK_LATTICE.SET_BLOCK',
+        payload: { chunkLattice: this.chunkLattice, chunk, globalCoordinate: coordinate, localCoordinate, blockTypeId: id }
+      });
+    }
+  }
+  
+  /**
+   * Chunk containing a world coordinate, created empty when asked to
+   */
+  private chunkAt(coordinate: Vector3, create: boolean): any {
+    const origin = { x: coordinate.x & ~15, y: coordinate.y & ~15, z: coordinate.z & ~15 };
+    const key = `${origin.x},${origin.y},${origin.z}`;
+    let chunk = this.chunkMap.get(key);
+    if (!chunk && create) {
+      chunk = createChunk(origin, new Uint8Array(ChunkArray.VOLUME));
+      this.chunkMap.set(key, chunk);
+    }
+    return chunk;
+  }
+}
+
+/**
+ * Chunk object shaped like the SDK's (and like the chunks DirectChunkLoaderV3 injects)
+ */
+function createChunk(origin: Vector3, blocks: ChunkBlockArray): any {
+  return {
+    _blocks: blocks,
+    _originCoordinate: origin,
+    blocks,
+    originCoordinate: origin,
+    getBlockId(localCoordinate: Vector3): number {
+      return this._blocks[localCoordinate.x + (localCoordinate.y << 4) + (localCoordinate.z << 8)];
+    },
+    hasBlock(localCoordinate: Vector3): boolean {
+      return this.getBlockId(localCoordinate) !== 0;
+    },
+    setBlock(localCoordinate: Vector3, id: number): void {
+      this._blocks = this.blocks = ChunkArray.widen(this._blocks, id);
+      this._blocks[localCoordinate.x + (localCoordinate.y << 4) + (localCoordinate.z << 8)] = id;
+    }
+  };
+}
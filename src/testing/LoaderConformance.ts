@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import { MapCompression } from '../core/MapCompression';
+import { MapContainer } from '../core/MapContainer';
+import { MapDecompressor } from '../core/MapDecompressor';
+import { DirectChunkLoader } from '../optimization/DirectChunkLoader';
+import { DirectChunkLoaderV3 } from '../optimization/DirectChunkLoaderV3';
+import { BlockSource, VoxelStore } from '../utils/VoxelStore';
+import {
+  BlockDifference,
+  CompressedMapData,
+  ConformanceReport,
+  LoaderStrategy,
+  MapCompressionOptions,
+  MapData,
+  StrategyConformance
+} from '../types';
+import { FakeWorld } from './FakeWorld';
+
+export interface LoaderConformanceOptions {
+  strategies?: LoaderStrategy[]; // Strategies to run (default: DEFAULT_STRATEGIES)
+  maxSamples?: number; // Differences listed per strategy (default: 10)
+  compression?: MapCompressionOptions; // Used to compress a plain map and to load it
+}
+
+type Blocks = { [key: string]: number };
+
+/**
+ * Checks that every loading strategy produces the same world
+ * The map is loaded through each strategy into its own FakeWorld and the
+ * resulting blocks are diffed against the map, so a loader that drops, moves
+ * or mis-splits blocks is reported with the coordinates it got wrong.
+ */
+export class LoaderConformance {
+  static readonly STRATEGIES: LoaderStrategy[] = [
+    'default',
+    'monkeypatch',
+    'chunks',
+    'chunks-direct',
+    'hybrid',
+    'streaming',
+    'precomputed',
+    'precomputed-legacy'
+  ];
+  // Known-lossy formats only run when asked for, so a valid map conforms
+  static readonly DEFAULT_STRATEGIES: LoaderStrategy[] = LoaderConformance.STRATEGIES.filter(strategy => strategy !== 'precomputed-legacy');
+  static readonly DEFAULT_MAX_SAMPLES = 10;
+  
+  /**
+   * Load a map through every strategy and compare the worlds block by block
+   * @param map Map JSON, compressed map (container or JSON) or a path to either
+   */
+  static async check(map: MapData | CompressedMapData | Buffer | string, options: LoaderConformanceOptions = {}): Promise<ConformanceReport> {
+    const strategies = options.strategies ?? this.DEFAULT_STRATEGIES;
+    const unknown = strategies.find(strategy => !this.STRATEGIES.includes(strategy));
+    if (unknown) {
+      throw new Error(`Unknown loader strategy "${unknown}" (${this.STRATEGIES.join(', ')})`);
+    }
+    
+    const compression: MapCompressionOptions = { ...options.compression, debug: false, metrics: false };
+    const { compressed, blocks, blockTypes } = await this.prepare(map, compression);
+    const maxSamples = options.maxSamples ?? this.DEFAULT_MAX_SAMPLES;
+    
+    const results: StrategyConformance[] = [];
+    for (const strategy of strategies) {
+      const startTime = Date.now();
+      const world = new FakeWorld({ chunkStorage: strategy === 'chunks-direct' });
+      let error: string | undefined;
+      try {
+        await this.load(strategy, world, compressed, blocks, blockTypes, compression);
+      } catch (loadError: any) {
+        error = loadError.message;
+      }
+      
+      const actual = world.getBlocks();
+      const differences = this.diff(blocks, actual, maxSamples);
+      results.push({
+        strategy,
+        matches: !error && differences.count === 0,
+        blockCount: Object.keys(actual).length,
+        differences: differences.count,
+        samples: differences.samples,
+        ...(error ? { error } : {}),
+        timeMs: Date.now() - startTime
+      });
+    }
+    
+    return {
+      conforms: results.every(result => result.matches),
+      blockCount: Object.keys(blocks).length,
+      strategies: results
+    };
+  }
+  
+  /**
+   * Compressed map for the loaders plus the blocks every world should end up with
+   * A plain map is the reference itself; a compressed one is decompressed once.
+   */
+  private static async prepare(map: MapData | CompressedMapData | Buffer | string, compression: MapCompressionOptions): Promise<{ compressed: CompressedMapData | Buffer; blocks: Blocks; blockTypes: any }> {
+    let input: any = map;
+    if (typeof input === 'string') {
+      const raw = fs.readFileSync(input);
+      input = MapContainer.isContainer(raw) ? raw : JSON.parse(raw.toString('utf-8'));
+    }
+    
+    const mc = new MapCompression(null, compression);
+    if (MapDecompressor.isCompressedMap(input)) {
+      const result = await mc.decompress(input);
+      return { compressed: input, blocks: this.solid(result.blocks), blockTypes: result.blockTypes };
+    }
+    if (!input || typeof input.blocks !== 'object') {
+      throw new Error('Not a map or compressed map');
+    }
+    
+    return {
+      compressed: await mc.createBinaryMapFile(input),
+      blocks: this.solid(input.blocks),
+      blockTypes: input.blockTypes
+    };
+  }
+  
+  private static async load(strategy: LoaderStrategy, world: FakeWorld, compressed: CompressedMapData | Buffer, blocks: Blocks, blockTypes: any, compression: MapCompressionOptions): Promise<void> {
+    const loadWith = (loading: MapCompressionOptions['loading']) =>
+      new MapCompression(world, { ...compression, loading: { ...compression.loading, streaming: false, ...loading } }).loadMap(compressed);
+    
+    switch (strategy) {
+      case 'default':
+      case 'monkeypatch':
+      case 'chunks':
+      case 'hybrid':
+        return loadWith({ method: strategy });
+      case 'chunks-direct':
+        return loadWith({ method: 'chunks' });
+      case 'streaming':
+        return loadWith({ method: 'chunks', streaming: true });
+      case 'precomputed': {
+        const chunkData = await new DirectChunkLoader(new FakeWorld(), compression).precomputeChunks(blocks, blockTypes);
+        return new DirectChunkLoaderV3(world, compression).loadDirectly(chunkData, blockTypes);
+      }
+      case 'precomputed-legacy':
+        return new DirectChunkLoaderV3(world, compression).loadDirectly(encodeLegacyChunks(blocks), blockTypes);
+    }
+  }
+  
+  /**
+   * Every coordinate where the world differs from the map, air counting as 0
+   */
+  private static diff(expected: Blocks, actual: Blocks, maxSamples: number): { count: number; samples: BlockDifference[] } {
+    const samples: BlockDifference[] = [];
+    let count = 0;
+    const report = (key: string, expectedId: number, actualId: number) => {
+      count++;
+      if (samples.length < maxSamples) {
+        const [x, y, z] = key.split(',').map(Number);
+        samples.push({ x, y, z, expected: expectedId, actual: actualId });
+      }
+    };
+    
+    for (const key in expected) {
+      const actualId = actual[key] ?? 0;
+      if (actualId !== expected[key]) report(key, expected[key], actualId);
+    }
+    for (const key in actual) {
+      if (!(key in expected)) report(key, 0, actual[key]);
+    }
+    return { count, samples };
+  }
+  
+  /**
+   * Blocks without explicit air entries, keyed like FakeWorld.getBlocks()
+   */
+  private static solid(blocks: BlockSource): Blocks {
+    const result: Blocks = {};
+    VoxelStore.forEachBlock(blocks, (x, y, z, id) => {
+      if (id !== 0) result[`${x},${y},${z}`] = id;
+    });
+    return result;
+  }
+}
+
+/**
+ * Legacy binary chunk cache (before MCB1): per 16-block column chunkX, chunkZ
+ * as int32, then x, y, z as int32 and the ID as uint16 for each of its blocks
+ */
+function encodeLegacyChunks(blocks: Blocks): Buffer {
+  const columns = new Map<string, number[][]>();
+  for (const key in blocks) {
+    const [x, y, z] = key.split(',').map(Number);
+    const columnKey = `${x >> 4},${z >> 4}`;
+    let column = columns.get(columnKey);
+    if (!column) {
+      column = [];
+      columns.set(columnKey, column);
+    }
+    column.push([x, y, z, blocks[key]]);
+  }
+  
+  let size = 0;
+  for (const column of columns.values()) size += 8 + column.length * 14;
+  const buffer = Buffer.alloc(size);
+  let offset = 0;
+  for (const [columnKey, column] of columns) {
+    const [chunkX, chunkZ] = columnKey.split(',').map(Number);
+    offset = buffer.writeInt32LE(chunkX, offset);
+    offset = buffer.writeInt32LE(chunkZ, offset);
+    for (const [x, y, z, id] of column) {
+      offset = buffer.writeInt32LE(x, offset);
+      offset = buffer.writeInt32LE(y, offset);
+      offset = buffer.writeInt32LE(z, offset);
+      offset = buffer.writeUInt16LE(id, offset);
+    }
+  }
+  return buffer;
+}
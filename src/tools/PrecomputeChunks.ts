@@ -2,9 +2,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as zlib from 'zlib';
+import { VoxelStore } from '../utils/VoxelStore';
+import { ChunkArray, ChunkBlockArray, ChunkIdWidth } from '../utils/ChunkArray';
+import { ChunkContainer } from '../core/ChunkContainer';
+import { ColliderBuilder } from '../utils/ColliderBuilder';
+import { ColliderBox, MapCompressionOptions } from '../types';
 
 interface BlockData {
   blocks: { [key: string]: number };
+  blockTypes?: any;
   bounds?: {
     min: { x: number; y: number; z: number };
     max: { x: number; y: number; z: number };
@@ -13,13 +19,15 @@ interface BlockData {
 
 interface ChunkData {
   origin: { x: number; y: number; z: number };
-  blocks: Uint8Array; // 16x16x16 = 4096 blocks
+  blocks: ChunkBlockArray; // 16x16x16 = 4096 blocks
 }
 
 interface PrecomputedWorld {
   version: number;
   chunkSize: number;
+  idWidth?: ChunkIdWidth; // 8 or 16 bit block IDs, 8 when absent
   chunks: ChunkData[];
+  colliders?: ColliderBox[]; // Merged block colliders for DirectChunkLoaderV3
   metadata: {
     totalBlocks: number;
     totalChunks: number;
@@ -34,80 +42,28 @@ interface PrecomputedWorld {
 
 export class PrecomputeChunks {
   private static readonly CHUNK_SIZE = 16;
-  private static readonly CHUNK_VOLUME = 16 * 16 * 16; // 4096
-
+  
   /**
    * Precompute chunks from a map JSON file
+   * optimization.colliders: false leaves the collider boxes out
    */
-  static async precomputeFromMapFile(mapPath: string, outputPath: string): Promise<void> {
+  static async precomputeFromMapFile(mapPath: string, outputPath: string, options: MapCompressionOptions = {}): Promise<void> {
     console.log(`Loading map from ${mapPath}...`);
     const startTime = Date.now();
     
     // Load the map data
     const mapData = JSON.parse(fs.readFileSync(mapPath, 'utf-8')) as BlockData;
-    const blockEntries = Object.entries(mapData.blocks);
-    console.log(`Loaded ${blockEntries.length} blocks`);
-    
-    // Calculate bounds
-    let minX = Infinity, minY = Infinity, minZ = Infinity;
-    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
-    
-    // Group blocks by chunk
-    const chunkMap = new Map<string, Map<string, number>>();
-    
-    for (const [coordStr, blockId] of blockEntries) {
-      const [x, y, z] = coordStr.split(',').map(Number);
-      
-      // Update bounds
-      minX = Math.min(minX, x);
-      minY = Math.min(minY, y);
-      minZ = Math.min(minZ, z);
-      maxX = Math.max(maxX, x);
-      maxY = Math.max(maxY, y);
-      maxZ = Math.max(maxZ, z);
-      
-      // Calculate chunk origin (floor to nearest 16)
-      const chunkX = Math.floor(x / 16) * 16;
-      const chunkY = Math.floor(y / 16) * 16;
-      const chunkZ = Math.floor(z / 16) * 16;
-      const chunkKey = `${chunkX},${chunkY},${chunkZ}`;
-      
-      // Calculate local coordinates within chunk
-      const localX = x & 15; // x % 16 but faster
-      const localY = y & 15;
-      const localZ = z & 15;
-      const localKey = `${localX},${localY},${localZ}`;
-      
-      // Add to chunk map
-      if (!chunkMap.has(chunkKey)) {
-        chunkMap.set(chunkKey, new Map());
-      }
-      chunkMap.get(chunkKey)!.set(localKey, blockId as number);
-    }
     
-    console.log(`Grouped into ${chunkMap.size} chunks`);
+    // Parse coordinates once into chunked typed arrays
+    const store = VoxelStore.fromDictionary(mapData.blocks);
+    console.log(`Loaded ${store.size} blocks`);
     
-    // Convert to chunk data format
-    const chunks: ChunkData[] = [];
+    const { minX, minY, minZ, maxX, maxY, maxZ } = store.bounds();
+    const chunks: ChunkData[] = store.toChunks();
+    const idWidth = chunks.length > 0 ? ChunkArray.widthOf(chunks[0].blocks) : 8;
+    const colliders = this.buildColliders(chunks, mapData.blockTypes, options);
     
-    for (const [chunkKey, blocks] of chunkMap) {
-      const [originX, originY, originZ] = chunkKey.split(',').map(Number);
-      
-      // Create chunk block array (16x16x16)
-      const blockArray = new Uint8Array(this.CHUNK_VOLUME);
-      
-      for (const [localKey, blockId] of blocks) {
-        const [x, y, z] = localKey.split(',').map(Number);
-        // Calculate index: x + (y << 4) + (z << 8)
-        const index = x + (y * 16) + (z * 256);
-        blockArray[index] = blockId;
-      }
-      
-      chunks.push({
-        origin: { x: originX, y: originY, z: originZ },
-        blocks: blockArray
-      });
-    }
+    console.log(`Grouped into ${chunks.length} chunks (${idWidth}-bit block IDs), ${colliders?.length ?? 'no'} colliders`);
     
     // Calculate source file hash
     const sourceHash = crypto.createHash('sha256')
@@ -119,9 +75,11 @@ export class PrecomputeChunks {
     const precomputedWorld: PrecomputedWorld = {
       version: 1,
       chunkSize: this.CHUNK_SIZE,
+      idWidth,
       chunks,
+      ...(colliders && { colliders }),
       metadata: {
-        totalBlocks: blockEntries.length,
+        totalBlocks: store.size,
         totalChunks: chunks.length,
         bounds: {
           min: { x: minX, y: minY, z: minZ },
@@ -151,7 +109,7 @@ export class PrecomputeChunks {
     
     console.log(`✅ Precomputed chunks saved to ${outputPath}`);
     console.log(`   Total chunks: ${chunks.length}`);
-    console.log(`   Total blocks: ${blockEntries.length}`);
+    console.log(`   Total blocks: ${store.size}`);
     console.log(`   Original size: ${(originalSize / 1024 / 1024).toFixed(2)} MB`);
     console.log(`   Compressed size: ${(compressedSize / 1024 / 1024).toFixed(2)} MB`);
     console.log(`   Compression ratio: ${compressionRatio}%`);
@@ -160,72 +118,25 @@ export class PrecomputeChunks {
   
   /**
    * Create binary chunk format (our custom format for ultra-fast loading)
+   * optimization.colliders: false leaves the collider section out
    */
-  static async createBinaryChunks(mapPath: string, outputPath: string): Promise<void> {
+  static async createBinaryChunks(mapPath: string, outputPath: string, options: MapCompressionOptions = {}): Promise<void> {
     console.log(`Creating binary chunks from ${mapPath}...`);
     const startTime = Date.now();
     
     // Load the map data
     const mapData = JSON.parse(fs.readFileSync(mapPath, 'utf-8')) as BlockData;
-    const blockEntries = Object.entries(mapData.blocks);
-    console.log(`Loaded ${blockEntries.length} blocks`);
+    const store = VoxelStore.fromDictionary(mapData.blocks);
+    console.log(`Loaded ${store.size} blocks`);
     
     // Group blocks by chunk
-    const chunkMap = new Map<string, Array<{x: number, y: number, z: number, id: number}>>();
-    
-    for (const [coordStr, blockId] of blockEntries) {
-      const [x, y, z] = coordStr.split(',').map(Number);
-      
-      // Calculate chunk coordinates
-      const chunkX = Math.floor(x / 16);
-      const chunkY = Math.floor(y / 16);
-      const chunkZ = Math.floor(z / 16);
-      const chunkKey = `${chunkX},${chunkY},${chunkZ}`;
-      
-      // Add to chunk
-      if (!chunkMap.has(chunkKey)) {
-        chunkMap.set(chunkKey, []);
-      }
-      chunkMap.get(chunkKey)!.push({ x, y, z, id: blockId as number });
-    }
-    
-    console.log(`Grouped into ${chunkMap.size} chunks`);
+    const chunkMap = new Map(store.chunks());
+    const colliders = this.buildColliders(store.toChunks(), mapData.blockTypes, options);
     
-    // Create binary format
-    const chunkBuffers: Buffer[] = [];
-    const header = Buffer.allocUnsafe(8);
-    header.writeUInt32LE(0x3142434d, 0); // "MCB1" little-endian
-    header.writeUInt32LE(chunkMap.size, 4);
-    chunkBuffers.push(header);
-    
-    for (const [chunkKey, blocks] of chunkMap) {
-      const [chunkX, chunkY, chunkZ] = chunkKey.split(',').map(Number);
-      
-      const chunkHeader = Buffer.allocUnsafe(16);
-      chunkHeader.writeInt32LE(chunkX, 0);
-      chunkHeader.writeInt32LE(chunkY, 4);
-      chunkHeader.writeInt32LE(chunkZ, 8);
-      chunkHeader.writeUInt32LE(blocks.length, 12);
-      chunkBuffers.push(chunkHeader);
-      
-      const buffer = Buffer.allocUnsafe(blocks.length * 14);
-      let offset = 0;
-      for (const block of blocks) {
-        buffer.writeInt32LE(block.x, offset);
-        offset += 4;
-        buffer.writeInt32LE(block.y, offset);
-        offset += 4;
-        buffer.writeInt32LE(block.z, offset);
-        offset += 4;
-        buffer.writeUInt16LE(block.id, offset);
-        offset += 2;
-      }
-      
-      chunkBuffers.push(buffer);
-    }
+    console.log(`Grouped into ${chunkMap.size} chunks, ${colliders?.length ?? 'no'} colliders`);
     
-    // Combine all chunks
-    const finalBuffer = Buffer.concat(chunkBuffers);
+    // Create binary format (MCB2, CRC32 per chunk, collider boxes at the end)
+    const finalBuffer = ChunkContainer.encode(chunkMap, colliders);
     
     // Save to file
     fs.writeFileSync(outputPath, finalBuffer);
@@ -233,18 +144,32 @@ export class PrecomputeChunks {
     const elapsedTime = Date.now() - startTime;
     console.log(`✅ Binary chunks saved to ${outputPath}`);
     console.log(`   Total chunks: ${chunkMap.size}`);
-    console.log(`   Total blocks: ${blockEntries.length}`);
+    console.log(`   Total blocks: ${store.size}`);
     console.log(`   File size: ${(finalBuffer.length / 1024).toFixed(2)} KB`);
     console.log(`   Time taken: ${elapsedTime}ms`);
   }
   
+  /**
+   * Merged collider boxes for the cache, unless turned off in the options
+   */
+  private static buildColliders(chunks: ChunkData[], blockTypes: any, options: MapCompressionOptions): ColliderBox[] | undefined {
+    if (options.optimization?.colliders === false) return undefined;
+    return ColliderBuilder.fromChunks(chunks, ColliderBuilder.solidFilter(blockTypes));
+  }
+  
   /**
    * Load precomputed chunks
    */
   static async loadPrecomputedChunks(filePath: string): Promise<PrecomputedWorld> {
     const compressed = fs.readFileSync(filePath);
     const decompressed = zlib.brotliDecompressSync(compressed);
-    return JSON.parse(decompressed.toString()) as PrecomputedWorld;
+    const precomputed = JSON.parse(decompressed.toString()) as PrecomputedWorld;
+    
+    // JSON turns typed arrays into index-keyed objects
+    for (const chunk of precomputed.chunks) {
+      chunk.blocks = ChunkArray.from(chunk.blocks, precomputed.idWidth);
+    }
+    return precomputed;
   }
   
   /**
@@ -1,3 +1,15 @@
+import type { Transform } from 'stream';
+import type { BlockSource, VoxelStore } from '../utils/VoxelStore';
+import type { ChunkBlockArray } from '../utils/ChunkArray';
+
+export type BlockEncoding = 'varint-delta' | 'palette' | 'columnar';
+
+export type PartitionMode = 'y-slabs' | 'columns';
+
+export type BlockIdRemapMode = 'none' | 'compact' | 'registry';
+
+export type EntityEncoding = 'json' | 'packed';
+
 export interface MapCompressionOptions {
   features?: {
     compression?: boolean;
@@ -7,11 +19,24 @@ export interface MapCompressionOptions {
   };
   
   compression?: {
-    algorithm?: 'brotli' | 'gzip' | 'none';
+    algorithm?: string;  // Codec name: brotli, gzip, deflate-raw, none or a registered codec
     level?: number; // 0-11
     chunkSize?: number;
     useDelta?: boolean;
     useVarint?: boolean;
+    blockEncoding?: BlockEncoding;  // Block stream layout
+    container?: 'hmc' | 'json';  // Cache file format written by autoLoad
+    parallel?: boolean;  // Compress spatial partitions in a worker_threads pool
+    workers?: number;  // Pool size, defaults to CPU count - 1 (0 = segment on the main thread)
+    partition?: PartitionMode;  // Y slabs or X/Z region columns
+    partitionSize?: number;  // Slab height / column width in blocks, rounded up to 16 (auto when unset)
+    spatialIndex?: boolean;  // Write segments + index for decompressRegion (64-block columns by default)
+    entityEncoding?: EntityEncoding;  // Entities as plain JSON or packed by EntityEncoder and compressed (default: packed)
+  };
+  
+  decompression?: {
+    parallel?: boolean;  // Decode segments of multi-segment files in a worker_threads pool
+    workers?: number;  // Pool size, defaults to CPU count - 1
   };
   
   optimization?: {
@@ -19,7 +44,8 @@ export interface MapCompressionOptions {
     monkeyPatch?: boolean;
     useChunks?: boolean;
     batchSize?: number;
-    preParseCoordinates?: boolean;
+    preParseCoordinates?: boolean;  // Parse "x,y,z" keys once into a VoxelStore before compressing / chunk loading
+    colliders?: boolean;  // Precompute merged block colliders and add them after chunk injection (default: true)
   };
   
   loading?: {
@@ -27,6 +53,23 @@ export interface MapCompressionOptions {
     batchSize?: number;
     parallelChunks?: number;
     cacheStrategy?: 'none' | 'memory' | 'disk';
+    streaming?: boolean;  // Place blocks while the compressed map is still decoding
+    syncBatchSize?: number;  // Direct injection: chunks inserted before their ADD_CHUNK events are sent together (default: 64)
+    verifySync?: boolean;  // Check after direct injection that clients can get every chunk (default: true)
+    onChunkSync?: (report: ChunkSyncReport) => void;  // Called with the result of that check
+  };
+  
+  blockIds?: {
+    remap?: BlockIdRemapMode;  // Renumber block IDs on load: compact to 1..n or match the world's registry
+    matchBy?: Array<'name' | 'textureUri'>;  // Registry matching order (default: name, then textureUri)
+    entityFields?: string[];  // Entity fields holding block IDs (default: blockId, blockTypeId)
+  };
+  
+  validation?: {
+    beforeCompress?: boolean;  // Validate map data in compress() and throw on errors
+    onAutoLoad?: boolean;  // Validate the map file before autoLoad builds its caches
+    strict?: boolean;  // Treat warnings as errors
+    maxSamples?: number;  // Offending keys listed per issue (default: 10)
   };
   
   performance?: {
@@ -48,6 +91,10 @@ export interface MapCompressionOptions {
     useHashInFilename?: boolean;  // Add hash to compressed filename
     compressionOnly?: boolean;  // Only use compression, no loading optimizations
   };
+  watch?: {
+    debounceMs?: number;  // Wait for saves to settle before reloading (default: 300)
+    regenerateCaches?: boolean;  // Rewrite compressed and chunk caches on every reload (default: true)
+  };
   debug?: boolean;
   metrics?: boolean;
   logger?: (msg: string) => void;
@@ -74,17 +121,128 @@ export interface CompressionResult {
     maxY: number;
     maxZ: number;
   };
+  options?: CompressedMapData['options'];
+  segments?: CompressedSegment[];
+  fields?: MapFields;  // Extra top-level map fields, restored on decompress
+  entityData?: string;  // Packed, compressed entities (base64) when entityEncoding is 'packed'
+  algorithm: string;  // Codec the blocks and packed entities were compressed with
   version: string;
 }
 
+export type MapFields = { [field: string]: any };  // Top-level MapData fields besides blocks, blockTypes, entities and version
+
 export interface DecompressionResult {
   blocks: { [key: string]: number };
   blockTypes: { [key: string]: number };
   entities?: any;
   version?: string;
+  fields?: MapFields;
   metadata?: {
     decompressionTime: number;
     blockCount: number;
+    segmentsDecoded?: number;  // Region queries only
+  };
+}
+
+export interface DecodedBlock {
+  x: number;
+  y: number;
+  z: number;
+  id: number;
+}
+
+export interface DecodedChunk {
+  origin: { x: number; y: number; z: number };
+  blocks: ChunkBlockArray; // 16x16x16, index = x + (y << 4) + (z << 8); Uint16Array when IDs exceed 255
+}
+
+/**
+ * Box of solid blocks of one type, greedy-merged within a chunk
+ * The block at (x, y, z) fills x..x+1, y..y+1, z..z+1.
+ */
+export interface ColliderBox {
+  x: number; // Minimum block coordinate
+  y: number;
+  z: number;
+  width: number;  // Blocks along X (1-16)
+  height: number; // Blocks along Y
+  depth: number;  // Blocks along Z
+  id: number;     // Block type
+}
+
+export interface CompressedSegment {
+  bounds: {
+    minX: number;
+    minY: number;
+    minZ: number;
+    maxX: number;
+    maxY: number;
+    maxZ: number;
+  }; // Tight bounds of the blocks in this segment
+  blockCount: number;
+  offset: number; // Byte offset into the raw (non-base64) data
+  length: number;
+  checksum?: number; // CRC32 of this segment's bytes
+}
+
+export interface RecordPatch {
+  set?: { [key: string]: any };
+  removed?: string[];
+  replace?: any; // Whole new value when either side is not a plain object
+}
+
+export interface MapPatch {
+  version: string;
+  algorithm: string;
+  baseHash: string; // Content hash of the map the patch applies to
+  targetHash: string; // Content hash of the patched map
+  data: string; // Base64 Varint + Delta + codec stream of changed blocks (id -1 = removed)
+  bounds: {
+    minX: number;
+    minY: number;
+    minZ: number;
+  }; // Origin of the delta stream
+  blockTypes?: RecordPatch;
+  entities?: RecordPatch;
+  fields?: RecordPatch; // Extra top-level map fields
+  mapVersion?: string;
+  metadata: {
+    added: number;
+    removed: number;
+    changed: number;
+    patchSize: number;
+  };
+}
+
+export interface Codec {
+  compress(data: Buffer, level: number): Buffer | Promise<Buffer>;
+  decompress(data: Buffer): Buffer | Promise<Buffer>;
+  createDecompressStream?(): Transform; // Optional, whole-buffer fallback otherwise
+}
+
+export interface ChunkDecompressionResult {
+  chunks: DecodedChunk[]; // Views into SharedArrayBuffers, one buffer per segment
+  blockTypes: { [key: string]: number };
+  entities?: any;
+  version?: string;
+  fields?: MapFields;
+  metadata: {
+    decompressionTime: number;
+    blockCount: number;
+    chunkCount: number;
+  };
+}
+
+export interface VoxelDecompressionResult {
+  blocks: VoxelStore;
+  blockTypes: { [key: string]: number };
+  entities?: any;
+  version?: string;
+  fields?: MapFields;
+  metadata: {
+    decompressionTime: number;
+    blockCount: number;
+    chunkCount: number;
   };
 }
 
@@ -100,16 +258,17 @@ export interface PerformanceMetrics {
 }
 
 export interface MapData {
-  blocks: { [key: string]: number };
-  blockTypes?: { [key: string]: number };
+  blocks: BlockSource;  // "x,y,z" dictionary or a VoxelStore
+  blockTypes?: any;  // Array or record of block type definitions, kept with every property
   entities?: any;
   version?: string;
+  [field: string]: any;  // Any other top-level field (spawn points, skybox, ...) is carried along as is
 }
 
 export interface CompressedMapData {
   version: string;
   algorithm: string;
-  data: string; // Base64 encoded
+  data: string | Buffer; // Base64 encoded (JSON) or raw bytes (.hmc container)
   blockTypes: any; // Can be array or object
   bounds: {
     minX: number;
@@ -120,6 +279,8 @@ export interface CompressedMapData {
     maxZ: number;
   };
   entities?: any;
+  entityData?: string | Buffer;  // EntityEncoder output compressed like data; replaces entities when present
+  fields?: MapFields;  // Extra top-level MapData fields
   mapVersion?: string;
   metadata?: {
     originalSize: number;
@@ -130,6 +291,197 @@ export interface CompressedMapData {
   options?: {
     useDelta?: boolean;
     useVarint?: boolean;
+    blockEncoding?: BlockEncoding;  // Defaults to 'varint-delta' when absent
+    partition?: PartitionMode;  // Set when data is split into segments
   };
+  segments?: CompressedSegment[];  // Independently compressed parts of data, in order
   sourceHash?: string;  // Hash of original map file
+  pluginVersion?: string;
+  checksums?: { [section: string]: number };  // CRC32 per section (JSON format; .hmc keeps them in its section table)
+}
+
+export interface MapFormatInfo {
+  format: 'hmc' | 'json' | 'hyfire8-v2' | 'unknown';
+  containerVersion?: number; // .hmc only
+  current: boolean; // Nothing to migrate
+  reasons: string[]; // Why the file is not current
+}
+
+export interface MigrationResult {
+  migrated: boolean;
+  from: MapFormatInfo;
+  data: CompressedMapData; // Current-format map (the input itself when already current)
+  path?: string; // File rewritten in place
+}
+
+export interface ValidationIssue {
+  code: string; // e.g. 'malformed-coordinates', 'unknown-block-type'
+  message: string;
+  count: number; // Blocks, block types or distinct block IDs affected
+  keys: string[]; // First offending keys, up to maxSamples
+}
+
+export interface ValidationResult {
+  valid: boolean; // No errors (no warnings either, in strict mode)
+  blockCount: number;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface MapReloadResult {
+  path: string;
+  hash: string; // Source hash of the map now in the world
+  full: boolean; // Whole map reloaded because the world cannot set single blocks
+  chunks: Array<{ x: number; y: number; z: number }>; // Origins of chunks with changed blocks
+  added: number;
+  removed: number;
+  changed: number;
+  entitiesChanged: boolean;
+  caches: string[]; // Cache files written for the new version
+  timeMs: number;
+}
+
+export interface EntityChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+} // Entity keys (or list indexes)
+
+export interface DiffLoadResult {
+  chunks: Array<{ x: number; y: number; z: number }>; // Origins of chunks with changed blocks
+  added: number;
+  removed: number;
+  changed: number;
+  unchangedChunks: number;
+  entities: EntityChanges;
+  entitiesSynced: boolean; // Entity changes were spawned / despawned through the SDK (false: only world.entities was replaced)
+  timeMs: number;
+}
+
+export type WorldCapability =
+  | 'loadMap'            // world.loadMap()
+  | 'setBlock'           // Single block placement that clients are told about
+  | 'readChunks'         // Iterate the chunks currently loaded
+  | 'injectChunks'       // Place whole 16³ chunks without setBlock
+  | 'chunkEvents'        // Announce injected chunks to connected clients (ADD_CHUNK)
+  | 'chunkStorage'       // Older worlds: world._chunks / world.chunks with getOrCreate()
+  | 'registerBlockTypes' // blockTypeRegistry.registerGenericBlockType()
+  | 'listBlockTypes'     // Read the block types already registered
+  | 'colliders'          // Add block colliders to world.simulation (hytopia Collider class)
+  | 'entities';          // Spawn and despawn map entities (hytopia Entity class)
+
+export type WorldCapabilities = Record<WorldCapability, boolean>;
+
+export interface WorldCapabilityReport {
+  adapter: string;           // Name of the adapter picked for the world
+  sdkVersion: string | null; // Installed hytopia package version, if it can be read
+  capabilities: WorldCapabilities;
+  found: WorldCapability[];
+  missing: WorldCapability[];
+}
+
+export interface WorldChunk {
+  origin: { x: number; y: number; z: number };
+  blocks: ArrayLike<number> | null; // Dense 16³ IDs, null when only getBlockId() is available
+  source: any;                      // The SDK's chunk object
+}
+
+/**
+ * Everything the loaders need from a Hytopia world
+ * Operations whose capability is missing throw instead of failing silently.
+ */
+export interface WorldAdapter {
+  readonly name: string;
+  readonly world: any;
+  readonly capabilities: WorldCapabilities;
+  report(): WorldCapabilityReport;
+  loadMap(mapData: any): Promise<void>;
+  replaceLoadMap(loadMap: (mapData: any) => any): (mapData: any) => any; // Returns the previous loadMap
+  setBlock(coordinate: { x: number; y: number; z: number }, id: number): void;
+  getChunks(): WorldChunk[];
+  clearChunks(): void;
+  injectChunk(origin: { x: number; y: number; z: number }, blocks: ChunkBlockArray): number; // Non-air blocks injected; clients are told by announceChunks()
+  announceChunks(origins: Array<{ x: number; y: number; z: number }>): number; // ADD_CHUNK events emitted
+  addColliders(boxes: ColliderBox[]): number; // Colliders added; clearChunks() removes them again
+  replaceColliders(origin: { x: number; y: number; z: number }, boxes: ColliderBox[]): number; // One chunk's colliders swapped for boxes
+  isInjected(origin: { x: number; y: number; z: number }): boolean; // Chunk placed by injectChunk() since the last clearChunks()
+  getChunkStorage(): any;
+  registerBlockType(definition: any): void;
+  getBlockTypes(): any[];
+  getEntities(): any;
+  setEntities(entities: any): void;
+  updateEntities(before: any, after: any, changes: EntityChanges): number; // Entities spawned or despawned
+}
+
+export interface WorldAdapterFactory {
+  name: string;
+  matches(world: any): boolean; // Whether the adapter fits this world (SDK version)
+  create(world: any): WorldAdapter;
+}
+
+export interface VerifySection {
+  name: string; // e.g. 'blocks', 'segment 3', 'chunk 2,0,-1'
+  offset?: number;
+  length?: number;
+  expected?: string; // CRC32 as hex
+  actual?: string;
+  valid: boolean;
+  error?: string;
+}
+
+export interface VerifyResult {
+  valid: boolean;
+  format: 'hmc' | 'compressed-json' | 'chunks-binary' | 'chunks-json' | 'unknown';
+  checksummed: boolean; // False for files written before checksums (HMC v1, MCB1, JSON without checksums)
+  sections: VerifySection[];
+  errors: string[]; // One line per bad section
+}
+
+export type LoaderStrategy =
+  | 'default'            // FastLoader → world.loadMap
+  | 'monkeypatch'        // Patched world.loadMap decompresses first
+  | 'chunks'             // DirectChunkLoader, setBlock per block
+  | 'chunks-direct'      // DirectChunkLoader writing through world._chunks
+  | 'hybrid'             // FastLoader.loadHybrid
+  | 'streaming'          // Blocks placed while the block stream decodes
+  | 'precomputed'        // DirectChunkLoaderV3 with an MCB2 chunk cache, as autoLoad does
+  | 'precomputed-legacy'; // DirectChunkLoaderV3 with the legacy headerless binary chunk format
+
+export interface BlockDifference {
+  x: number;
+  y: number;
+  z: number;
+  expected: number; // Block ID in the map (0 = air)
+  actual: number;   // Block ID the strategy left in the world
+}
+
+export interface StrategyConformance {
+  strategy: LoaderStrategy;
+  matches: boolean;
+  blockCount: number;   // Non-air blocks in the world after loading
+  differences: number;  // Coordinates where the world disagrees with the map
+  samples: BlockDifference[]; // First differences, up to maxSamples
+  error?: string;       // The strategy threw
+  timeMs: number;
+}
+
+export interface ConformanceReport {
+  conforms: boolean; // Every strategy produced exactly the map's blocks
+  blockCount: number; // Non-air blocks in the map
+  strategies: StrategyConformance[];
+}
+
+export interface ChunkSyncIssue {
+  origin: { x: number; y: number; z: number };
+  problem: 'not-listed'        // Missing from the lattice's chunks, so joining players never get it
+    | 'not-announced'          // No ADD_CHUNK event, so connected players never get it
+    | 'not-serializable';      // No 16³ block array or a wrong origin for the network serializer
+}
+
+export interface ChunkSyncReport {
+  synced: boolean;   // Every injected chunk is listed, announced and serializable
+  chunks: number;    // Chunks injected by the last direct load
+  announced: number; // ADD_CHUNK events emitted for them
+  batches: number;   // Event batches
+  issues: ChunkSyncIssue[];
 }
@@ -0,0 +1,50 @@
+import { WorldAdapters } from '../adapters/WorldAdapters';
+
+/**
+ * Registers map block types with the world's blockTypeRegistry
+ * The whole definition is passed on (custom colliders, multi-face textures,
+ * light levels, ...); only a missing name, texture or liquid flag is filled in.
+ */
+export class BlockTypeRegistrar {
+  static readonly DEFAULT_TEXTURE_URI = 'blocks/stone.png';
+  
+  /**
+   * Block type definitions of an array or record, skipping entries without a numeric id
+   */
+  static list(blockTypes: any): any[] {
+    if (!blockTypes || typeof blockTypes !== 'object') return [];
+    const list = Array.isArray(blockTypes) ? blockTypes : Object.values(blockTypes);
+    return list.filter(blockType => blockType && typeof blockType.id === 'number');
+  }
+  
+  /**
+   * Options for registerGenericBlockType: every property of the block type plus defaults
+   */
+  static definition(blockType: any): any {
+    return {
+      ...blockType,
+      isLiquid: blockType.isLiquid || false,
+      name: blockType.name || `block_${blockType.id}`,
+      textureUri: blockType.textureUri || this.DEFAULT_TEXTURE_URI
+    };
+  }
+  
+  /**
+   * Register block types with a world or WorldAdapter, returning how many were accepted
+   */
+  static register(world: any, blockTypes: any): number {
+    const adapter = WorldAdapters.detect(world);
+    if (!adapter.capabilities.registerBlockTypes) return 0;
+    
+    let registered = 0;
+    for (const blockType of this.list(blockTypes)) {
+      try {
+        adapter.registerBlockType(this.definition(blockType));
+        registered++;
+      } catch {
+        // Already registered or rejected by the registry, skip
+      }
+    }
+    return registered;
+  }
+}
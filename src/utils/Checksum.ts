@@ -0,0 +1,39 @@
+/**
+ * CRC32 (IEEE, as used by zlib and PNG) for cache and container sections
+ */
+export class Checksum {
+  private static table: Uint32Array | null = null;
+  
+  /**
+   * CRC32 of data, optionally continuing from a previous CRC
+   */
+  static crc32(data: Uint8Array, previous: number = 0): number {
+    const table = this.getTable();
+    let crc = (previous ^ 0xffffffff) >>> 0;
+    for (let i = 0; i < data.length; i++) {
+      crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+  
+  /**
+   * CRC32 as an 8-digit hex string, for reports and logs
+   */
+  static toHex(crc: number): string {
+    return (crc >>> 0).toString(16).padStart(8, '0');
+  }
+  
+  private static getTable(): Uint32Array {
+    if (!this.table) {
+      this.table = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        this.table[n] = c >>> 0;
+      }
+    }
+    return this.table;
+  }
+}
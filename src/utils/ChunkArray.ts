@@ -0,0 +1,98 @@
+/**
+ * Dense 16³ chunk block arrays, index = x + (y << 4) + (z << 8), 0 = air
+ */
+export type ChunkBlockArray = Uint8Array | Uint16Array;
+
+export type ChunkIdWidth = 8 | 16;
+
+/**
+ * Helpers for 8- and 16-bit chunk block arrays
+ * Chunks use Uint8Array while every ID fits and Uint16Array otherwise. IDs that
+ * do not fit in 16 bits are refused instead of being truncated.
+ */
+export class ChunkArray {
+  static readonly VOLUME = 4096;
+  static readonly MAX_ID = 0xffff;
+  
+  /**
+   * Narrowest width that holds maxId
+   */
+  static widthFor(maxId: number): ChunkIdWidth {
+    if (maxId > this.MAX_ID) {
+      throw new Error(`Block ID ${maxId} does not fit in 16-bit chunk storage (max ${this.MAX_ID})`);
+    }
+    return maxId > 0xff ? 16 : 8;
+  }
+  
+  /**
+   * Width of an existing chunk array
+   */
+  static widthOf(array: ChunkBlockArray): ChunkIdWidth {
+    return array instanceof Uint16Array ? 16 : 8;
+  }
+  
+  /**
+   * Allocate count consecutive chunks, optionally in a SharedArrayBuffer
+   */
+  static allocate(width: ChunkIdWidth, count: number = 1, shared: boolean = false): ChunkBlockArray {
+    const bytes = count * this.VOLUME * (width / 8);
+    const buffer = shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+    return width === 16 ? new Uint16Array(buffer) : new Uint8Array(buffer);
+  }
+  
+  /**
+   * Copy an array into 16-bit storage if id does not fit its current width
+   */
+  static widen(array: ChunkBlockArray, id: number): ChunkBlockArray {
+    if (id > this.MAX_ID || id < 0) {
+      throw new Error(`Block ID ${id} does not fit in 16-bit chunk storage (max ${this.MAX_ID})`);
+    }
+    return id > 0xff && array instanceof Uint8Array ? Uint16Array.from(array) : array;
+  }
+  
+  /**
+   * Typed chunk array from loaded chunk data
+   * Accepts typed arrays, plain arrays and the index-keyed objects JSON.stringify
+   * makes of typed arrays. The declared width is used when every ID fits it;
+   * wider IDs are kept (with a warning) and IDs above 16 bits throw.
+   */
+  static from(values: any, declaredWidth?: ChunkIdWidth): ChunkBlockArray {
+    if ((values instanceof Uint8Array && declaredWidth !== 16) ||
+      (values instanceof Uint16Array && declaredWidth !== 8)) {
+      return values;
+    }
+    
+    const ids = new Float64Array(this.VOLUME);
+    let maxId = 0;
+    for (let i = 0; i < this.VOLUME; i++) {
+      const id = Number(values?.[i] || 0);
+      if (!Number.isInteger(id) || id < 0) {
+        throw new Error(`Invalid block ID ${values[i]} at chunk index ${i}`);
+      }
+      ids[i] = id;
+      if (id > maxId) maxId = id;
+    }
+    
+    let width = this.widthFor(maxId);
+    if (declaredWidth && declaredWidth > width) {
+      width = declaredWidth;
+    } else if (declaredWidth && declaredWidth < width) {
+      console.warn(`[ChunkArray] Chunk declared ${declaredWidth}-bit holds block ID ${maxId}, loading as ${width}-bit`);
+    }
+    
+    const array = this.allocate(width);
+    array.set(ids);
+    return array;
+  }
+  
+  /**
+   * Largest block ID in a chunk array
+   */
+  static maxId(array: ArrayLike<number>): number {
+    let maxId = 0;
+    for (let i = 0; i < array.length; i++) {
+      if (array[i] > maxId) maxId = array[i];
+    }
+    return maxId;
+  }
+}
@@ -0,0 +1,93 @@
+import { ColliderBox, DecodedChunk } from '../types';
+import { BlockTypeRegistrar } from './BlockTypeRegistrar';
+import { ChunkArray } from './ChunkArray';
+
+/**
+ * Greedy merging of solid blocks into collider boxes
+ * Each chunk is covered by the fewest boxes the greedy pass finds: runs along
+ * X, grown into rectangles along Y, grown into boxes along Z. Boxes never mix
+ * block types and never cross a chunk, so one chunk's boxes can be rebuilt
+ * without touching its neighbours.
+ */
+export class ColliderBuilder {
+  /**
+   * Which block IDs collide: everything but air and liquid block types
+   */
+  static solidFilter(blockTypes?: any): (id: number) => boolean {
+    const liquids = new Set<number>();
+    for (const blockType of BlockTypeRegistrar.list(blockTypes)) {
+      if (blockType.isLiquid) liquids.add(blockType.id);
+    }
+    return id => id !== 0 && !liquids.has(id);
+  }
+  
+  /**
+   * Boxes for every chunk
+   */
+  static fromChunks(chunks: Iterable<DecodedChunk>, isSolid: (id: number) => boolean = id => id !== 0): ColliderBox[] {
+    const boxes: ColliderBox[] = [];
+    for (const chunk of chunks) {
+      for (const box of this.fromChunk(chunk.origin, chunk.blocks, isSolid)) {
+        boxes.push(box);
+      }
+    }
+    return boxes;
+  }
+  
+  /**
+   * Boxes covering the solid blocks of one 16³ chunk, each block exactly once
+   */
+  static fromChunk(origin: { x: number; y: number; z: number }, blocks: ArrayLike<number>, isSolid: (id: number) => boolean = id => id !== 0): ColliderBox[] {
+    const boxes: ColliderBox[] = [];
+    const covered = new Uint8Array(ChunkArray.VOLUME);
+    
+    for (let z = 0; z < 16; z++) {
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++) {
+          const start = x + (y << 4) + (z << 8);
+          const id = blocks[start];
+          if (covered[start] || !isSolid(id)) continue;
+          
+          // Free cells of this block type, in a row of `width` from index i
+          const rowFree = (i: number, width: number) => {
+            for (let dx = 0; dx < width; dx++) {
+              if (covered[i + dx] || blocks[i + dx] !== id) return false;
+            }
+            return true;
+          };
+          
+          let width = 1;
+          while (x + width < 16 && rowFree(start + width, 1)) width++;
+          
+          let height = 1;
+          while (y + height < 16 && rowFree(start + (height << 4), width)) height++;
+          
+          let depth = 1;
+          while (z + depth < 16) {
+            let free = true;
+            for (let dy = 0; dy < height && free; dy++) {
+              free = rowFree(start + (depth << 8) + (dy << 4), width);
+            }
+            if (!free) break;
+            depth++;
+          }
+          
+          for (let dz = 0; dz < depth; dz++) {
+            for (let dy = 0; dy < height; dy++) {
+              covered.fill(1, start + (dz << 8) + (dy << 4), start + (dz << 8) + (dy << 4) + width);
+            }
+          }
+          boxes.push({ x: origin.x + x, y: origin.y + y, z: origin.z + z, width, height, depth, id });
+        }
+      }
+    }
+    return boxes;
+  }
+  
+  /**
+   * Number of blocks the boxes cover
+   */
+  static volume(boxes: ColliderBox[]): number {
+    return boxes.reduce((sum, box) => sum + box.width * box.height * box.depth, 0);
+  }
+}
@@ -62,11 +62,15 @@ export class ConfigLoader {
     return {
       features: config.features,
       compression: config.compression,
+      decompression: config.decompression,
       optimization: config.optimization,
       loading: config.loading,
+      blockIds: config.blockIds,
+      validation: config.validation,
       performance: config.performance,
       paths: config.paths,
       autoLoad: config.autoLoad,
+      watch: config.watch,
       debug: config.logging?.enabled || false,
       metrics: config.logging?.metrics ?? true,
       logger: config.logging?.enabled ? console.log : undefined
@@ -97,11 +101,15 @@ export class ConfigLoader {
     const config = {
       features: options.features,
       compression: options.compression,
+      decompression: options.decompression,
       optimization: options.optimization,
       loading: options.loading,
+      blockIds: options.blockIds,
+      validation: options.validation,
       performance: options.performance,
       paths: options.paths,
       autoLoad: options.autoLoad,
+      watch: options.watch,
       logging: {
         enabled: options.debug || false,
         metrics: options.metrics ?? true,
@@ -0,0 +1,296 @@
+import { DecodedBlock, DecodedChunk } from '../types';
+import { ChunkArray } from './ChunkArray';
+
+/**
+ * Blocks as either the legacy "x,y,z" dictionary or a VoxelStore
+ */
+export type BlockSource = { [key: string]: number } | VoxelStore;
+
+interface VoxelChunk {
+  x: number; // Chunk origin in blocks
+  y: number;
+  z: number;
+  cells: Uint16Array | Uint32Array; // Block ID + 1 per cell, 0 = empty
+  count: number;
+}
+
+/**
+ * Block storage in 16³ chunks of typed arrays
+ * Cells use Uint16 and a chunk is promoted to Uint32 the first time it holds an
+ * ID above 65534. Coordinates never go through string keys, and forEach visits
+ * blocks chunk by chunk in x + (y << 4) + (z << 8) order.
+ */
+export class VoxelStore {
+  static readonly CHUNK_SIZE = 16;
+  static readonly CHUNK_VOLUME = 4096;
+  private static readonly KEY_OFFSET = 65536; // Chunk coordinates pack into 17 bits each
+  private static readonly UINT16_MAX_ID = 65534;
+  
+  private chunkMap = new Map<number, VoxelChunk>();
+  private blockCount = 0;
+  private cachedBounds: { minX: number; minY: number; minZ: number; maxX: number; maxY: number; maxZ: number } | null = null;
+  
+  /**
+   * Build a store from a legacy "x,y,z" block dictionary
+   * Throws on keys that are not three comma-separated integers
+   */
+  static fromDictionary(blocks: { [key: string]: number }): VoxelStore {
+    const store = new VoxelStore();
+    for (const key in blocks) {
+      const parts = key.split(',');
+      if (parts.length !== 3 || parts.some(part => part.trim() === '')) {
+        throw new Error(`Malformed block key "${key}" (expected "x,y,z")`);
+      }
+      const [x, y, z] = parts.map(Number);
+      store.set(x, y, z, blocks[key]);
+    }
+    return store;
+  }
+  
+  /**
+   * Build a store from a flat [x, y, z, id, ...] array
+   */
+  static fromFlat(flat: Int32Array): VoxelStore {
+    const store = new VoxelStore();
+    for (let i = 0; i < flat.length; i += 4) {
+      store.set(flat[i], flat[i + 1], flat[i + 2], flat[i + 3]);
+    }
+    return store;
+  }
+  
+  static isVoxelStore(value: any): value is VoxelStore {
+    return value instanceof VoxelStore;
+  }
+  
+  /**
+   * Use a store as is, or parse the coordinates of a dictionary once
+   */
+  static from(blocks: BlockSource): VoxelStore {
+    return this.isVoxelStore(blocks) ? blocks : this.fromDictionary(blocks || {});
+  }
+  
+  /**
+   * Legacy dictionary view of either block format
+   */
+  static toDictionary(blocks: BlockSource): { [key: string]: number } {
+    return this.isVoxelStore(blocks) ? blocks.toDictionary() : blocks || {};
+  }
+  
+  /**
+   * Number of blocks in either block format
+   */
+  static count(blocks: BlockSource): number {
+    return this.isVoxelStore(blocks) ? blocks.size : Object.keys(blocks || {}).length;
+  }
+  
+  /**
+   * Visit every block of either format with numeric coordinates
+   */
+  static forEachBlock(blocks: BlockSource, callback: (x: number, y: number, z: number, id: number) => void): void {
+    if (this.isVoxelStore(blocks)) {
+      blocks.forEach(callback);
+      return;
+    }
+    for (const key in blocks) {
+      const [x, y, z] = key.split(',').map(Number);
+      callback(x, y, z, blocks[key]);
+    }
+  }
+  
+  get size(): number {
+    return this.blockCount;
+  }
+  
+  get chunkCount(): number {
+    return this.chunkMap.size;
+  }
+  
+  get(x: number, y: number, z: number): number | undefined {
+    const chunk = this.chunkMap.get(this.chunkKey(x, y, z));
+    const value = chunk ? chunk.cells[this.cellIndex(x, y, z)] : 0;
+    return value === 0 ? undefined : value - 1;
+  }
+  
+  has(x: number, y: number, z: number): boolean {
+    return this.get(x, y, z) !== undefined;
+  }
+  
+  set(x: number, y: number, z: number, id: number): this {
+    if (!Number.isInteger(x) || !Number.isInteger(y) || !Number.isInteger(z)) {
+      throw new Error(`Invalid coordinates (${x}, ${y}, ${z}) for block ${id}: expected integers`);
+    }
+    if (!Number.isInteger(id) || id < 0 || id > 0xfffffffe) {
+      throw new Error(`Invalid block ID ${id} at (${x}, ${y}, ${z})`);
+    }
+    
+    const key = this.chunkKey(x, y, z);
+    let chunk = this.chunkMap.get(key);
+    if (!chunk) {
+      chunk = { x: x & ~15, y: y & ~15, z: z & ~15, cells: new Uint16Array(VoxelStore.CHUNK_VOLUME), count: 0 };
+      this.chunkMap.set(key, chunk);
+    }
+    if (id > VoxelStore.UINT16_MAX_ID && chunk.cells instanceof Uint16Array) {
+      chunk.cells = Uint32Array.from(chunk.cells);
+    }
+    
+    const index = this.cellIndex(x, y, z);
+    if (chunk.cells[index] === 0) {
+      chunk.count++;
+      this.blockCount++;
+      this.cachedBounds = null;
+    }
+    chunk.cells[index] = id + 1;
+    return this;
+  }
+  
+  delete(x: number, y: number, z: number): boolean {
+    const key = this.chunkKey(x, y, z);
+    const chunk = this.chunkMap.get(key);
+    const index = this.cellIndex(x, y, z);
+    if (!chunk || chunk.cells[index] === 0) {
+      return false;
+    }
+    
+    chunk.cells[index] = 0;
+    this.blockCount--;
+    this.cachedBounds = null;
+    if (--chunk.count === 0) {
+      this.chunkMap.delete(key);
+    }
+    return true;
+  }
+  
+  clear(): void {
+    this.chunkMap.clear();
+    this.blockCount = 0;
+    this.cachedBounds = null;
+  }
+  
+  /**
+   * Visit every block, chunk by chunk
+   */
+  forEach(callback: (x: number, y: number, z: number, id: number) => void): void {
+    for (const chunk of this.chunkMap.values()) {
+      const cells = chunk.cells;
+      let remaining = chunk.count;
+      for (let i = 0; i < VoxelStore.CHUNK_VOLUME && remaining > 0; i++) {
+        if (cells[i] === 0) continue;
+        callback(chunk.x + (i & 15), chunk.y + ((i >> 4) & 15), chunk.z + (i >> 8), cells[i] - 1);
+        remaining--;
+      }
+    }
+  }
+  
+  /**
+   * Blocks grouped per chunk, keyed by chunk coordinates ("cx,cy,cz")
+   */
+  *chunks(): IterableIterator<[string, DecodedBlock[]]> {
+    for (const chunk of this.chunkMap.values()) {
+      const blocks: DecodedBlock[] = [];
+      for (let i = 0; i < VoxelStore.CHUNK_VOLUME && blocks.length < chunk.count; i++) {
+        if (chunk.cells[i] === 0) continue;
+        blocks.push({ x: chunk.x + (i & 15), y: chunk.y + ((i >> 4) & 15), z: chunk.z + (i >> 8), id: chunk.cells[i] - 1 });
+      }
+      yield [`${chunk.x >> 4},${chunk.y >> 4},${chunk.z >> 4}`, blocks];
+    }
+  }
+  
+  /**
+   * Tight bounds of all blocks (Infinity / -Infinity when empty)
+   */
+  bounds(): { minX: number; minY: number; minZ: number; maxX: number; maxY: number; maxZ: number } {
+    if (this.cachedBounds) {
+      return { ...this.cachedBounds };
+    }
+    
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    for (const chunk of this.chunkMap.values()) {
+      // Only chunks on the current edge can move the bounds
+      if (chunk.x > minX && chunk.x + 15 < maxX &&
+        chunk.y > minY && chunk.y + 15 < maxY &&
+        chunk.z > minZ && chunk.z + 15 < maxZ) {
+        continue;
+      }
+      for (let i = 0; i < VoxelStore.CHUNK_VOLUME; i++) {
+        if (chunk.cells[i] === 0) continue;
+        const x = chunk.x + (i & 15), y = chunk.y + ((i >> 4) & 15), z = chunk.z + (i >> 8);
+        if (x < minX) minX = x;
+        if (y < minY) minY = y;
+        if (z < minZ) minZ = z;
+        if (x > maxX) maxX = x;
+        if (y > maxY) maxY = y;
+        if (z > maxZ) maxZ = z;
+      }
+    }
+    
+    this.cachedBounds = { minX, minY, minZ, maxX, maxY, maxZ };
+    return { ...this.cachedBounds };
+  }
+  
+  /**
+   * Flat [x, y, z, id, ...] array, chunk by chunk
+   */
+  toFlat(): Int32Array {
+    const flat = new Int32Array(this.blockCount * 4);
+    let offset = 0;
+    this.forEach((x, y, z, id) => {
+      flat[offset++] = x;
+      flat[offset++] = y;
+      flat[offset++] = z;
+      flat[offset++] = id;
+    });
+    return flat;
+  }
+  
+  /**
+   * Dense 16³ chunk arrays, index = x + (y << 4) + (z << 8), 0 = empty
+   * Uint8Array when every ID fits, Uint16Array otherwise; throws above 65535
+   */
+  toChunks(): DecodedChunk[] {
+    let maxId = 0;
+    this.forEach((_x, _y, _z, id) => {
+      if (id > maxId) maxId = id;
+    });
+    const width = ChunkArray.widthFor(maxId);
+    
+    const chunks: DecodedChunk[] = [];
+    for (const chunk of this.chunkMap.values()) {
+      const blocks = ChunkArray.allocate(width);
+      for (let i = 0; i < VoxelStore.CHUNK_VOLUME; i++) {
+        if (chunk.cells[i] !== 0) blocks[i] = chunk.cells[i] - 1;
+      }
+      chunks.push({ origin: { x: chunk.x, y: chunk.y, z: chunk.z }, blocks });
+    }
+    return chunks;
+  }
+  
+  toDictionary(): { [key: string]: number } {
+    const blocks: { [key: string]: number } = {};
+    this.forEach((x, y, z, id) => {
+      blocks[`${x},${y},${z}`] = id;
+    });
+    return blocks;
+  }
+  
+  /**
+   * Serialize in the legacy dictionary format, so JSON map files stay unchanged
+   */
+  toJSON(): { [key: string]: number } {
+    return this.toDictionary();
+  }
+  
+  private chunkKey(x: number, y: number, z: number): number {
+    const cx = (x >> 4) + VoxelStore.KEY_OFFSET;
+    const cy = (y >> 4) + VoxelStore.KEY_OFFSET;
+    const cz = (z >> 4) + VoxelStore.KEY_OFFSET;
+    if ((cx | cy | cz) < 0 || cx > 0x1ffff || cy > 0x1ffff || cz > 0x1ffff) {
+      throw new Error(`Coordinates (${x}, ${y}, ${z}) are outside the voxel store range`);
+    }
+    return (cx * 0x20000 + cy) * 0x20000 + cz;
+  }
+  
+  private cellIndex(x: number, y: number, z: number): number {
+    return (x & 15) + ((y & 15) << 4) + ((z & 15) << 8);
+  }
+}
@@ -0,0 +1,156 @@
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+
+interface PoolTask {
+  message: any;
+  transfer: any[];
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Minimal worker_threads pool
+ * Runs one task per worker at a time and queues the rest. Workers reply with
+ * { result } or { error } for every message they receive.
+ */
+export class WorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: PoolTask[] = [];
+  private active = new Map<Worker, PoolTask>();
+  private failure: Error | null = null;
+  
+  constructor(script: string, size: number) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(script);
+      
+      worker.on('message', (reply: { result?: any; error?: string }) => {
+        const task = this.active.get(worker);
+        this.active.delete(worker);
+        if (task) {
+          if (reply.error) {
+            task.reject(new Error(reply.error));
+          } else {
+            task.resolve(reply.result);
+          }
+        }
+        this.release(worker);
+      });
+      
+      worker.on('error', (error) => this.fail(error));
+      worker.on('exit', (code) => {
+        if (code !== 0) this.fail(new Error(`Worker exited with code ${code}`));
+      });
+      
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+  
+  /**
+   * Default pool size: CPU count minus one, leaving a core for the event loop
+   */
+  static defaultSize(): number {
+    return Math.max(1, os.cpus().length - 1);
+  }
+  
+  /**
+   * Resolve a script in src/workers with the extension this module runs under
+   * (.ts under bun/ts-node, .js from dist). Returns null if it is missing.
+   */
+  static resolveScript(name: string): string | null {
+    const script = path.join(__dirname, '..', 'workers', name + path.extname(__filename));
+    return fs.existsSync(script) ? script : null;
+  }
+  
+  /**
+   * Run every message through a temporary pool and return the results in order
+   * Runs the fallback on this thread instead when workers are disabled, the
+   * script is missing, or the pool fails
+   */
+  static async runAll<T>(
+    scriptName: string,
+    workers: number,
+    messages: any[],
+    fallback: (message: any) => Promise<T>
+  ): Promise<{ results: T[]; workers: number }> {
+    const size = Math.min(workers, messages.length);
+    const script = size > 0 ? this.resolveScript(scriptName) : null;
+    
+    if (script) {
+      const pool = new WorkerPool(script, size);
+      try {
+        const results = await Promise.all(messages.map(message => pool.run<T>(message)));
+        return { results, workers: size };
+      } catch (error) {
+        console.warn(`[WorkerPool] Worker tasks failed, running on the main thread: ${error}`);
+      } finally {
+        await pool.destroy();
+      }
+    }
+    
+    const results: T[] = [];
+    for (const message of messages) {
+      results.push(await fallback(message));
+    }
+    return { results, workers: 0 };
+  }
+  
+  get size(): number {
+    return this.workers.length;
+  }
+  
+  /**
+   * Send a task to the next free worker
+   */
+  run<T>(message: any, transfer: any[] = []): Promise<T> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ message, transfer, resolve, reject });
+      this.dispatch();
+    });
+  }
+  
+  /**
+   * Terminate every worker
+   */
+  async destroy(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.idle = [];
+    await Promise.all(workers.map(worker => {
+      worker.removeAllListeners('exit');
+      return worker.terminate();
+    }));
+  }
+  
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const task = this.queue.shift()!;
+      this.active.set(worker, task);
+      worker.postMessage(task.message, task.transfer);
+    }
+  }
+  
+  private release(worker: Worker): void {
+    if (this.workers.includes(worker)) {
+      this.idle.push(worker);
+      this.dispatch();
+    }
+  }
+  
+  private fail(error: Error): void {
+    // A crashed worker leaves the pool unusable - reject everything outstanding
+    this.failure = this.failure || error;
+    for (const task of this.active.values()) task.reject(error);
+    for (const task of this.queue) task.reject(error);
+    this.active.clear();
+    this.queue = [];
+  }
+}
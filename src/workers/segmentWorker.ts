@@ -0,0 +1,25 @@
+import { parentPort } from 'worker_threads';
+import { MapCompressor } from '../core/MapCompressor';
+import { MapDecompressor } from '../core/MapDecompressor';
+
+/**
+ * Worker entry for parallel segment compression and decompression
+ * Spawned through WorkerPool; replies with { result } or { error } per message
+ */
+parentPort?.on('message', async (message: { type: string; task: any }) => {
+  try {
+    if (message.type === 'compress') {
+      const result = await MapCompressor.compressSegment(message.task);
+      parentPort!.postMessage({ result }, [result.data.buffer as ArrayBuffer]);
+    } else if (message.type === 'decompress') {
+      // Chunk data lives in a SharedArrayBuffer and is shared, not transferred
+      const result = await MapDecompressor.decodeSegment(message.task);
+      const transfer = [result.blocks?.buffer, result.origins?.buffer].filter(Boolean) as ArrayBuffer[];
+      parentPort!.postMessage({ result }, transfer);
+    } else {
+      throw new Error(`Unknown segment worker task "${message.type}"`);
+    }
+  } catch (error) {
+    parentPort!.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
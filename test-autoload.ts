@@ -0,0 +1,212 @@
+/**
+ * AutoLoad test - every compression setting in map-compression.yaml reaches the
+ * caches autoLoad() writes, and those caches load back into the world
+ * Each case runs autoLoad() twice: once to build the caches, once from the .hmc
+ * cache alone (the chunk cache deleted)
+ */
+
+import { MapCompression, MapContainer, CodecRegistry, FakeWorld } from './src/index';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -24; x < 24; x++) {
+    for (let z = -24; z < 24; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x * z) % 5 === 0) blocks[`${x},${1 + (x & 3)},${z}`] = 1;
+    }
+  }
+  return {
+    blockTypes,
+    blocks,
+    entities: {
+      '0.5,2,0.5': { modelUri: 'models/flag.gltf', name: 'Flag' },
+      '-10.25,1,7.75': { modelUri: 'models/crate.gltf', name: 'Crate', modelScale: 0.5 }
+    },
+    version: '1.0.0'
+  };
+}
+
+/**
+ * Gzip with the bytes reversed: a codec only this registry can read
+ */
+const reversedGzip = {
+  compress: (data: Buffer) => Buffer.from(zlib.gzipSync(data)).reverse(),
+  decompress: (data: Buffer) => zlib.gunzipSync(Buffer.from(data).reverse())
+};
+
+interface AutoLoadRun {
+  first: { world: FakeWorld; method?: string };
+  second: { world: FakeWorld; method?: string };
+  cache: any; // The .hmc cache, decoded
+  decoded: any; // The cache decompressed
+}
+
+/**
+ * autoLoad() a map with a config file, then again from its .hmc cache alone
+ */
+async function autoLoadTwice(mapData: any, config: string, options: any = {}): Promise<AutoLoadRun> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hmc-autoload-'));
+  const mapPath = path.join(dir, 'map.json');
+  const configPath = path.join(dir, 'map-compression.yaml');
+  fs.writeFileSync(mapPath, JSON.stringify(mapData));
+  fs.writeFileSync(configPath, `logging:\n  metrics: false\n${config}`);
+  const cacheFile = (extension: string) => path.join(dir, fs.readdirSync(dir).find(file => file.endsWith(extension))!);
+  const load = async () => {
+    const world = new FakeWorld();
+    const mc = new MapCompression(world, options);
+    await mc.autoLoad(mapPath, configPath);
+    return { world, method: mc.getMetrics().method };
+  };
+  
+  try {
+    const first = await load();
+    const cache = MapContainer.decode(fs.readFileSync(cacheFile('.hmc')));
+    fs.rmSync(cacheFile('.chunks.bin'));
+    const second = await load();
+    const decoded = await new MapCompression(new FakeWorld(), { metrics: false }).decompress(cache);
+    return { first, second, cache, decoded };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function testAutoLoad() {
+  console.log('=== AUTOLOAD TEST ===\n');
+  
+  const mapData = createMap();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  /**
+   * Both loads placed the map, the second one from the compressed cache
+   */
+  const assertLoaded = (run: AutoLoadRun) => {
+    assert.strictEqual(run.first.method, 'initial-compression');
+    assert.strictEqual(run.second.method, 'compressed-fast');
+    assert.deepStrictEqual(run.first.world.getBlocks(), mapData.blocks);
+    assert.deepStrictEqual(run.second.world.getBlocks(), mapData.blocks);
+    assert.deepStrictEqual(run.decoded.blocks, mapData.blocks);
+    assert.deepStrictEqual(run.decoded.entities, mapData.entities);
+  };
+  
+  // compression.algorithm: built-in and registered codecs
+  const gzip = await autoLoadTwice(mapData, 'compression:\n  algorithm: gzip\n');
+  check('algorithm gzip: cache labelled and compressed with gzip', () => {
+    assertLoaded(gzip);
+    assert.strictEqual(gzip.cache.algorithm, 'gzip');
+    assert.deepStrictEqual([...Buffer.from(gzip.cache.data, 'base64').subarray(0, 2)], [0x1f, 0x8b]);
+  });
+  
+  CodecRegistry.register('reversed-gzip', reversedGzip);
+  const custom = await autoLoadTwice(mapData, 'compression:\n  algorithm: reversed-gzip\n');
+  check('algorithm reversed-gzip: registered codec used for the cache', () => {
+    assertLoaded(custom);
+    assert.strictEqual(custom.cache.algorithm, 'reversed-gzip');
+    assert.throws(() => zlib.gunzipSync(Buffer.from(custom.cache.data, 'base64')));
+  });
+  
+  // autoLoad() options come from the config: a constructor codec is replaced, not mislabelled
+  const constructed = await autoLoadTwice(mapData, '', { compression: { algorithm: 'reversed-gzip' } });
+  check('constructor codec: cache labelled with the codec it was written with', () => {
+    assertLoaded(constructed);
+    assert.strictEqual(constructed.cache.algorithm, 'brotli');
+  });
+  CodecRegistry.unregister('reversed-gzip');
+  
+  // compression.blockEncoding
+  const palette = await autoLoadTwice(mapData, 'compression:\n  blockEncoding: palette\n');
+  check('blockEncoding palette: cache written with per-chunk palettes', () => {
+    assertLoaded(palette);
+    assert.strictEqual(palette.cache.options.blockEncoding, 'palette');
+  });
+  
+  const columnar = await autoLoadTwice(mapData, 'compression:\n  blockEncoding: columnar\n');
+  check('blockEncoding columnar: cache written as coordinate and ID streams', () => {
+    assertLoaded(columnar);
+    assert.strictEqual(columnar.cache.options.blockEncoding, 'columnar');
+  });
+  
+  // compression.parallel: segments built in worker threads (columns, the map is flat)
+  const parallel = await autoLoadTwice(mapData, 'compression:\n  parallel: true\n  partition: columns\n  workers: 2\n  partitionSize: 16\n');
+  check('parallel: cache written as column segments', () => {
+    assertLoaded(parallel);
+    assert.strictEqual(parallel.cache.options.partition, 'columns');
+    assert.ok(parallel.cache.segments.length > 1, `${parallel.cache.segments.length} segment`);
+  });
+  
+  // decompression.parallel: those segments loaded back through worker threads
+  const parallelLoad = await autoLoadTwice(
+    mapData,
+    'compression:\n  parallel: true\n  partition: columns\n  workers: 2\n  partitionSize: 16\ndecompression:\n  parallel: true\n  workers: 2\n'
+  );
+  check('decompression.parallel: segmented cache loaded in workers', () => {
+    assertLoaded(parallelLoad);
+    assert.ok(parallelLoad.cache.segments.length > 1);
+  });
+  
+  // compression.spatialIndex: indexed columns, answering region queries
+  const indexed = await autoLoadTwice(mapData, 'compression:\n  spatialIndex: true\n  partitionSize: 16\n');
+  const region = { minX: 0, minY: 0, minZ: 0, maxX: 15, maxY: 15, maxZ: 15 };
+  const regionResult = await new MapCompression(new FakeWorld(), { metrics: false }).decompressRegion(indexed.cache, region);
+  check('spatialIndex: cache indexed by column, one column per region query', () => {
+    assertLoaded(indexed);
+    assert.strictEqual(indexed.cache.options.partition, 'columns');
+    assert.strictEqual(indexed.cache.segments.length, 16);
+    assert.strictEqual(regionResult.metadata!.segmentsDecoded, 1);
+    assert.ok(Object.keys(regionResult.blocks).every(key => key.split(',').map(Number).every(v => v >= 0 && v <= 15)));
+  });
+  
+  // compression.entityEncoding: json keeps entities as a record in the cache
+  const jsonEntities = await autoLoadTwice(mapData, 'compression:\n  entityEncoding: json\n');
+  const packedEntities = await autoLoadTwice(mapData, 'compression:\n  entityEncoding: packed\n');
+  check('entityEncoding json: entities stored as JSON, not packed', () => {
+    assertLoaded(jsonEntities);
+    assert.deepStrictEqual(jsonEntities.cache.entities, mapData.entities);
+    assert.strictEqual(jsonEntities.cache.entityData, undefined);
+    assertLoaded(packedEntities);
+    assert.ok(Buffer.isBuffer(packedEntities.cache.entityData));
+    assert.strictEqual(packedEntities.cache.entities, undefined);
+  });
+  
+  // validation.beforeCompress: a valid map is cached as usual, an invalid one never is
+  const validated = await autoLoadTwice(mapData, 'validation:\n  beforeCompress: true\n');
+  let invalidError: Error | null = null;
+  await autoLoadTwice({ ...mapData, blocks: { ...mapData.blocks, '1,2': 1 } }, 'validation:\n  beforeCompress: true\n')
+    .catch(error => invalidError = error);
+  check('validation.beforeCompress: invalid maps are not compressed', () => {
+    assertLoaded(validated);
+    assert.match(invalidError!.message, /Invalid map data:\n  error malformed-coordinates/);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every configured option reached the caches, and they loaded');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testAutoLoad().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,194 @@
+/**
+ * CLI test - HmcCli.parseArgs() and the exit codes of HmcCli.run()
+ * 0 when a command succeeds, 1 when it fails on the file it was given,
+ * 2 on bad usage (unknown commands or flags, missing files)
+ */
+
+import { HmcCli } from './src/cli/hmc';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -10; x < 10; x++) {
+    for (let z = -10; z < 10; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x + z) % 3 === 0) blocks[`${x},1,${z}`] = 1;
+    }
+  }
+  return { blockTypes, blocks, entities: { '0.5,2,0.5': { modelUri: 'models/flag.gltf' } }, version: '1.0.0' };
+}
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run hmc with console output captured instead of printed
+ */
+async function hmc(...argv: string[]): Promise<CliRun> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const { log, warn, error } = console;
+  console.log = (...args: any[]) => { stdout.push(args.join(' ')); };
+  console.warn = console.error = (...args: any[]) => { stderr.push(args.join(' ')); };
+  try {
+    const code = await HmcCli.run(argv);
+    return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+async function testCli() {
+  console.log('=== CLI TEST ===\n');
+  
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hmc-cli-'));
+  const mapPath = path.join(dir, 'map.json');
+  const mapData = createMap();
+  fs.writeFileSync(mapPath, JSON.stringify(mapData));
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // parseArgs: long, short and --name=value flags, files in order
+  const parseError = (argv: string[]) => {
+    try {
+      HmcCli.parseArgs(argv);
+      return null;
+    } catch (error: any) {
+      return error.message;
+    }
+  };
+  check('parseArgs: command, files and every flag form', () => {
+    assert.deepStrictEqual(HmcCli.parseArgs(['compress', 'map.json', '-o', 'out.hmc', '--format=json', '--validate', '-c', 'a=b.yaml']), {
+      command: 'compress',
+      files: ['map.json'],
+      flags: { output: 'out.hmc', format: 'json', validate: true, config: 'a=b.yaml' }
+    });
+    assert.deepStrictEqual(HmcCli.parseArgs(['verify', 'a.hmc', '--json', 'b.chunks.bin', '-', '--output=x=y']), {
+      command: 'verify',
+      files: ['a.hmc', 'b.chunks.bin', '-'],
+      flags: { json: true, output: 'x=y' }
+    });
+    assert.deepStrictEqual(HmcCli.parseArgs(['-h']), { files: [], flags: { help: true } });
+    assert.deepStrictEqual(HmcCli.parseArgs(['conform', 'm.hmc', '-s', 'default,chunks', '-n', '5']).flags, { strategies: 'default,chunks', iterations: '5' });
+  });
+  check('parseArgs: unknown flags and missing or unexpected values', () => {
+    assert.strictEqual(parseError(['compress', 'map.json', '--fast']), 'Unknown flag --fast');
+    assert.strictEqual(parseError(['compress', 'map.json', '-x']), 'Unknown flag -x');
+    assert.strictEqual(parseError(['inspect', 'map.json', '--json=yes']), 'Flag --json does not take a value');
+    assert.strictEqual(parseError(['compress', 'map.json', '-o']), 'Flag --output needs a value');
+    assert.strictEqual(parseError(['compress', 'map.json', '--output=']), 'Flag --output needs a value');
+  });
+  
+  // Exit code 0: help and commands that succeed
+  const hmcPath = path.join(dir, 'map.hmc');
+  const help = await hmc('--help');
+  const commandHelp = await hmc('compress', '--help');
+  const compressed = await hmc('compress', mapPath);
+  const decompressed = await hmc('decompress', hmcPath, '-o', path.join(dir, 'out.json'));
+  const precomputed = await hmc('precompute', mapPath);
+  const verified = await hmc('verify', hmcPath, path.join(dir, 'map.chunks.bin'), '--json');
+  const inspected = await hmc('inspect', hmcPath, '--json');
+  check('exit 0: help, compress, decompress, precompute, verify, inspect', () => {
+    assert.deepStrictEqual([help, commandHelp, compressed, decompressed, precomputed, verified, inspected].map(result => result.code), Array(7).fill(HmcCli.EXIT_OK));
+    assert.match(help.stdout, /^Usage: hmc <command> <file> \[options\]/);
+    assert.match(commandHelp.stdout, /^Usage: hmc compress <map\.json>/);
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(dir, 'out.json'), 'utf-8')).blocks, mapData.blocks);
+    assert.ok(Object.values(JSON.parse(verified.stdout)).every((report: any) => report.valid && report.checksummed));
+    assert.deepStrictEqual(
+      (({ format, blocks, blockTypes, entities, checksums }) => ({ format, blocks, blockTypes, entities, checksums }))(JSON.parse(inspected.stdout)),
+      { format: 'hmc v2', blocks: Object.keys(mapData.blocks).length, blockTypes: 2, entities: 1, checksums: 'valid' }
+    );
+  });
+  
+  // Exit code 2: bad usage, nothing run
+  const usage: CliRun[] = [];
+  for (const argv of [
+    [],
+    ['shrink', mapPath],
+    ['compress'],
+    ['compress', path.join(dir, 'missing.json')],
+    ['compress', mapPath, '--fast'],
+    ['compress', mapPath, '-c', path.join(dir, 'missing.yaml')],
+    ['compress', mapPath, '-f', 'zip'],
+    ['precompute', mapPath, '-f', 'xml'],
+    ['decompress', hmcPath, '-o', hmcPath]
+  ]) {
+    usage.push(await hmc(...argv));
+  }
+  check('exit 2: no command, unknown command or flag, missing files, bad formats', () => {
+    assert.deepStrictEqual(usage.map(result => result.code), Array(usage.length).fill(HmcCli.EXIT_USAGE));
+    assert.match(usage[0].stdout, /^Usage: hmc <command>/);
+    assert.deepStrictEqual(usage.slice(1).map(result => result.stderr.split('\n')[0]), [
+      '❌ Unknown command "shrink"',
+      '❌ Missing input file',
+      `❌ File not found: ${path.join(dir, 'missing.json')}`,
+      '❌ Unknown flag --fast',
+      `❌ Config file not found: ${path.join(dir, 'missing.yaml')}`,
+      '❌ Unknown compress format "zip" (hmc or json)',
+      '❌ Unknown precompute format "xml" (binary or json)',
+      '❌ Output would overwrite the input, pass a different -o'
+    ]);
+    assert.ok(usage.slice(1).every(result => result.stderr.endsWith('Run "hmc --help" for usage')));
+  });
+  
+  // Exit code 1: the command ran and failed on its input
+  const corruptPath = path.join(dir, 'corrupt.hmc');
+  const container = fs.readFileSync(hmcPath);
+  container[container.length - 8] ^= 0x01;
+  fs.writeFileSync(corruptPath, container);
+  const invalidPath = path.join(dir, 'invalid.json');
+  fs.writeFileSync(invalidPath, JSON.stringify({ ...createMap(), blocks: { '1,2': 1, '0,0,0': 'stone' } }));
+  const textPath = path.join(dir, 'notes.json');
+  fs.writeFileSync(textPath, 'not json');
+  const corrupt = await hmc('verify', hmcPath, corruptPath);
+  const invalid = await hmc('compress', invalidPath, '--validate');
+  const unparsable = await hmc('compress', textPath);
+  fs.writeFileSync(path.join(dir, 'out.json'), '{ "name": "no blocks" }');
+  const noBlocks = await hmc('inspect', path.join(dir, 'out.json'));
+  check('exit 1: corrupt file, failed validation, unparsable or non-map input', () => {
+    assert.strictEqual(corrupt.code, HmcCli.EXIT_FAILURE);
+    assert.match(corrupt.stdout, /^✅ .*map\.hmc .*\n❌ .*corrupt\.hmc \(hmc, /);
+    assert.strictEqual(invalid.code, HmcCli.EXIT_FAILURE);
+    assert.match(invalid.stderr, /^❌ hmc compress failed: Invalid map data:\n  error malformed-coordinates/);
+    assert.ok(!fs.existsSync(path.join(dir, 'invalid.hmc')));
+    assert.strictEqual(unparsable.code, HmcCli.EXIT_FAILURE);
+    assert.match(unparsable.stderr, /^❌ hmc compress failed: Could not parse .*notes\.json as JSON/);
+    assert.strictEqual(noBlocks.code, HmcCli.EXIT_FAILURE);
+    assert.strictEqual(noBlocks.stderr, '❌ hmc inspect failed: Not a map, compressed map or chunk cache');
+  });
+  
+  fs.rmSync(dir, { recursive: true, force: true });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every command line exited with the right code');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testCli().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,136 @@
+/**
+ * Codec test - CodecRegistry registration and lookup, and maps written with each
+ * built-in and a registered codec: the codec name is stored in the file (JSON and
+ * .hmc) and resolved on decompress, with a clear error when it is not registered
+ */
+
+import { MapCompressor, MapDecompressor, MapContainer, CodecRegistry } from './src/index';
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -16; x < 16; x++) {
+    for (let z = -16; z < 16; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x * z) % 3 === 0) blocks[`${x},1,${z}`] = 1;
+    }
+  }
+  return { blockTypes, blocks, entities: { '0.5,2,0.5': { modelUri: 'models/flag.gltf' } }, version: '1.0.0' };
+}
+
+/**
+ * The message a function throws, or null
+ */
+function thrown(run: () => void): string | null {
+  try {
+    run();
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+async function testCodecs() {
+  console.log('=== CODEC TEST ===\n');
+  
+  const mapData = createMap();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  check('built-in codecs: listed, resolved and marked built-in', () => {
+    assert.deepStrictEqual(CodecRegistry.list(), ['brotli', 'gzip', 'deflate-raw', 'none']);
+    assert.ok(CodecRegistry.list().every(name => CodecRegistry.has(name) && CodecRegistry.isBuiltin(name)));
+    assert.strictEqual(CodecRegistry.has('lz4'), false);
+    assert.strictEqual(CodecRegistry.isBuiltin('lz4'), false);
+    assert.strictEqual(thrown(() => CodecRegistry.get('lz4')), 'Unknown compression codec "lz4" (registered: brotli, gzip, deflate-raw, none)');
+  });
+  
+  // Registration: custom codecs are never built-in, incomplete ones are refused
+  const levels: number[] = [];
+  const reversedGzip = {
+    compress: async (data: Buffer, level: number) => {
+      levels.push(level);
+      return Buffer.from(zlib.gzipSync(data)).reverse();
+    },
+    decompress: (data: Buffer) => zlib.gunzipSync(Buffer.from(data).reverse())
+  };
+  CodecRegistry.register('reversed-gzip', reversedGzip);
+  check('register: custom codec resolved, not built-in, incomplete codecs refused', () => {
+    assert.strictEqual(CodecRegistry.get('reversed-gzip'), reversedGzip);
+    assert.strictEqual(CodecRegistry.isBuiltin('reversed-gzip'), false);
+    assert.deepStrictEqual(CodecRegistry.list().slice(-1), ['reversed-gzip']);
+    assert.strictEqual(thrown(() => CodecRegistry.register('', reversedGzip)), 'Codec name must not be empty');
+    assert.strictEqual(
+      thrown(() => CodecRegistry.register('half', { compress: reversedGzip.compress } as any)),
+      'Codec "half" must provide compress() and decompress()'
+    );
+    assert.strictEqual(CodecRegistry.has('half'), false);
+  });
+  
+  // Every codec writes its name into the map and reads back through it
+  const decompressor = new MapDecompressor();
+  for (const algorithm of ['brotli', 'gzip', 'deflate-raw', 'none', 'reversed-gzip']) {
+    const compressor = new MapCompressor({ compression: { algorithm, level: 5 } });
+    const result = await compressor.compress(mapData);
+    const compressed = compressor.createCompressedMap(result, mapData);
+    const container = MapContainer.encode(compressed);
+    const fromJson = await decompressor.decompress(compressed);
+    const fromContainer = await decompressor.decompress(container);
+    check(`${algorithm}: name stored in JSON and .hmc, map read back`, () => {
+      assert.strictEqual(result.algorithm, algorithm);
+      assert.strictEqual(compressed.algorithm, algorithm);
+      assert.strictEqual(MapContainer.decode(container).algorithm, algorithm);
+      assert.deepStrictEqual(fromJson.blocks, mapData.blocks);
+      assert.deepStrictEqual(fromJson.entities, mapData.entities);
+      assert.deepStrictEqual(fromContainer.blocks, mapData.blocks);
+      if (algorithm === 'none') {
+        assert.strictEqual(Buffer.from(compressed.data as string, 'base64').readUInt32LE(0), Object.keys(mapData.blocks).length);
+      }
+    });
+  }
+  check('reversed-gzip: compression level passed to the codec', () => {
+    assert.ok(levels.length >= 2);
+    assert.ok(levels.every(level => level === 5));
+  });
+  
+  // Once unregistered, maps written with the codec fail with its name
+  const compressor = new MapCompressor({ compression: { algorithm: 'reversed-gzip' } });
+  const custom = compressor.createCompressedMap(await compressor.compress(mapData), mapData);
+  const removed = CodecRegistry.unregister('reversed-gzip');
+  let unknownError: Error | null = null;
+  await decompressor.decompress(custom).catch(error => unknownError = error);
+  check('unregister: codec gone, its maps refused by name', () => {
+    assert.strictEqual(removed, true);
+    assert.strictEqual(CodecRegistry.unregister('reversed-gzip'), false);
+    assert.deepStrictEqual(CodecRegistry.list(), ['brotli', 'gzip', 'deflate-raw', 'none']);
+    assert.match(unknownError!.message, /Unknown compression codec "reversed-gzip"/);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every codec was resolved by the name stored in its map');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testCodecs().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
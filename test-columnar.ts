@@ -0,0 +1,131 @@
+/**
+ * Columnar test - ColumnarEncoder writes coordinates and block IDs as separate
+ * streams with run-length IDs, flags RLE in its header only when it pays off,
+ * and decodes back exactly, on its own and through MapCompressor
+ */
+
+import { MapCompressor, MapDecompressor } from './src/index';
+import { ColumnarEncoder } from './src/encoders/ColumnarEncoder';
+import { DeltaEncoder } from './src/encoders/DeltaEncoder';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'dirt', textureUri: 'blocks/dirt.png' },
+  { id: 3, name: 'stone', textureUri: 'blocks/stone.png' },
+  { id: 4, name: 'ore', textureUri: 'blocks/ore.png' }
+];
+
+/**
+ * Layered terrain: stone, then dirt, then grass, with a little ore
+ */
+function createTerrain(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -48; x < 48; x++) {
+    for (let z = -48; z < 48; z++) {
+      const height = 12 + Math.round(4 * Math.sin(x / 9) + 3 * Math.cos(z / 7));
+      for (let y = 0; y <= height; y++) {
+        blocks[`${x},${y},${z}`] = y === height ? 1 : y > height - 3 ? 2 : (x * 31 + y * 17 + z * 7) % 97 === 0 ? 4 : 3;
+      }
+    }
+  }
+  return { blockTypes, blocks, entities: {} };
+}
+
+/**
+ * Blocks whose IDs change at every step: nothing for RLE to collapse
+ */
+function createCheckerboard(): { [key: string]: number } {
+  const blocks: { [key: string]: number } = {};
+  for (let x = 0; x < 20; x++) {
+    for (let z = 0; z < 20; z++) {
+      blocks[`${x},0,${z}`] = 1 + ((x + z) & 1);
+    }
+  }
+  return blocks;
+}
+
+async function testColumnar() {
+  console.log('=== COLUMNAR TEST ===\n');
+  
+  const terrain = createTerrain();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // Runs of 3+ equal IDs become [-count, id]; shorter runs stay as they are
+  check('encodeBlockIds: runs collapsed, RLE only when shorter', () => {
+    const ids = [5, 5, 5, 5, 2, 2, 7, 7, 7, 0, 0, 0, 70000];
+    const rle = DeltaEncoder.encodeBlockIds(ids);
+    assert.deepStrictEqual(rle, { encoded: [-4, 5, 2, 2, -3, 7, -3, 0, 70000], isRLE: true });
+    assert.deepStrictEqual(DeltaEncoder.decodeBlockIds(rle.encoded, rle.isRLE), ids);
+    assert.deepStrictEqual(DeltaEncoder.encodeBlockIds([1, 2, 1, 1, 2]), { encoded: [1, 2, 1, 1, 2], isRLE: false });
+    assert.deepStrictEqual(DeltaEncoder.encodeBlockIds([]), { encoded: [], isRLE: false });
+  });
+  
+  // Header: block count, RLE flag, coordinate stream length
+  const layered = ColumnarEncoder.encode(terrain.blocks);
+  const checkerboard = createCheckerboard();
+  const unflagged = ColumnarEncoder.encode(checkerboard);
+  check('encode: RLE flagged for layers, not for a checkerboard', () => {
+    assert.strictEqual(layered.readUInt32LE(0), Object.keys(terrain.blocks).length);
+    assert.strictEqual(layered.readUInt8(4), ColumnarEncoder.FLAG_RLE_IDS);
+    assert.ok(layered.readUInt32LE(5) < layered.length - 9);
+    assert.strictEqual(unflagged.readUInt32LE(0), 400);
+    assert.strictEqual(unflagged.readUInt8(4), 0);
+    assert.strictEqual(unflagged.length - 9 - unflagged.readUInt32LE(5), 400);
+  });
+  
+  // Decoding: coordinates are relative to the bounds origin; a count mismatch is refused
+  const offsetBlocks: { [key: string]: number } = {};
+  for (const key in checkerboard) {
+    const [x, y, z] = key.split(',').map(Number);
+    offsetBlocks[`${x - 100},${y + 7},${z - 3}`] = checkerboard[key];
+  }
+  const miscounted = Buffer.from(unflagged);
+  miscounted.writeUInt32LE(401, 0);
+  check('decode: exact blocks, bounds origin applied, ID count checked', () => {
+    assert.deepStrictEqual(ColumnarEncoder.decode(layered, { minX: -48, minY: 0, minZ: -48 }), terrain.blocks);
+    assert.deepStrictEqual(ColumnarEncoder.decode(unflagged), checkerboard);
+    assert.deepStrictEqual(ColumnarEncoder.decode(unflagged, { minX: -100, minY: 7, minZ: -3 }), offsetBlocks);
+    assert.throws(() => ColumnarEncoder.decode(miscounted), /^Error: Columnar ID stream has 400 IDs, expected 401$/);
+  });
+  
+  // MapCompressor: recorded in the options, decoded automatically, smaller than
+  // varint-delta on layered terrain
+  const compress = async (blockEncoding: any) => {
+    const compressor = new MapCompressor({ compression: { blockEncoding } });
+    return compressor.createCompressedMap(await compressor.compress(terrain), terrain);
+  };
+  const columnar = await compress('columnar');
+  const varintDelta = await compress('varint-delta');
+  const decoded = await new MapDecompressor().decompress(columnar);
+  const voxels = await new MapDecompressor().decompressVoxels(columnar);
+  check('MapCompressor: recorded, decoded, smaller on layered terrain', () => {
+    assert.strictEqual(columnar.options!.blockEncoding, 'columnar');
+    assert.deepStrictEqual(decoded.blocks, terrain.blocks);
+    assert.deepStrictEqual(voxels.blocks.toDictionary(), terrain.blocks);
+    assert.ok(columnar.data.length < varintDelta.data.length, `${columnar.data.length} vs ${varintDelta.data.length} bytes`);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every columnar stream decoded exactly');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testColumnar().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
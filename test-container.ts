@@ -0,0 +1,161 @@
+/**
+ * Container test - MapContainer.encode() and decode() for the binary .hmc format
+ * Checks the preamble and section table, that every field and the raw block stream
+ * survive, that damaged or foreign buffers are refused, and that the decompressor
+ * and every loading method take a container where they take compressed JSON
+ */
+
+import { MapCompression, MapCompressor, MapDecompressor, MapContainer, FakeWorld } from './src/index';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -40; x < 40; x++) {
+    for (let z = -40; z < 40; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x + 2 * z) % 5 === 0) blocks[`${x},${1 + (z & 3)},${z}`] = 1;
+    }
+  }
+  return {
+    name: 'Container Arena',
+    blockTypes,
+    blocks,
+    entities: { '0.5,2,0.5': { modelUri: 'models/flag.gltf', name: 'Flag' } },
+    version: '1.2.0'
+  };
+}
+
+/**
+ * The message a function throws, or null
+ */
+function thrown(run: () => void): string | null {
+  try {
+    run();
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+async function testContainer() {
+  console.log('=== CONTAINER TEST ===\n');
+  
+  const mapData = createMap();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  const compressMap = async (compression: any = {}) => {
+    const compressor = new MapCompressor({ compression });
+    return compressor.createCompressedMap(await compressor.compress(mapData), mapData);
+  };
+  const compressed = await compressMap();
+  const container = MapContainer.encode(compressed);
+  const json = Buffer.from(JSON.stringify(compressed, null, 2));
+  
+  check('preamble: magic, format version and detection', () => {
+    assert.strictEqual(container.subarray(0, 4).toString('ascii'), 'HMC1');
+    assert.strictEqual(MapContainer.formatVersion(container), MapContainer.FORMAT_VERSION);
+    assert.strictEqual(MapContainer.isContainer(container), true);
+    assert.strictEqual(MapContainer.isContainer(json), false);
+    assert.strictEqual(MapContainer.isContainer(compressed), false);
+    assert.strictEqual(MapContainer.isContainer(container.subarray(0, 8)), false);
+  });
+  
+  // Sections: the block stream is stored raw, a third smaller than base64
+  const sections = MapContainer.readSections(container);
+  check('sections: one per field, raw block stream', () => {
+    assert.deepStrictEqual([...sections.keys()], [
+      MapContainer.SECTION_HEADER,
+      MapContainer.SECTION_BLOCKS,
+      MapContainer.SECTION_BLOCK_TYPES,
+      MapContainer.SECTION_ENTITY_DATA,
+      MapContainer.SECTION_BOUNDS,
+      MapContainer.SECTION_METADATA,
+      MapContainer.SECTION_OPTIONS,
+      MapContainer.SECTION_FIELDS
+    ]);
+    assert.deepStrictEqual(sections.get(MapContainer.SECTION_BLOCKS), Buffer.from(compressed.data as string, 'base64'));
+    assert.strictEqual(sections.get(MapContainer.SECTION_BOUNDS)!.length, 24);
+    assert.ok(container.length < json.length * 0.8, `${container.length} of ${json.length} bytes`);
+  });
+  
+  const decoded = MapContainer.decode(container);
+  check('decode: every field back, block stream as bytes', () => {
+    // JSON checksums are replaced by the per-section CRCs of the table
+    const { data, entityData, ...rest } = decoded;
+    const { data: expectedData, entityData: expectedEntityData, checksums, ...expectedRest } = compressed;
+    assert.deepStrictEqual(rest, expectedRest);
+    assert.ok(Buffer.isBuffer(data));
+    assert.strictEqual((data as Buffer).toString('base64'), expectedData);
+    assert.strictEqual((entityData as Buffer).toString('base64'), expectedEntityData);
+  });
+  
+  // Optional sections: segments, and entities kept as JSON
+  const indexed = MapContainer.decode(MapContainer.encode(await compressMap({ spatialIndex: true, entityEncoding: 'json' })));
+  check('optional sections: segments and JSON entities', () => {
+    assert.ok(indexed.segments!.length > 1);
+    assert.deepStrictEqual(indexed.entities, mapData.entities);
+    assert.strictEqual(indexed.entityData, undefined);
+  });
+  
+  // Damaged or foreign buffers are refused before anything is decoded
+  const badMagic = Buffer.from(container);
+  badMagic.write('HMC9', 0, 'ascii');
+  const newer = Buffer.from(container);
+  newer.writeUInt16LE(MapContainer.FORMAT_VERSION + 1, 4);
+  const truncated = container.subarray(0, container.length - 10);
+  check('refused: bad magic, newer version, truncated, altered table', () => {
+    assert.strictEqual(thrown(() => MapContainer.decode(badMagic)), 'Invalid map container: bad magic number');
+    assert.strictEqual(thrown(() => MapContainer.decode(newer)), `Unsupported map container version ${MapContainer.FORMAT_VERSION + 1}`);
+    assert.match(thrown(() => MapContainer.decode(truncated))!, /^Invalid map container: [\w ]+ section is truncated$/);
+    assert.strictEqual(thrown(() => MapContainer.decode(container.subarray(0, 20))), 'Invalid map container: truncated section table');
+  });
+  
+  // Readers: the decompressor and each loading method take the container as is
+  const decompressor = new MapDecompressor();
+  const fromContainer = await decompressor.decompress(container);
+  const fromJson = await decompressor.decompress(compressed);
+  const chunks = await decompressor.decompressChunks(container);
+  const loaded: { [method: string]: FakeWorld } = {};
+  for (const method of ['default', 'monkeypatch', 'chunks', 'hybrid']) {
+    loaded[method] = new FakeWorld();
+    await new MapCompression(loaded[method], { metrics: false, loading: { method } as any }).loadMap(container);
+  }
+  check('readers: decompress, decompressChunks and every loading method', () => {
+    assert.deepStrictEqual(fromContainer.blocks, mapData.blocks);
+    assert.deepStrictEqual(fromContainer.entities, mapData.entities);
+    assert.deepStrictEqual(fromContainer.fields, { name: mapData.name });
+    assert.deepStrictEqual(fromContainer, { ...fromJson, metadata: fromContainer.metadata });
+    assert.strictEqual(chunks.metadata.blockCount, Object.keys(mapData.blocks).length);
+    for (const method in loaded) {
+      assert.deepStrictEqual(loaded[method].getBlocks(), mapData.blocks, method);
+    }
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every container encoded, decoded and loaded exactly');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testContainer().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
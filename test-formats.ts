@@ -0,0 +1,166 @@
+/**
+ * Format test - every older compressed map layout is detected, read and migrated
+ * MapCompressorFixed (HyFire8) output, JSON written before encoding options,
+ * block streams with an RLE flag byte and version 1 .hmc containers
+ */
+
+import { MapCompression, MapCompressor, MapContainer, MapFormat, FakeWorld } from './src/index';
+import { MapCompressorFixed } from './src/core/MapCompressorFixed';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -12; x < 12; x++) {
+    for (let z = -12; z < 12; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x * z) % 7 === 0) blocks[`${x},${1 + (z & 3)},${z}`] = 1;
+    }
+  }
+  return { blockTypes, blocks, entities: { '0.5,5,0.5': { modelUri: 'models/flag.gltf' } }, version: '2.0.0' };
+}
+
+/**
+ * The same container in format version 1: 12-byte preamble and section entries, no CRCs
+ */
+function toVersion1(container: Buffer): Buffer {
+  const sectionCount = container.readUInt32LE(8);
+  const table = Buffer.alloc(12 + sectionCount * 12);
+  const shift = 16 + sectionCount * 16 - table.length;
+  container.copy(table, 0, 0, 12);
+  table.writeUInt16LE(1, 4);
+  for (let i = 0; i < sectionCount; i++) {
+    const entry = 16 + i * 16;
+    table.writeUInt16LE(container.readUInt16LE(entry), 12 + i * 12);
+    table.writeUInt32LE(container.readUInt32LE(entry + 4) - shift, 12 + i * 12 + 4);
+    table.writeUInt32LE(container.readUInt32LE(entry + 8), 12 + i * 12 + 8);
+  }
+  return Buffer.concat([table, container.subarray(16 + sectionCount * 16)]);
+}
+
+async function testFormats() {
+  console.log('=== FORMAT TEST ===\n');
+  
+  const mapData = createMap();
+  const mc = new MapCompression(new FakeWorld(), { metrics: false });
+  // Entities as JSON, as every layout from before packed entities stored them
+  const compressor = new MapCompressor({ compression: { entityEncoding: 'json' } });
+  const compressedMap = compressor.createCompressedMap(await compressor.compress(mapData), mapData);
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // MapCompressorFixed / HyFire8: version 2, method 'varint-delta-brotli'
+  const hyfire8 = await new MapCompressorFixed().compress(mapData);
+  const hyfire8Info = MapFormat.detect(hyfire8);
+  const hyfire8Read = await MapFormat.read(hyfire8);
+  const hyfire8Map = await mc.decompress(hyfire8Read);
+  check('MapCompressorFixed: detected as hyfire8-v2 and read', () => {
+    assert.strictEqual(hyfire8Info.format, 'hyfire8-v2');
+    assert.strictEqual(hyfire8Info.current, false);
+    assert.strictEqual(hyfire8Read.version, MapFormat.CURRENT_VERSION);
+    assert.deepStrictEqual(hyfire8Read.options, { useDelta: true, useVarint: true, blockEncoding: 'varint-delta' });
+    assert.strictEqual(hyfire8Read.metadata!.blockCount, Object.keys(mapData.blocks).length);
+    assert.deepStrictEqual(hyfire8Map.blocks, mapData.blocks);
+    assert.deepStrictEqual(hyfire8Map.entities, mapData.entities);
+  });
+  
+  // JSON written before options (and checksums) were stored
+  const { options, checksums, ...withoutOptions } = compressedMap;
+  const jsonInfo = MapFormat.detect(withoutOptions);
+  const jsonRead = await MapFormat.read(withoutOptions);
+  const jsonMap = await mc.decompress(jsonRead);
+  check('JSON without options: detected as outdated, read with varint-delta', () => {
+    assert.strictEqual(jsonInfo.format, 'json');
+    assert.strictEqual(jsonInfo.current, false);
+    assert.deepStrictEqual(jsonInfo.reasons, ['No encoding options (written before options were stored)', 'No section checksums']);
+    assert.deepStrictEqual(MapFormat.detect(compressedMap), { format: 'json', current: true, reasons: [] });
+    assert.deepStrictEqual(jsonRead.options, { useDelta: true, useVarint: true, blockEncoding: 'varint-delta' });
+    assert.strictEqual(jsonRead.algorithm, compressedMap.algorithm);
+    assert.deepStrictEqual(jsonMap.blocks, mapData.blocks);
+  });
+  
+  // The same stream with an RLE flag byte after the block count
+  const stream = zlib.brotliDecompressSync(Buffer.from(hyfire8.data, 'base64'));
+  const flagged = Buffer.concat([stream.subarray(0, 4), Buffer.from([0]), stream.subarray(4)]);
+  const rleMap = { ...withoutOptions, data: zlib.brotliCompressSync(flagged).toString('base64') };
+  const rleRead = await MapFormat.read(rleMap);
+  const rleBlocks = (await mc.decompress(rleRead)).blocks;
+  check('RLE flag stream: 5-byte header found and the flag dropped', () => {
+    assert.strictEqual(MapFormat.varintDeltaHeaderSize(stream), 4);
+    assert.strictEqual(MapFormat.varintDeltaHeaderSize(flagged), 5);
+    assert.strictEqual(MapFormat.varintDeltaHeaderSize(stream.subarray(0, stream.length - 1)), null);
+    assert.strictEqual(rleRead.algorithm, 'none');
+    assert.deepStrictEqual(rleRead.data, stream);
+    assert.deepStrictEqual(rleBlocks, mapData.blocks);
+  });
+  
+  // .hmc version 1, migrated in place through a .migrating file
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hmc-formats-'));
+  const hmcPath = path.join(dir, `map${MapContainer.FILE_EXTENSION}`);
+  const version1 = toVersion1(MapContainer.encode(compressedMap));
+  fs.writeFileSync(hmcPath, version1);
+  const version1Info = MapFormat.detect(version1);
+  check('hmc v1: detected as outdated and decoded', () => {
+    assert.deepStrictEqual(version1Info, { format: 'hmc', containerVersion: 1, current: false, reasons: ['Container format version 1 has no checksums'] });
+    assert.strictEqual(MapContainer.decode(version1).bounds.minX, compressedMap.bounds.minX);
+  });
+  
+  // A failed write leaves the original untouched
+  fs.mkdirSync(`${hmcPath}.migrating`);
+  let writeError: Error | null = null;
+  await mc.migrate(hmcPath).catch(error => writeError = error);
+  check('hmc v1: failed .migrating write keeps the original', () => {
+    assert.ok(writeError, 'migrate did not throw');
+    assert.deepStrictEqual(fs.readFileSync(hmcPath), version1);
+  });
+  fs.rmdirSync(`${hmcPath}.migrating`);
+  
+  const migration = await mc.migrate(hmcPath);
+  const migrated = fs.readFileSync(hmcPath);
+  const again = await mc.migrate(hmcPath);
+  check('hmc v1: migrated in place to a checksummed container', () => {
+    assert.strictEqual(migration.migrated, true);
+    assert.strictEqual(migration.path, hmcPath);
+    assert.deepStrictEqual(fs.readdirSync(dir), [path.basename(hmcPath)]);
+    assert.strictEqual(MapContainer.formatVersion(migrated), MapContainer.FORMAT_VERSION);
+    assert.ok(MapContainer.verify(migrated).every(section => section.valid && section.expected !== undefined || section.name === 'section table'));
+    assert.strictEqual(again.migrated, false);
+  });
+  const migratedMap = await mc.decompress(migrated);
+  check('hmc v1: migrated map decodes to the original', () => {
+    assert.deepStrictEqual(migratedMap.blocks, mapData.blocks);
+    assert.deepStrictEqual(migratedMap.entities, mapData.entities);
+  });
+  
+  fs.rmSync(dir, { recursive: true, force: true });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every older format was read and migrated');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testFormats().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,311 @@
+/**
+ * Loader test - every loading strategy against FakeWorld
+ * Checks that each path places exactly the map's blocks, through the SDK calls
+ * it is supposed to use
+ */
+
+import {
+  MapCompression,
+  MapCompressor,
+  MapContainer,
+  ChunkContainer,
+  ColliderBuilder,
+  BaseWorldAdapter,
+  DirectChunkLoader,
+  DirectChunkLoaderV3,
+  FakeWorld,
+  LoaderConformance,
+  ChunkSyncReport
+} from './src/index';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' },
+  { id: 300, name: 'marble', textureUri: 'blocks/marble.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -24; x < 24; x++) {
+    for (let z = -24; z < 24; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      blocks[`${x},1,${z}`] = 1;
+      if ((x * z) % 11 === 0) blocks[`${x},${2 + (x & 7)},${z}`] = 300;
+    }
+  }
+  return {
+    blockTypes,
+    blocks,
+    entities: { '0.5,3,0.5': { modelUri: 'models/flag.gltf' } },
+    version: '2.0.0'
+  };
+}
+
+async function testLoaders() {
+  console.log('=== LOADER TEST (FakeWorld) ===\n');
+  
+  const mapData = createMap();
+  const compressor = new MapCompressor();
+  const compressed = MapContainer.encode(compressor.createCompressedMap(await compressor.compress(mapData), mapData));
+  const blockCount = Object.keys(mapData.blocks).length;
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  const load = async (options: any, world: FakeWorld = new FakeWorld()) => {
+    await new MapCompression(world, { metrics: false, ...options }).loadMap(compressed);
+    return world;
+  };
+  
+  // world.loadMap receives the decompressed map
+  const defaultWorld = await load({ loading: { method: 'default' } });
+  check('default: world.loadMap gets the whole map', () => {
+    assert.strictEqual(defaultWorld.callsTo('loadMap').length, 1);
+    assert.deepStrictEqual(defaultWorld.getBlocks(), mapData.blocks);
+    assert.deepStrictEqual(defaultWorld.entities, mapData.entities);
+  });
+  
+  const patchWorld = await load({ loading: { method: 'monkeypatch' } });
+  check('monkeypatch: decompressed before the original loadMap', () => {
+    assert.strictEqual(patchWorld.loadedMaps.length, 1);
+    assert.deepStrictEqual(patchWorld.getBlocks(), mapData.blocks);
+  });
+  
+  // DirectChunkLoader: chunkLattice.setBlock per block, or chunk storage when present
+  const chunksWorld = await load({ loading: { method: 'chunks' } });
+  check('chunks: one chunkLattice.setBlock per block', () => {
+    assert.strictEqual(chunksWorld.callsTo('chunkLattice.setBlock').length, blockCount);
+    assert.strictEqual(chunksWorld.callsTo('loadMap').length, 0);
+    assert.deepStrictEqual(chunksWorld.getBlocks(), mapData.blocks);
+  });
+  check('chunks: block types registered before placement', () => {
+    const firstBlock = chunksWorld.calls.findIndex(call => call.method === 'chunkLattice.setBlock');
+    const registered = chunksWorld.callsTo('blockTypeRegistry.registerGenericBlockType');
+    assert.strictEqual(registered.length, blockTypes.length);
+    assert.ok(chunksWorld.calls.indexOf(registered[registered.length - 1]) < firstBlock);
+  });
+  
+  const storageWorld = await load({ loading: { method: 'chunks' } }, new FakeWorld({ chunkStorage: true }));
+  check('chunks: loadChunksDirect writes through chunk storage', () => {
+    assert.strictEqual(storageWorld.callsTo('chunkLattice.setBlock').length, 0);
+    assert.ok(storageWorld.callsTo('_chunks.getOrCreate').length > 0);
+    assert.deepStrictEqual(storageWorld.getBlocks(), mapData.blocks);
+  });
+  
+  const legacyWorld = await load({ loading: { method: 'chunks' } }, new FakeWorld({ chunkLattice: false }));
+  check('chunks: world.setBlock on worlds without chunkLattice', () => {
+    assert.strictEqual(legacyWorld.callsTo('setBlock').length, blockCount);
+    assert.deepStrictEqual(legacyWorld.getBlocks(), mapData.blocks);
+  });
+  
+  const hybridWorld = await load({ loading: { method: 'hybrid' }, optimization: { useChunks: true, preParseCoordinates: true } });
+  check('hybrid: chunk loader from a VoxelStore', () => {
+    assert.deepStrictEqual(hybridWorld.getBlocks(), mapData.blocks);
+  });
+  
+  const streamWorld = await load({ loading: { method: 'chunks', streaming: true } });
+  check('streaming: blocks placed while decoding', () => {
+    assert.strictEqual(streamWorld.callsTo('chunkLattice.setBlock').length, blockCount);
+    assert.deepStrictEqual(streamWorld.getBlocks(), mapData.blocks);
+  });
+  
+  // DirectChunkLoaderV3: lattice cleared once, one ADD_CHUNK event per chunk
+  const mc = new MapCompression(new FakeWorld(), { metrics: false });
+  const chunks = (await mc.decompressVoxels(compressed)).blocks.toChunks();
+  const latticeWorld = new FakeWorld();
+  latticeWorld.setBlock({ x: 500, y: 0, z: 500 }, 1);
+  new DirectChunkLoaderV3(latticeWorld).loadDirectly({ chunks }, blockTypes);
+  check('DirectChunkLoaderV3: lattice replaced, ADD_CHUNK per chunk', () => {
+    assert.strictEqual(latticeWorld.callsTo('chunkLattice.clear').length, 1);
+    assert.strictEqual(latticeWorld.eventsOf('CHUNK_LATTICE.ADD_CHUNK').length, chunks.length);
+    assert.strictEqual(latticeWorld.getBlock({ x: 500, y: 0, z: 500 }), 0);
+    assert.deepStrictEqual(latticeWorld.getBlocks(), mapData.blocks);
+  });
+  
+  // Client sync: ADD_CHUNK sent in batches once chunks are in place, then verified
+  const syncReports: ChunkSyncReport[] = [];
+  const onChunkSync = (report: ChunkSyncReport) => syncReports.push(report);
+  const syncWorld = new FakeWorld();
+  new DirectChunkLoaderV3(syncWorld, { loading: { syncBatchSize: 4, onChunkSync } }).loadDirectly({ chunks }, blockTypes);
+  check('DirectChunkLoaderV3: ADD_CHUNK in batches, every chunk synced', () => {
+    const announced = syncWorld.eventsOf('CHUNK_LATTICE.ADD_CHUNK').map(entry => entry.payload.chunk);
+    assert.strictEqual(announced.length, chunks.length);
+    assert.ok(announced.every(chunk => syncWorld.chunkLattice._chunks.get(`${chunk._originCoordinate.x},${chunk._originCoordinate.y},${chunk._originCoordinate.z}`) === chunk));
+    assert.deepStrictEqual(syncReports.pop(), { synced: true, chunks: chunks.length, announced: chunks.length, batches: Math.ceil(chunks.length / 4), issues: [] });
+  });
+  
+  const emitWorld = new FakeWorld({ chunkEvents: 'emit' });
+  new DirectChunkLoaderV3(emitWorld, { loading: { onChunkSync } }).loadDirectly({ chunks }, blockTypes);
+  check('DirectChunkLoaderV3: chunkLattice.emit() on older SDKs', () => {
+    assert.strictEqual(emitWorld.eventsOf('CHUNK_LATTICE.ADD_CHUNK').length, chunks.length);
+    assert.strictEqual(syncReports.pop()!.synced, true);
+  });
+  
+  const silentWorld = new FakeWorld({ chunkEvents: false });
+  new DirectChunkLoaderV3(silentWorld, { loading: { onChunkSync } }).loadDirectly({ chunks }, blockTypes);
+  check('DirectChunkLoaderV3: chunks without events reported not-announced', () => {
+    const report = syncReports.pop()!;
+    assert.strictEqual(report.synced, false);
+    assert.strictEqual(report.announced, 0);
+    assert.strictEqual(report.issues.length, chunks.length);
+    assert.ok(report.issues.every(issue => issue.problem === 'not-announced'));
+    assert.deepStrictEqual(silentWorld.getBlocks(), mapData.blocks);
+  });
+  
+  const [removedKey] = syncWorld.chunkLattice._chunks.keys();
+  check('verifyChunkSync: chunk missing from the lattice reported not-listed', () => {
+    const loader = new DirectChunkLoaderV3(syncWorld, { loading: { verifySync: false } });
+    loader.loadDirectly({ chunks }, blockTypes);
+    syncWorld.chunkLattice._chunks.delete(removedKey);
+    const report = loader.verifyChunkSync();
+    assert.deepStrictEqual(report.issues.map(issue => `${issue.origin.x},${issue.origin.y},${issue.origin.z} ${issue.problem}`), [`${removedKey} not-listed`]);
+  });
+  
+  const binaryChunks = await new DirectChunkLoader(new FakeWorld()).precomputeChunks(mapData.blocks);
+  const binaryWorld = new FakeWorld();
+  new DirectChunkLoaderV3(binaryWorld).loadDirectly(binaryChunks, blockTypes);
+  check('DirectChunkLoaderV3: binary chunk cache', () => assert.deepStrictEqual(binaryWorld.getBlocks(), mapData.blocks));
+  
+  const precomputedWorld = new FakeWorld();
+  await new DirectChunkLoader(precomputedWorld).loadPrecomputedChunks(binaryChunks, blockTypes);
+  check('DirectChunkLoader: binary chunk cache', () => assert.deepStrictEqual(precomputedWorld.getBlocks(), mapData.blocks));
+  
+  // reloadMap: only the changed blocks are set
+  const reloadWorld = await load({ loading: { method: 'chunks' } });
+  reloadWorld.resetRecording();
+  const edited = createMap();
+  edited.blocks['0,1,0'] = 2;
+  delete edited.blocks['5,1,5'];
+  edited.blocks['40,0,40'] = 300;
+  await new MapCompression(reloadWorld, { metrics: false }).reloadMap(edited);
+  check('reloadMap: three SET_BLOCK events for three edits', () => {
+    assert.strictEqual(reloadWorld.eventsOf('CHUNK_LATTICE.SET_BLOCK').length, 3);
+    assert.strictEqual(reloadWorld.callsTo('chunkLattice.clear').length, 0);
+    assert.deepStrictEqual(reloadWorld.getBlocks(), edited.blocks);
+  });
+  
+  // Colliders: merged boxes cover every solid block once, precomputed or built at load
+  const columnBlocks = new Uint8Array(4096);
+  for (let i = 0; i < 256; i++) {
+    const x = i & 15, z = i >> 4;
+    columnBlocks[x + (z << 8)] = 2;              // Stone floor, y = 0
+    columnBlocks[x + (1 << 4) + (z << 8)] = 4;   // Water, y = 1
+  }
+  columnBlocks[2 + (2 << 8)] = 1;                // One grass block in the floor
+  const columnBoxes = ColliderBuilder.fromChunk({ x: 0, y: 0, z: 0 }, columnBlocks, ColliderBuilder.solidFilter([...blockTypes, { id: 4, name: 'water', isLiquid: true }]));
+  check('ColliderBuilder: greedy boxes per block type, liquids skipped', () => {
+    assert.strictEqual(ColliderBuilder.volume(columnBoxes), 256);
+    assert.ok(columnBoxes.length <= 5, `${columnBoxes.length} boxes`);
+    assert.ok(columnBoxes.every(box => box.y === 0 && box.height === 1 && box.id !== 4));
+  });
+  
+  const precomputedColliders = ChunkContainer.readColliders(binaryChunks)!;
+  check('precomputeChunks: collider boxes stored after the chunks', () => {
+    assert.ok(precomputedColliders.length > 0 && precomputedColliders.length < blockCount / 10);
+    assert.strictEqual(ColliderBuilder.volume(precomputedColliders), blockCount);
+    assert.strictEqual(Array.from(ChunkContainer.read(binaryChunks)).length, chunks.length);
+  });
+  
+  BaseWorldAdapter.useSdk(FakeWorld.sdk);
+  const physicsWorld = new FakeWorld();
+  const physicsLoader = new DirectChunkLoaderV3(physicsWorld);
+  physicsLoader.loadDirectly(binaryChunks, blockTypes);
+  const expectedColliders: { [key: string]: number } = {};
+  for (const key of Object.keys(mapData.blocks)) expectedColliders[key] = 1;
+  check('DirectChunkLoaderV3: precomputed colliders cover every block once', () => {
+    assert.strictEqual(physicsWorld.simulation!.colliders.length, precomputedColliders.length);
+    assert.deepStrictEqual(physicsWorld.getColliderBlocks(), expectedColliders);
+  });
+  
+  physicsLoader.loadDirectly({ chunks }, blockTypes);
+  check('DirectChunkLoaderV3: colliders merged at load, old ones removed', () => {
+    assert.strictEqual(physicsWorld.simulation!.colliders.length, precomputedColliders.length);
+    assert.deepStrictEqual(physicsWorld.getColliderBlocks(), expectedColliders);
+  });
+  
+  const physicsMap = createMap();
+  delete physicsMap.blocks['0,0,0'];
+  physicsMap.blocks['3,12,3'] = 2;
+  await new MapCompression(physicsWorld, { metrics: false }).reloadMap(physicsMap);
+  const reloadedColliders: { [key: string]: number } = {};
+  for (const key of Object.keys(physicsMap.blocks)) reloadedColliders[key] = 1;
+  check('reloadMap: colliders of changed injected chunks rebuilt', () => {
+    assert.strictEqual(physicsWorld.getColliderBlocks()['0,0,0'], undefined);
+    assert.deepStrictEqual(physicsWorld.getColliderBlocks(), reloadedColliders);
+  });
+  
+  // reloadMap: entity changes are despawned and spawned through the SDK's Entity class
+  const entityWorld = await load({ loading: { method: 'default' } });
+  const entityMap = createMap();
+  entityMap.entities = {
+    '0.5,3,0.5': { modelUri: 'models/flag.gltf', modelScale: 2 },
+    '8.5,3,-4.5': { modelUri: 'models/lamp.gltf' }
+  };
+  const entityReload = await new MapCompression(entityWorld, { metrics: false }).reloadMap(entityMap);
+  const spawnedEntities = () => entityWorld.entityManager.getAllEntities().map((entity: any) => [entity.position, entity.options.modelUri, entity.options.modelScale]);
+  check('reloadMap: changed and added entities respawned', () => {
+    assert.deepStrictEqual(entityReload.entities, { added: ['8.5,3,-4.5'], removed: [], changed: ['0.5,3,0.5'] });
+    assert.strictEqual(entityReload.entitiesSynced, true);
+    assert.strictEqual(entityWorld.callsTo('entityManager.unregisterEntity').length, 1);
+    assert.deepStrictEqual(spawnedEntities(), [
+      [{ x: 8.5, y: 3, z: -4.5 }, 'models/lamp.gltf', undefined],
+      [{ x: 0.5, y: 3, z: 0.5 }, 'models/flag.gltf', 2]
+    ]);
+  });
+  
+  entityMap.entities = { '8.5,3,-4.5': { modelUri: 'models/lamp.gltf' } };
+  await new MapCompression(entityWorld, { metrics: false }).reloadMap(entityMap);
+  check('reloadMap: removed entity despawned', () => {
+    assert.deepStrictEqual(spawnedEntities(), [[{ x: 8.5, y: 3, z: -4.5 }, 'models/lamp.gltf', undefined]]);
+    assert.deepStrictEqual(entityWorld.entities, entityMap.entities);
+  });
+  BaseWorldAdapter.useSdk(null);
+  
+  const unsyncedWorld = await load({ loading: { method: 'default' } });
+  const unsyncedReload = await new MapCompression(unsyncedWorld, { metrics: false }).reloadMap(entityMap);
+  check('reloadMap: without the SDK entity changes are only recorded', () => {
+    assert.strictEqual(unsyncedReload.entitiesSynced, false);
+    assert.strictEqual(unsyncedWorld.callsTo('entityManager.unregisterEntity').length, 0);
+    assert.deepStrictEqual(unsyncedWorld.entities, entityMap.entities);
+  });
+  
+  // LoaderConformance: every strategy builds the same world from one map
+  const conformance = await LoaderConformance.check(compressed);
+  check('conformance: every current strategy places the map exactly', () => {
+    const disagreeing = conformance.strategies.filter(result => !result.matches);
+    assert.deepStrictEqual(disagreeing.map(result => `${result.strategy}: ${result.error ?? result.differences}`), []);
+    assert.deepStrictEqual(conformance.strategies.map(result => result.strategy), LoaderConformance.DEFAULT_STRATEGIES);
+    assert.strictEqual(conformance.conforms, true);
+    assert.strictEqual(conformance.blockCount, blockCount);
+  });
+  // The headerless legacy chunk format is split by coordinate heuristics and folds Y into one chunk
+  const legacyReport = await LoaderConformance.check(compressed, { strategies: ['precomputed-legacy'] });
+  const legacy = legacyReport.strategies[0];
+  check('conformance: legacy binary chunks only on request, reported with coordinates', () => {
+    assert.strictEqual(legacyReport.conforms, false);
+    assert.ok(legacy.differences > 0);
+    assert.ok(legacy.samples.length > 0 && legacy.samples.every(sample => mapData.blocks[`${sample.x},${sample.y},${sample.z}`] !== sample.actual));
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every loading strategy placed the map exactly');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testLoaders().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,171 @@
+/**
+ * Parallel test - segmented compression in worker threads writes the same bytes
+ * as the main thread, in every partition and block encoding, and decoding those
+ * segments in worker threads gives the same blocks, chunks and voxels
+ * Custom codecs never reach a worker: they only exist in this thread
+ */
+
+import { MapCompressor, MapDecompressor, CodecRegistry } from './src/index';
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+
+const WORKERS = 2;
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' },
+  { id: 3, name: 'ore', textureUri: 'blocks/ore.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -32; x < 32; x++) {
+    for (let z = -32; z < 32; z++) {
+      const height = 4 + ((x * 7 + z * 13) & 31);
+      for (let y = 0; y < height; y += 3) {
+        blocks[`${x},${y},${z}`] = y === 0 ? 2 : (x + y + z) % 11 === 0 ? 3 : 1;
+      }
+    }
+  }
+  return { blockTypes, blocks, entities: {} };
+}
+
+/**
+ * Chunks keyed by origin, comparable whatever order the segments came back in
+ */
+function chunkRecord(chunks: Array<{ origin: { x: number; y: number; z: number }; blocks: ArrayLike<number> }>) {
+  return Object.fromEntries(chunks.map(chunk => [`${chunk.origin.x},${chunk.origin.y},${chunk.origin.z}`, Array.from(chunk.blocks)]));
+}
+
+/**
+ * Run a function with console output captured instead of printed
+ */
+async function captured<T>(run: () => Promise<T>): Promise<{ result: T; output: string }> {
+  const lines: string[] = [];
+  const { log, warn } = console;
+  console.log = console.warn = (...args: any[]) => { lines.push(args.join(' ')); };
+  try {
+    return { result: await run(), output: lines.join('\n') };
+  } finally {
+    Object.assign(console, { log, warn });
+  }
+}
+
+async function testParallel() {
+  console.log('=== PARALLEL TEST ===\n');
+  
+  const mapData = createMap();
+  const blockCount = Object.keys(mapData.blocks).length;
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  /**
+   * Compress on the main thread and in workers with the same compression options
+   * (the default partition size depends on the worker count, so cases set one)
+   */
+  const compressBoth = async (compression: any) => {
+    const serial = await new MapCompressor({ compression: { ...compression, parallel: true, workers: 0 } }).compress(mapData);
+    const { result: parallel, output } = await captured(() =>
+      new MapCompressor({ debug: true, compression: { ...compression, parallel: true, workers: WORKERS } }).compress(mapData)
+    );
+    return { serial, parallel, output };
+  };
+  
+  for (const compression of [
+    { partition: 'y-slabs', partitionSize: 8 },
+    { partition: 'columns', partitionSize: 16 },
+    { partition: 'y-slabs', partitionSize: 8, blockEncoding: 'palette' },
+    { partition: 'columns', partitionSize: 16, blockEncoding: 'columnar', algorithm: 'gzip' }
+  ] as const) {
+    const { serial, parallel, output } = await compressBoth(compression);
+    const decoded = await new MapDecompressor().decompress(new MapCompressor({ compression }).createCompressedMap(parallel, mapData));
+    check(`${Object.values(compression).join(', ')}: workers write the main thread's segments`, () => {
+      assert.match(output, new RegExp(`segments \\(${compression.partition}, \\d+ blocks\\) using ${WORKERS} workers`));
+      assert.doesNotMatch(output, /Worker tasks failed/);
+      assert.ok(parallel.segments!.length > 1, `${parallel.segments!.length} segment`);
+      assert.strictEqual(parallel.options!.partition, compression.partition);
+      assert.deepStrictEqual(parallel.segments, serial.segments);
+      assert.strictEqual(parallel.data, serial.data);
+      assert.deepStrictEqual(decoded.blocks, mapData.blocks);
+    });
+    check(`${Object.values(compression).join(', ')}: segments tile the file and the map`, () => {
+      let offset = 0;
+      for (const segment of parallel.segments!) {
+        assert.strictEqual(segment.offset, offset);
+        offset += segment.length;
+      }
+      assert.strictEqual(offset, Buffer.from(parallel.data as string, 'base64').length);
+      assert.strictEqual(parallel.segments!.reduce((sum, segment) => sum + segment.blockCount!, 0), blockCount);
+    });
+  }
+  
+  // Decompression: every output decoded in workers matches the main thread
+  const compressor = new MapCompressor({ compression: { parallel: true, partition: 'y-slabs', partitionSize: 8, workers: 0 } });
+  const compressed = compressor.createCompressedMap(await compressor.compress(mapData), mapData);
+  const serialDecompressor = new MapDecompressor({ decompression: { parallel: true, workers: 0 } });
+  const parallelDecompressor = new MapDecompressor({ debug: true, decompression: { parallel: true, workers: WORKERS } });
+  const serialChunks = await serialDecompressor.decompressChunks(compressed);
+  const serialVoxels = await serialDecompressor.decompressVoxels(compressed);
+  const { result: decoded, output: decodeOutput } = await captured(async () => ({
+    blocks: (await parallelDecompressor.decompress(compressed)).blocks,
+    chunks: await parallelDecompressor.decompressChunks(compressed),
+    voxels: await parallelDecompressor.decompressVoxels(compressed)
+  }));
+  check('decompress, decompressChunks and decompressVoxels: workers match the main thread', () => {
+    const segmentCount = compressed.segments!.length;
+    assert.strictEqual(decodeOutput.match(new RegExp(`Decoded ${segmentCount} segments using ${WORKERS} workers`, 'g'))!.length, 3);
+    assert.doesNotMatch(decodeOutput, /Worker tasks failed/);
+    assert.deepStrictEqual(decoded.blocks, mapData.blocks);
+    assert.deepStrictEqual(chunkRecord(decoded.chunks.chunks), chunkRecord(serialChunks.chunks));
+    assert.strictEqual(decoded.chunks.metadata.blockCount, blockCount);
+    assert.deepStrictEqual(decoded.voxels.blocks.toDictionary(), serialVoxels.blocks.toDictionary());
+    assert.deepStrictEqual(decoded.voxels.blocks.toDictionary(), mapData.blocks);
+  });
+  
+  // Custom codecs exist only on this thread: segments are encoded in workers and
+  // compressed here, and decoded here without trying the workers first
+  CodecRegistry.register('reversed-gzip', {
+    compress: (data: Buffer) => Buffer.from(zlib.gzipSync(data)).reverse(),
+    decompress: (data: Buffer) => zlib.gunzipSync(Buffer.from(data).reverse())
+  });
+  const custom = await compressBoth({ algorithm: 'reversed-gzip', partitionSize: 8 });
+  const customMap = new MapCompressor({ compression: { algorithm: 'reversed-gzip' } }).createCompressedMap(custom.parallel, mapData);
+  const { result: customDecoded, output: customDecodeOutput } = await captured(async () => ({
+    blocks: (await parallelDecompressor.decompress(customMap)).blocks,
+    chunks: await parallelDecompressor.decompressChunks(customMap)
+  }));
+  CodecRegistry.unregister('reversed-gzip');
+  check('custom codec: encoded in workers, compressed on the main thread', () => {
+    assert.match(custom.output, new RegExp(`using ${WORKERS} workers`));
+    assert.doesNotMatch(custom.output, /Worker tasks failed/);
+    assert.strictEqual(custom.parallel.data, custom.serial.data);
+  });
+  check('custom codec: decoded on the main thread, no worker failures', () => {
+    assert.match(customDecodeOutput, /segments using 0 workers/);
+    assert.doesNotMatch(customDecodeOutput, /using [1-9]\d* workers|\[WorkerPool\]/);
+    assert.deepStrictEqual(customDecoded.blocks, mapData.blocks);
+    assert.strictEqual(customDecoded.chunks.metadata.blockCount, blockCount);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Worker threads and the main thread agree on every segment');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testParallel().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
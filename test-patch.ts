@@ -0,0 +1,193 @@
+/**
+ * Patch test - MapPatcher.diff() and apply() between two versions of a map
+ * Checks added, removed and changed blocks, block type and entity record patches,
+ * that a patch is rejected for any map but its base and that applyPatch() works
+ * on compressed maps
+ */
+
+import { MapCompression, MapCompressor, MapContainer, MapPatcher, FakeWorld } from './src/index';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' },
+  { id: 3, name: 'glass', textureUri: 'blocks/glass.png', isLiquid: false }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -16; x < 16; x++) {
+    for (let z = -16; z < 16; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x + z) % 6 === 0) blocks[`${x},1,${z}`] = 1;
+    }
+  }
+  return {
+    blockTypes,
+    blocks,
+    entities: {
+      '0.5,2,0.5': { modelUri: 'models/flag.gltf', name: 'Flag' },
+      '-8.5,1,4.5': { modelUri: 'models/crate.gltf', name: 'Crate', modelScale: 0.5 }
+    },
+    version: '1.0.0'
+  };
+}
+
+/**
+ * The next version of the map: 2 blocks added, 3 removed, 4 changed
+ */
+function editMap(): any {
+  const edited = createMap();
+  edited.blocks['40,12,-40'] = 3;
+  edited.blocks['-3,1,-2'] = 3;
+  delete edited.blocks['0,0,0'];
+  delete edited.blocks['15,0,15'];
+  delete edited.blocks['0,1,0'];
+  edited.blocks['-16,0,-16'] = 1;
+  edited.blocks['-16,0,15'] = 3;
+  edited.blocks['6,1,0'] = 2;
+  edited.blocks['-6,1,0'] = 3;
+  edited.version = '1.1.0';
+  return edited;
+}
+
+async function testPatch() {
+  console.log('=== PATCH TEST ===\n');
+  
+  const mapData = createMap();
+  const edited = editMap();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // Blocks: counted, applied exactly, records untouched
+  const blockPatch = await MapPatcher.diff(mapData, edited);
+  const blockResult = await MapPatcher.apply(mapData, blockPatch);
+  check('blocks: added, removed and changed blocks applied', () => {
+    assert.deepStrictEqual(
+      { added: blockPatch.metadata.added, removed: blockPatch.metadata.removed, changed: blockPatch.metadata.changed },
+      { added: 2, removed: 3, changed: 4 }
+    );
+    assert.deepStrictEqual(blockResult.blocks, edited.blocks);
+    assert.strictEqual(blockResult.version, '1.1.0');
+    assert.strictEqual(blockPatch.blockTypes, undefined);
+    assert.strictEqual(blockPatch.entities, undefined);
+    assert.deepStrictEqual(blockResult.entities, mapData.entities);
+  });
+  
+  // No changes: an empty patch between equal hashes
+  const emptyPatch = await MapPatcher.diff(mapData, createMap());
+  const emptyResult = await MapPatcher.apply(mapData, emptyPatch);
+  check('no changes: empty patch, base and target hash equal', () => {
+    assert.strictEqual(emptyPatch.metadata.added + emptyPatch.metadata.removed + emptyPatch.metadata.changed, 0);
+    assert.strictEqual(emptyPatch.baseHash, emptyPatch.targetHash);
+    assert.deepStrictEqual(emptyResult.blocks, mapData.blocks);
+  });
+  
+  // Block types as a record: one changed, one added, one removed
+  const typeRecord = (types: any[]) => Object.fromEntries(types.map(type => [type.name, type]));
+  const recordMap = { ...createMap(), blockTypes: typeRecord(blockTypes) };
+  const retyped = {
+    ...createMap(),
+    blockTypes: typeRecord([{ ...blockTypes[0], textureUri: 'blocks/grass_v2' }, blockTypes[1], { id: 4, name: 'lamp', textureUri: 'blocks/lamp.png', lightLevel: 15 }])
+  };
+  const typePatch = await MapPatcher.diff(recordMap, retyped);
+  const typeResult = await MapPatcher.apply(recordMap, typePatch);
+  check('block types: changed, added and removed types patched', () => {
+    assert.deepStrictEqual(typePatch.blockTypes, { set: { grass: retyped.blockTypes.grass, lamp: retyped.blockTypes.lamp }, removed: ['glass'] });
+    assert.deepStrictEqual(typeResult.blockTypes, retyped.blockTypes);
+    assert.strictEqual(typePatch.metadata.added + typePatch.metadata.removed + typePatch.metadata.changed, 0);
+  });
+  
+  // Block types as an array are replaced whole
+  const arrayRetyped = { ...createMap(), blockTypes: [...blockTypes.slice(0, 2), { id: 4, name: 'lamp', textureUri: 'blocks/lamp.png' }] };
+  const arrayPatch = await MapPatcher.diff(mapData, arrayRetyped);
+  const arrayResult = await MapPatcher.apply(mapData, arrayPatch);
+  check('block types: an array replaces the list whole', () => {
+    assert.deepStrictEqual(arrayPatch.blockTypes, { replace: arrayRetyped.blockTypes });
+    assert.deepStrictEqual(arrayResult.blockTypes, arrayRetyped.blockTypes);
+  });
+  
+  // Entities: one moved (removed + added), one changed, one new
+  const moved = createMap();
+  moved.entities = {
+    '0.5,2,0.5': { modelUri: 'models/flag.gltf', name: 'Flag', modelScale: 2 },
+    '-7.5,1,4.5': { modelUri: 'models/crate.gltf', name: 'Crate', modelScale: 0.5 },
+    '12.25,1,-3.75': { modelUri: 'models/lamp.gltf', name: 'Lamp' }
+  };
+  const entityPatch = await MapPatcher.diff(mapData, moved);
+  const entityResult = await MapPatcher.apply(mapData, entityPatch);
+  check('entities: moved, changed and added entities patched', () => {
+    assert.deepStrictEqual(Object.keys(entityPatch.entities!.set!).sort(), ['-7.5,1,4.5', '0.5,2,0.5', '12.25,1,-3.75']);
+    assert.deepStrictEqual(entityPatch.entities!.removed, ['-8.5,1,4.5']);
+    assert.deepStrictEqual(entityResult.entities, moved.entities);
+    assert.deepStrictEqual(entityResult.blocks, mapData.blocks);
+  });
+  
+  // Entities stored as a list are replaced whole
+  const listed = { ...createMap(), entities: [{ modelUri: 'models/flag.gltf', position: { x: 0.5, y: 2, z: 0.5 } }] };
+  const listPatch = await MapPatcher.diff(mapData, listed);
+  const listResult = await MapPatcher.apply(mapData, listPatch);
+  check('entities: a list replaces the record whole', () => {
+    assert.deepStrictEqual(listPatch.entities, { replace: listed.entities });
+    assert.deepStrictEqual(listResult.entities, listed.entities);
+  });
+  
+  // A patch only applies to its base map
+  const rejection = async (base: any, patch: any) => {
+    try {
+      await MapPatcher.apply(base, patch);
+      return null;
+    } catch (error: any) {
+      return error.message as string;
+    }
+  };
+  const onTarget = await rejection(edited, blockPatch);
+  const onOther = await rejection({ ...createMap(), entities: {} }, blockPatch);
+  const tampered = await rejection(mapData, { ...blockPatch, entities: { set: { '1,1,1': { modelUri: 'models/x.gltf' } } } });
+  const unsupported = await rejection(mapData, { ...blockPatch, version: '1.0.0' });
+  check('rejected: base hash mismatch, target mismatch and old versions', () => {
+    assert.match(onTarget!, /^Patch does not apply to this map \(base hash [0-9a-f]+, patch expects [0-9a-f]+\)$/);
+    assert.match(onOther!, /^Patch does not apply to this map/);
+    assert.match(tampered!, /^Patched map does not match the patch target/);
+    assert.strictEqual(unsupported, 'Unsupported map patch version 1.0.0');
+  });
+  
+  // MapCompression: diff a .hmc against raw data, patch the compressed map
+  const mc = new MapCompression(new FakeWorld(), { metrics: false });
+  const compressor = new MapCompressor();
+  const container = MapContainer.encode(compressor.createCompressedMap(await compressor.compress(mapData), mapData));
+  const patch = await mc.diff(container, edited);
+  const patched = await mc.decompress(await mc.applyPatch(container, patch));
+  let wrongBase: Error | null = null;
+  await mc.applyPatch(await mc.applyPatch(container, patch), patch).catch(error => wrongBase = error);
+  check('applyPatch: compressed map patched, patched map rejects it again', () => {
+    assert.strictEqual(patch.baseHash, blockPatch.baseHash);
+    assert.strictEqual(patch.targetHash, blockPatch.targetHash);
+    assert.deepStrictEqual(patched.blocks, edited.blocks);
+    assert.deepStrictEqual(patched.entities, edited.entities);
+    assert.strictEqual(patched.version, '1.1.0');
+    assert.match(wrongBase!.message, /^Patch does not apply to this map/);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every patch applied exactly or was rejected');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testPatch().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,130 @@
+/**
+ * Region test - decompressRegion() on maps written with compression.spatialIndex
+ * decodes only the columns that meet the box and returns exactly the blocks and
+ * entities inside it (inclusive bounds), the same as filtering the whole map
+ */
+
+import { MapCompression, MapCompressor, MapContainer, FakeWorld } from './src/index';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -96; x < 96; x++) {
+    for (let z = -96; z < 96; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x ^ z) % 7 === 0) blocks[`${x},${1 + (x & 7)},${z}`] = 1;
+    }
+  }
+  return {
+    blockTypes,
+    blocks,
+    entities: {
+      '10.5,2,10.5': { modelUri: 'models/flag.gltf', name: 'Inside' },
+      '-80.5,1,40.5': { modelUri: 'models/crate.gltf', name: 'Outside' },
+      'spawn': { modelUri: 'models/spawn.gltf', position: { x: 20.5, y: 1, z: 30 } },
+      'far': { modelUri: 'models/spawn.gltf', x: 90, y: 1, z: -90 },
+      'unplaced': { modelUri: 'models/sky.gltf' }
+    },
+    version: '1.0.0'
+  };
+}
+
+/**
+ * The map's blocks inside a box, found by scanning every key
+ */
+function blocksInside(blocks: { [key: string]: number }, region: any): { [key: string]: number } {
+  return Object.fromEntries(Object.entries(blocks).filter(([key]) => {
+    const [x, y, z] = key.split(',').map(Number);
+    return x >= region.minX && x <= region.maxX && y >= region.minY && y <= region.maxY && z >= region.minZ && z <= region.maxZ;
+  }));
+}
+
+async function testRegion() {
+  console.log('=== REGION TEST ===\n');
+  
+  const mapData = createMap();
+  const mc = new MapCompression(new FakeWorld(), { metrics: false });
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  const compress = async (compression: any) => {
+    const compressor = new MapCompressor({ compression });
+    return MapContainer.encode(compressor.createCompressedMap(await compressor.compress(mapData), mapData));
+  };
+  const indexed = await compress({ spatialIndex: true });
+  const narrow = await compress({ spatialIndex: true, partitionSize: 32 });
+  const plain = await compress({});
+  const segmentCount = (MapContainer.decode(indexed) as any).segments.length;
+  
+  check('spatialIndex: 64-block columns with bounds', () => {
+    const decoded: any = MapContainer.decode(indexed);
+    assert.strictEqual(decoded.options.partition, 'columns');
+    assert.strictEqual(segmentCount, 9);
+    assert.ok(decoded.segments.every((segment: any) => segment.bounds.maxX - segment.bounds.minX < 64 && segment.bounds.maxZ - segment.bounds.minZ < 64));
+    assert.strictEqual((MapContainer.decode(narrow) as any).segments.length, 36);
+  });
+  
+  // A box inside one column, one across four, one across every column
+  for (const [name, region, decodedSegments] of [
+    ['one column', { minX: 0, minY: 0, minZ: 0, maxX: 31, maxY: 40, maxZ: 31 }, 1],
+    ['four columns', { minX: -40, minY: 1, minZ: -40, maxX: -20, maxY: 4, maxZ: -20 }, 4],
+    ['whole map', { minX: -200, minY: -10, minZ: -200, maxX: 200, maxY: 200, maxZ: 200 }, segmentCount]
+  ] as const) {
+    const result = await mc.decompressRegion(indexed, region);
+    const unindexed = await mc.decompressRegion(plain, region);
+    check(`${name}: blocks inside the box, ${decodedSegments}/${segmentCount} segments decoded`, () => {
+      const expected = blocksInside(mapData.blocks, region);
+      assert.ok(Object.keys(expected).length > 0);
+      assert.deepStrictEqual(result.blocks, expected);
+      assert.strictEqual(result.metadata!.blockCount, Object.keys(expected).length);
+      assert.strictEqual(result.metadata!.segmentsDecoded, decodedSegments);
+      assert.deepStrictEqual(unindexed.blocks, expected);
+      assert.strictEqual(unindexed.metadata!.segmentsDecoded, 1);
+    });
+  }
+  
+  // Inclusive bounds on both ends, a box holding nothing, fewer segments with wider columns
+  const edge = await mc.decompressRegion(indexed, { minX: -96, minY: 0, minZ: 95, maxX: -96, maxY: 0, maxZ: 95 });
+  const empty = await mc.decompressRegion(indexed, { minX: 500, minY: 0, minZ: 500, maxX: 600, maxY: 10, maxZ: 600 });
+  const narrowResult = await mc.decompressRegion(narrow, { minX: 0, minY: 0, minZ: 0, maxX: 31, maxY: 40, maxZ: 31 });
+  check('edges, empty boxes and narrower columns', () => {
+    assert.deepStrictEqual(edge.blocks, { '-96,0,95': 2 });
+    assert.deepStrictEqual(empty.blocks, {});
+    assert.strictEqual(empty.metadata!.segmentsDecoded, 0);
+    assert.strictEqual(narrowResult.metadata!.segmentsDecoded, 1);
+    assert.deepStrictEqual(narrowResult.blocks, blocksInside(mapData.blocks, { minX: 0, minY: 0, minZ: 0, maxX: 31, maxY: 40, maxZ: 31 }));
+  });
+  
+  // Entities: kept by "x,y,z" key or position fields, unplaced entities always kept
+  const entities = (await mc.decompressRegion(indexed, { minX: 0, minY: 0, minZ: 0, maxX: 31, maxY: 40, maxZ: 31 })).entities;
+  check('entities inside the box, and those without a position', () => {
+    assert.deepStrictEqual(Object.keys(entities).sort(), ['10.5,2,10.5', 'spawn', 'unplaced']);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every region decoded exactly, from only the segments it meets');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testRegion().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,202 @@
+/**
+ * Remap test - BlockIdRemapper compacts sparse block IDs or matches them onto the
+ * world's registry by name or texture, and the same mapping reaches blocks, chunk
+ * arrays, streamed batches, block types and entity fields
+ * Checks remapBlockIds() and every load path with blockIds.remap set
+ */
+
+import { MapCompression, MapCompressor, MapDecompressor, BlockIdRemapper, DirectChunkLoader, DirectChunkLoaderV3, VoxelStore, FakeWorld } from './src/index';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 10, name: 'grass', textureUri: 'blocks/grass.png' },
+  { id: 42, name: 'stone', textureUri: 'blocks/stone.png' },
+  { id: 500, name: 'marble', textureUri: 'blocks/marble.png' },
+  { id: 7, name: 'glass', textureUri: 'blocks/glass.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -24; x < 24; x++) {
+    for (let z = -24; z < 24; z++) {
+      blocks[`${x},0,${z}`] = 42;
+      blocks[`${x},1,${z}`] = (x + z) % 5 === 0 ? 500 : 10;
+      if ((x * z) % 7 === 0) blocks[`${x},2,${z}`] = 7;
+    }
+  }
+  // Used by blocks but missing from blockTypes
+  blocks['0,8,0'] = 77;
+  return {
+    blockTypes,
+    blocks,
+    entities: {
+      '0.5,3,0.5': { modelUri: 'models/spawner.gltf', blockId: 500, drops: [{ blockTypeId: 42 }], count: 42 }
+    }
+  };
+}
+
+/**
+ * The map with every block ID, block type ID and entity block field passed through ids
+ */
+function withIds(mapData: any, ids: { [id: number]: number }): any {
+  const blocks: { [key: string]: number } = {};
+  for (const key in mapData.blocks) blocks[key] = ids[mapData.blocks[key]];
+  return {
+    blocks,
+    blockTypes: mapData.blockTypes.map((blockType: any) => ({ ...blockType, id: ids[blockType.id] })),
+    entities: {
+      '0.5,3,0.5': { modelUri: 'models/spawner.gltf', blockId: ids[500], drops: [{ blockTypeId: ids[42] }], count: 42 }
+    }
+  };
+}
+
+/**
+ * Registered block types of a world, by ID
+ */
+function registered(world: FakeWorld): { [id: number]: string } {
+  const result: { [id: number]: string } = {};
+  for (const blockType of world.blockTypeRegistry.getAllBlockTypes()) result[blockType.id] = blockType.name;
+  return result;
+}
+
+async function testRemap() {
+  console.log('=== REMAP TEST ===\n');
+  
+  const mapData = createMap();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // Compact: 1..n in ID order, unknown IDs after them, air untouched
+  const compactIds = { 7: 1, 10: 2, 42: 3, 500: 4, 77: 5 };
+  const compacted = withIds(mapData, compactIds);
+  const compact = BlockIdRemapper.compact(mapData.blockTypes);
+  const typeEntries = compact.entries();
+  const compactMap = compact.remapMap(mapData);
+  check('compact: 1..n in ID order, unknown IDs next, air kept', () => {
+    assert.deepStrictEqual(typeEntries, new Map([[7, 1], [10, 2], [42, 3], [500, 4]]));
+    assert.deepStrictEqual(compactMap, { ...mapData, ...compacted });
+    assert.deepStrictEqual(compact.entries(), new Map(Object.entries(compactIds).map(([from, to]) => [Number(from), to])));
+    assert.strictEqual(compact.map(0), 0);
+    assert.strictEqual(compact.isIdentity, false);
+    assert.strictEqual(BlockIdRemapper.compact([{ id: 1 }, { id: 2 }]).isIdentity, true);
+  });
+  
+  // The same mapping for chunk arrays, voxel stores and streamed batches
+  const wideChunk = new Uint16Array(4096);
+  wideChunk[0] = 500;
+  wideChunk[4095] = 77;
+  const narrowed = compact.remapChunk(wideChunk);
+  const store = compact.remapBlocks(VoxelStore.from(mapData.blocks)) as VoxelStore;
+  const streamed: any[] = [];
+  async function* batches() {
+    yield [{ x: 0, y: 1, z: 0, id: 10 }, { x: 1, y: 1, z: 0, id: 500 }];
+    yield [{ x: 0, y: 8, z: 0, id: 77 }];
+  }
+  for await (const batch of compact.remapBlockStream(batches())) streamed.push(...batch.map(block => block.id));
+  check('chunks, voxel stores and block streams: same IDs, chunks narrowed', () => {
+    assert.ok(narrowed instanceof Uint8Array);
+    assert.deepStrictEqual([narrowed[0], narrowed[1], narrowed[4095]], [4, 0, 5]);
+    assert.ok(VoxelStore.isVoxelStore(store));
+    assert.deepStrictEqual(store.toDictionary(), compacted.blocks);
+    assert.deepStrictEqual(streamed, [2, 4, 5]);
+  });
+  
+  // Registry: name first, then texture; free IDs kept, taken ones moved
+  // (by texture alone, stone has no match and keeps its free ID 42)
+  const registry = [
+    { id: 1, name: 'stone', textureUri: 'textures/rock.png' },
+    { id: 2, name: 'turf', textureUri: 'blocks/grass.png' },
+    { id: 500, name: 'lava', textureUri: 'blocks/lava.png' },
+    { id: 3, name: 'marble', textureUri: 'blocks/marble.png' }
+  ];
+  const matched = BlockIdRemapper.matchRegistry(mapData.blockTypes, registry);
+  const byTexture = BlockIdRemapper.matchRegistry(mapData.blockTypes, registry, ['textureUri']);
+  check('registry: matched by name or texture, unmatched kept or moved', () => {
+    assert.deepStrictEqual(matched.entries(), new Map([[10, 2], [42, 1], [500, 3], [7, 7]]));
+    assert.strictEqual(matched.map(77), 4);
+    assert.deepStrictEqual(byTexture.entries(), new Map([[10, 2], [500, 3], [42, 42], [7, 7]]));
+  });
+  
+  check('create: none, identity and unknown modes', () => {
+    const world = new FakeWorld();
+    assert.strictEqual(BlockIdRemapper.create('none', mapData.blockTypes, world), null);
+    assert.strictEqual(BlockIdRemapper.create(undefined, mapData.blockTypes, world), null);
+    assert.strictEqual(BlockIdRemapper.create('compact', [{ id: 1 }, { id: 2 }], world), null);
+    assert.strictEqual(BlockIdRemapper.create('registry', mapData.blockTypes, world), null);
+    assert.throws(() => BlockIdRemapper.create('dense' as any, mapData.blockTypes, world), /^Error: Unknown block ID remap mode "dense"$/);
+  });
+  
+  // remapBlockIds(): the map rewritten once, compressed again
+  const compressor = new MapCompressor();
+  const compressed = compressor.createCompressedMap(await compressor.compress(mapData), mapData);
+  const rewritten = await new MapCompression(new FakeWorld(), { metrics: false }).remapBlockIds(compressed);
+  const rewrittenMap = await new MapDecompressor().decompress(rewritten);
+  check('remapBlockIds(): compressed map rewritten with compact IDs', () => {
+    assert.deepStrictEqual(rewrittenMap.blocks, compacted.blocks);
+    assert.deepStrictEqual(rewrittenMap.blockTypes, compacted.blockTypes);
+    assert.deepStrictEqual(rewrittenMap.entities, compacted.entities);
+  });
+  
+  // Every load path: blocks, registered block types and entities remapped alike
+  const expectedTypes = { 1: 'glass', 2: 'grass', 3: 'stone', 4: 'marble' };
+  const indexed = new MapCompressor({ compression: { spatialIndex: true, partitionSize: 16 } });
+  const segmented = indexed.createCompressedMap(await indexed.compress(mapData), mapData);
+  for (const [name, options, data] of [
+    ['default', { loading: { method: 'default' } }, compressed],
+    ['chunks', { loading: { method: 'chunks' } }, compressed],
+    ['hybrid', { loading: { method: 'hybrid' } }, compressed],
+    ['streaming', { loading: { method: 'chunks', streaming: true } }, compressed],
+    ['parallel segments', { decompression: { parallel: true, workers: 2 } }, segmented]
+  ] as const) {
+    const world = new FakeWorld();
+    await new MapCompression(world, { metrics: false, ...options, blockIds: { remap: 'compact' } } as any).loadMap(data);
+    check(`load (${name}): blocks, block types and entities compacted`, () => {
+      assert.deepStrictEqual(world.getBlocks(), compacted.blocks);
+      assert.deepStrictEqual(registered(world), expectedTypes);
+      assert.deepStrictEqual(world.entities, compacted.entities);
+    });
+  }
+  
+  // Registry mode on load, against block types the world already has
+  const registryWorld = new FakeWorld();
+  for (const blockType of registry) registryWorld.blockTypeRegistry.registerGenericBlockType(blockType);
+  await new MapCompression(registryWorld, { metrics: false, blockIds: { remap: 'registry' } }).loadMap(compressed);
+  check('load (registry): blocks land on the world\'s IDs', () => {
+    assert.deepStrictEqual(registryWorld.getBlocks(), withIds(mapData, { 7: 7, 10: 2, 42: 1, 500: 3, 77: 4 }).blocks);
+    assert.strictEqual(registryWorld.entities['0.5,3,0.5'].blockId, 3);
+  });
+  
+  // Precomputed chunks: both chunk loaders take the remapper
+  const binary = await new DirectChunkLoader(new FakeWorld()).precomputeChunks(mapData.blocks);
+  const v2World = new FakeWorld();
+  await new DirectChunkLoader(v2World).loadPrecomputedChunks(binary, mapData.blockTypes, BlockIdRemapper.compact(mapData.blockTypes));
+  const v3World = new FakeWorld();
+  new DirectChunkLoaderV3(v3World).loadDirectly(binary, mapData.blockTypes, BlockIdRemapper.compact(mapData.blockTypes));
+  check('precomputed chunks: DirectChunkLoader and DirectChunkLoaderV3 remap', () => {
+    assert.deepStrictEqual(v2World.getBlocks(), compacted.blocks);
+    assert.deepStrictEqual(registered(v2World), expectedTypes);
+    assert.deepStrictEqual(v3World.getBlocks(), compacted.blocks);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every block ID was remapped the same way on every path');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testRemap().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
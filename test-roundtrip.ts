@@ -0,0 +1,200 @@
+/**
+ * Round-trip test - every map field and block type property survives
+ * compress → decompress → register, in every container and encoding
+ */
+
+import { MapCompression, MapCompressor, MapContainer, DirectChunkLoaderV3, BlockTypeRegistrar, EntityEncoder, FakeWorld } from './src/index';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass', isMultiTexture: true, isLiquid: false, isCustom: false },
+  { id: 2, name: 'water', textureUri: 'blocks/water.png', isLiquid: true, lightLevel: 0 },
+  {
+    id: 3,
+    name: 'lantern',
+    textureUri: 'blocks/lantern.png',
+    isLiquid: false,
+    isCustom: true,
+    lightLevel: 12,
+    customColliderOptions: { shape: 'ball', radius: 0.25, offset: { x: 0, y: -0.25, z: 0 } },
+    faceTextures: { top: 'blocks/lantern_top.png', bottom: 'blocks/lantern_bottom.png' },
+    tags: ['light', 'decor']
+  }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -20; x < 20; x++) {
+    for (let z = -20; z < 20; z++) {
+      blocks[`${x},0,${z}`] = 1;
+      if ((x + z) % 7 === 0) blocks[`${x},1,${z}`] = 2;
+      if (x % 9 === 0 && z % 9 === 0) blocks[`${x},2,${z}`] = 3;
+    }
+  }
+  return {
+    name: 'Round Trip Arena',
+    spawnPoints: [{ x: 0, y: 3, z: 0 }, { x: 10.5, y: 3, z: -4.25 }],
+    skybox: { uri: 'skyboxes/sunset', intensity: 0.8 },
+    settings: { gravity: -32, teams: ['red', 'blue'], hardcore: false, notes: null },
+    blockTypes,
+    blocks,
+    entities: {
+      '1.5,1,1.5': { modelUri: 'models/lamp.gltf', name: 'Lamp', modelScale: 0.5, rigidBodyOptions: { type: 'fixed' } },
+      '-3,1,7.25': { modelUri: 'models/lamp.gltf', name: 'Lamp', modelScale: 0.5, rigidBodyOptions: { type: 'fixed' } }
+    },
+    version: '2.0.0'
+  };
+}
+
+/**
+ * Block type definitions the world's registry received, in order
+ */
+function registered(world: FakeWorld): any[] {
+  return world.callsTo('blockTypeRegistry.registerGenericBlockType').map(call => call.args[0]);
+}
+
+const configurations: Array<{ name: string; options: any; container?: boolean }> = [
+  { name: 'json, varint-delta', options: {} },
+  { name: 'hmc, varint-delta', options: {}, container: true },
+  { name: 'hmc, palette', options: { compression: { blockEncoding: 'palette' } }, container: true },
+  { name: 'json, columnar', options: { compression: { blockEncoding: 'columnar' } } },
+  { name: 'hmc, spatial index', options: { compression: { spatialIndex: true } }, container: true },
+  { name: 'json, json entities', options: { compression: { entityEncoding: 'json' } } }
+];
+
+async function testRoundTrip() {
+  console.log('=== ROUND-TRIP PRESERVATION TEST ===\n');
+  
+  const mapData = createMap();
+  const expected = JSON.parse(JSON.stringify(mapData));
+  const expectedDefinitions = blockTypes.map(blockType => BlockTypeRegistrar.definition(blockType));
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  for (const { name, options, container } of configurations) {
+    const mc = new MapCompression(new FakeWorld(), { ...options, metrics: false });
+    const compressor = new MapCompressor(options);
+    const compressedMap = JSON.parse(JSON.stringify(compressor.createCompressedMap(await compressor.compress(mapData), mapData)));
+    const input = container ? MapContainer.encode(compressedMap) : compressedMap;
+    
+    // compress → decompress
+    const decompressed = await mc.decompress(input);
+    check(`${name}: map fields`, () => {
+      assert.deepStrictEqual(decompressed.fields, {
+        name: expected.name,
+        spawnPoints: expected.spawnPoints,
+        skybox: expected.skybox,
+        settings: expected.settings
+      });
+      assert.strictEqual(decompressed.version, expected.version);
+    });
+    check(`${name}: block types`, () => assert.deepStrictEqual(decompressed.blockTypes, expected.blockTypes));
+    check(`${name}: blocks and entities`, () => {
+      assert.deepStrictEqual(decompressed.blocks, expected.blocks);
+      assert.deepStrictEqual(decompressed.entities, expected.entities);
+    });
+    
+    // decompress → world.loadMap gets the whole map back
+    const world = new FakeWorld();
+    await new MapCompression(world, { ...options, metrics: false, loading: { method: 'monkeypatch' } }).loadMap(input);
+    check(`${name}: world.loadMap receives every field`, () => {
+      const { blocks, ...rest } = world.loadedMaps[0];
+      const { blocks: expectedBlocks, ...expectedRest } = expected;
+      assert.deepStrictEqual(rest, expectedRest);
+      assert.deepStrictEqual(blocks, expectedBlocks);
+    });
+  }
+  
+  // decompress → register: every loader passes the full definition through
+  const mc = new MapCompression(new FakeWorld(), { metrics: false });
+  const compressor = new MapCompressor();
+  const compressed = MapContainer.encode(compressor.createCompressedMap(await compressor.compress(mapData), mapData));
+  
+  const chunkWorld = new FakeWorld();
+  await new MapCompression(chunkWorld, { metrics: false, loading: { method: 'chunks' } }).loadMap(compressed);
+  check('chunks loader registers full block types', () => assert.deepStrictEqual(registered(chunkWorld), expectedDefinitions));
+  
+  const latticeWorld = new FakeWorld();
+  const decoded = await mc.decompressVoxels(compressed);
+  new DirectChunkLoaderV3(latticeWorld).loadDirectly({ chunks: decoded.blocks.toChunks() }, decoded.blockTypes);
+  check('DirectChunkLoaderV3 registers full block types', () => assert.deepStrictEqual(registered(latticeWorld), expectedDefinitions));
+  
+  const reloadWorld = new FakeWorld();
+  await new MapCompression(reloadWorld, { metrics: false }).reloadMap(compressed);
+  check('reloadMap registers full block types', () => assert.deepStrictEqual(registered(reloadWorld), expectedDefinitions));
+  
+  // diff → applyPatch: a change to an extra field alone is patched and hashed
+  const editedMap = { ...createMap(), skybox: { uri: 'skyboxes/night', intensity: 0.2 }, settings: undefined, motd: 'Welcome' };
+  const fieldPatch = await mc.diff(mapData, editedMap);
+  const patched = await mc.decompress(await mc.applyPatch(compressed, fieldPatch));
+  check('applyPatch updates, adds and removes extra map fields', () => {
+    assert.strictEqual(fieldPatch.metadata.added + fieldPatch.metadata.removed + fieldPatch.metadata.changed, 0);
+    assert.notStrictEqual(fieldPatch.baseHash, fieldPatch.targetHash);
+    assert.deepStrictEqual(patched.fields, {
+      name: expected.name,
+      spawnPoints: expected.spawnPoints,
+      skybox: { uri: 'skyboxes/night', intensity: 0.2 },
+      motd: 'Welcome'
+    });
+  });
+  
+  // EntityEncoder: packed entities decode to exactly what went in, key order included
+  const entityRecord = {
+    '12.375,4,-7.5': { modelUri: 'models/tree.gltf', name: 'Tree', modelScale: 1.25, rotation: { x: 0, y: 0.7071068, z: 0, w: 0.7071068 }, branches: [[1, 2.5], ['leaf', [null, true]]] },
+    '-0.125,4,3.3333': { modelUri: 'models/tree.gltf', name: 'Tree', modelScale: 0.8, rotation: { x: 0, y: -0.3826834, z: 0, w: 0.9238795 }, branches: [] },
+    '100,64.5,100': { modelUri: 'models/rock.gltf', name: 'Rock', opacity: 0.1 + 0.2, tint: null, lit: false }
+  };
+  const entityList = [
+    { modelUri: 'models/tree.gltf', position: { x: 1.5, y: 2, z: -3.25 }, rotation: { x: 0, y: 0.5, z: 0, w: 0.8660254 } },
+    { modelUri: 'models/tree.gltf', position: { x: -1e-6, y: 1234567.125, z: 0 }, tags: ['tree', 'tree', 'tall'] }
+  ];
+  for (const [name, entities] of [['record', entityRecord], ['list', entityList]] as const) {
+    const packed = EntityEncoder.encode(entities);
+    check(`EntityEncoder: ${name} of entities round-trips`, () => {
+      const decoded = EntityEncoder.decode(packed);
+      assert.deepStrictEqual(decoded, entities);
+      assert.strictEqual(JSON.stringify(decoded), JSON.stringify(entities));
+      assert.strictEqual(packed.toString('latin1').split('models/tree.gltf').length - 1, 1);
+    });
+  }
+  
+  // entityEncoding: 'json' keeps entities readable, 'packed' stores entityData; both decode the same
+  for (const entities of [entityRecord, entityList]) {
+    const entityMap = { ...createMap(), entities };
+    const decodedEntities: { [encoding: string]: any } = {};
+    const layouts: { [encoding: string]: string[] } = {};
+    for (const entityEncoding of ['json', 'packed'] as const) {
+      const entityCompressor = new MapCompressor({ compression: { entityEncoding } });
+      const entityCompressed = entityCompressor.createCompressedMap(await entityCompressor.compress(entityMap), entityMap);
+      layouts[entityEncoding] = ['entities', 'entityData'].filter(field => field in entityCompressed);
+      decodedEntities[entityEncoding] = (await mc.decompress(MapContainer.encode(entityCompressed))).entities;
+    }
+    check(`entityEncoding: json and packed ${Array.isArray(entities) ? 'entity list' : 'entity record'} decode alike`, () => {
+      assert.deepStrictEqual(layouts, { json: ['entities'], packed: ['entityData'] });
+      assert.deepStrictEqual(decodedEntities.json, entities);
+      assert.deepStrictEqual(decodedEntities.packed, entities);
+    });
+  }
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: All map fields and block type properties survived');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testRoundTrip().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
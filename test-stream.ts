@@ -0,0 +1,166 @@
+/**
+ * Stream test - decompressStream() and decompressChunkStream() yield the whole map
+ * in batches and completed chunks, in ascending Y, for every encoding and layout
+ * Checks the incremental decoder on byte-sized pieces, that a truncated block
+ * stream is refused, and custom codecs without a streaming decompressor
+ */
+
+import { MapCompressor, MapDecompressor, CodecRegistry } from './src/index';
+import { VarintDeltaStreamDecoder } from './src/encoders/VarintDeltaStreamDecoder';
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' },
+  { id: 300, name: 'marble', textureUri: 'blocks/marble.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -24; x < 24; x++) {
+    for (let z = -24; z < 24; z++) {
+      const height = 2 + ((x * 5 + z * 3) & 31);
+      for (let y = -4; y < height; y += 2) {
+        blocks[`${x},${y},${z}`] = y < 0 ? 2 : (x + z) % 13 === 0 ? 300 : 1;
+      }
+    }
+  }
+  return { blockTypes, blocks, entities: {} };
+}
+
+interface Streamed {
+  batches: number[]; // Batch sizes
+  blocks: { [key: string]: number };
+  ascending: boolean; // Y never went down across the whole stream
+}
+
+/**
+ * Drain decompressStream() into a dictionary
+ */
+async function stream(decompressor: MapDecompressor, compressed: any, batchSize?: number): Promise<Streamed> {
+  const result: Streamed = { batches: [], blocks: {}, ascending: true };
+  let lastY = -Infinity;
+  for await (const batch of decompressor.decompressStream(compressed, { batchSize })) {
+    result.batches.push(batch.length);
+    for (const block of batch) {
+      result.blocks[`${block.x},${block.y},${block.z}`] = block.id;
+      if (block.y < lastY) result.ascending = false;
+      lastY = block.y;
+    }
+  }
+  return result;
+}
+
+async function testStream() {
+  console.log('=== STREAM TEST ===\n');
+  
+  const mapData = createMap();
+  const blockCount = Object.keys(mapData.blocks).length;
+  const decompressor = new MapDecompressor();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  const compressMap = async (compression: any = {}) => {
+    const compressor = new MapCompressor({ compression });
+    return compressor.createCompressedMap(await compressor.compress(mapData), mapData);
+  };
+  
+  // Incremental path (Varint + Delta, whole file or Y slabs) and the one-pass
+  // fallback (other encodings, column partitions) give the same stream
+  for (const [name, compression] of [
+    ['varint-delta', {}],
+    ['y-slab segments', { parallel: true, workers: 0, partition: 'y-slabs', partitionSize: 16 }],
+    ['column segments', { spatialIndex: true, partitionSize: 16 }],
+    ['palette', { blockEncoding: 'palette' }],
+    ['columnar, gzip', { blockEncoding: 'columnar', algorithm: 'gzip' }]
+  ] as const) {
+    const streamed = await stream(decompressor, await compressMap(compression), 1000);
+    check(`${name}: every block once, batches of 1000, ascending Y`, () => {
+      assert.deepStrictEqual(streamed.blocks, mapData.blocks);
+      assert.strictEqual(streamed.batches.reduce((sum, size) => sum + size, 0), blockCount);
+      assert.ok(streamed.batches.length > 1);
+      assert.ok(streamed.batches.every(size => size > 0 && size <= 1000), streamed.batches.join(','));
+      assert.ok(streamed.ascending);
+    });
+  }
+  
+  // Chunks: each yielded once, complete, widened for IDs above 255
+  const compressed = await compressMap();
+  const streamedChunks: any[] = [];
+  for await (const chunk of decompressor.decompressChunkStream(compressed, { batchSize: 500 })) {
+    streamedChunks.push(chunk);
+  }
+  const expectedChunks = (await decompressor.decompressChunks(compressed)).chunks;
+  const chunkRecord = (chunks: any[]) =>
+    Object.fromEntries(chunks.map(chunk => [`${chunk.origin.x},${chunk.origin.y},${chunk.origin.z}`, Array.from(chunk.blocks)]));
+  check('decompressChunkStream: every chunk once, complete, in layer order', () => {
+    assert.strictEqual(streamedChunks.length, expectedChunks.length);
+    assert.deepStrictEqual(chunkRecord(streamedChunks), chunkRecord(expectedChunks));
+    assert.ok(streamedChunks.every((chunk, i) => i === 0 || chunk.origin.y >= streamedChunks[i - 1].origin.y));
+    assert.ok(streamedChunks.some(chunk => chunk.blocks instanceof Uint16Array));
+    assert.ok(streamedChunks.some(chunk => chunk.blocks instanceof Uint8Array));
+    assert.ok(streamedChunks.every(chunk => !(chunk.blocks instanceof Uint8Array) || chunk.blocks.every((id: number) => id !== 300)));
+  });
+  
+  // The decoder itself: one byte at a time gives the blocks of one push
+  const raw = zlib.brotliDecompressSync(Buffer.from(compressed.data as string, 'base64'));
+  const whole = new VarintDeltaStreamDecoder(compressed.bounds);
+  const wholeBlocks = whole.push(raw);
+  const bytewise = new VarintDeltaStreamDecoder(compressed.bounds);
+  const bytewiseBlocks: any[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    bytewiseBlocks.push(...bytewise.push(raw.subarray(i, i + 1)));
+  }
+  check('VarintDeltaStreamDecoder: byte-sized pieces decode the same blocks', () => {
+    assert.strictEqual(wholeBlocks.length, blockCount);
+    assert.deepStrictEqual(bytewiseBlocks, wholeBlocks);
+    assert.ok(whole.isComplete && bytewise.isComplete);
+  });
+  
+  // A block stream cut short is an error, not a smaller map
+  const truncated = {
+    ...compressed,
+    data: zlib.brotliCompressSync(raw.subarray(0, raw.length - 100)).toString('base64'),
+    checksums: undefined
+  };
+  let truncatedError: Error | null = null;
+  await stream(decompressor, truncated).catch(error => truncatedError = error);
+  check('truncated stream: refused once it ends', () => {
+    assert.strictEqual(truncatedError!.message, 'Compressed block stream ended before all blocks were decoded');
+  });
+  
+  // Custom codecs without createDecompressStream are buffered and decoded on end
+  CodecRegistry.register('reversed-gzip', {
+    compress: (data: Buffer) => Buffer.from(zlib.gzipSync(data)).reverse(),
+    decompress: (data: Buffer) => zlib.gunzipSync(Buffer.from(data).reverse())
+  });
+  const custom = await stream(decompressor, await compressMap({ algorithm: 'reversed-gzip' }), 1000);
+  CodecRegistry.unregister('reversed-gzip');
+  check('custom codec without a stream: buffered, then streamed in batches', () => {
+    assert.deepStrictEqual(custom.blocks, mapData.blocks);
+    assert.ok(custom.batches.length > 1 && custom.ascending);
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every stream yielded the whole map in order');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testStream().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
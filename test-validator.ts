@@ -0,0 +1,186 @@
+/**
+ * Validator test - MapValidator reports each kind of bad map data once, with
+ * counts and the offending keys, and validation.onAutoLoad stops autoLoad()
+ * before it builds any cache from an invalid map file
+ */
+
+import { MapCompression, MapValidator, FakeWorld } from './src/index';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: any } = {};
+  for (let x = 0; x < 16; x++) {
+    for (let z = 0; z < 16; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x + z) % 4 === 0) blocks[`${x},1,${z}`] = 1;
+    }
+  }
+  return { blockTypes, blocks, entities: {} };
+}
+
+/**
+ * The map with extra blocks merged in
+ */
+function withBlocks(blocks: { [key: string]: any }): any {
+  const mapData = createMap();
+  Object.assign(mapData.blocks, blocks);
+  return mapData;
+}
+
+/**
+ * Codes of a result's errors and warnings, for comparing whole reports
+ */
+function codes(result: { errors: Array<{ code: string }>; warnings: Array<{ code: string }> }) {
+  return { errors: result.errors.map(issue => issue.code), warnings: result.warnings.map(issue => issue.code) };
+}
+
+async function testValidator() {
+  console.log('=== VALIDATOR TEST ===\n');
+  
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  const clean = MapValidator.validate(createMap());
+  check('valid map: no issues, every block counted', () => {
+    assert.deepStrictEqual(clean, { valid: true, blockCount: Object.keys(createMap().blocks).length, errors: [], warnings: [] });
+  });
+  
+  // Malformed keys: each reported with its key, and still counted
+  const malformed = MapValidator.validate(withBlocks({ '1,2': 1, '1,,3': 1, 'a,b,c': 1, '1,2,3,4': 1, ' ,0,0': 1 }));
+  check('malformed keys: one issue listing every key', () => {
+    assert.strictEqual(malformed.valid, false);
+    assert.deepStrictEqual(codes(malformed), { errors: ['malformed-coordinates'], warnings: [] });
+    assert.deepStrictEqual(malformed.errors[0].keys, ['1,2', '1,,3', 'a,b,c', '1,2,3,4', ' ,0,0']);
+    assert.strictEqual(malformed.errors[0].count, 5);
+    assert.strictEqual(malformed.blockCount, clean.blockCount + 5);
+  });
+  
+  // Float coordinates and keys that resolve to an existing block
+  const floats = MapValidator.validate(withBlocks({ '1.5,0,0': 1, '0,0.25,-3.75': 2, '01,0,0': 1, '-0,0,0': 2 }));
+  check('float coordinates and duplicate keys', () => {
+    assert.deepStrictEqual(codes(floats), { errors: ['non-integer-coordinates', 'duplicate-coordinates'], warnings: [] });
+    assert.deepStrictEqual(floats.errors[0].keys, ['1.5,0,0', '0,0.25,-3.75']);
+    assert.deepStrictEqual(floats.errors[1].keys, ['01,0,0', '-0,0,0']);
+  });
+  
+  // Block IDs: strings, fractions, negatives, above 2^31 and above the varint limit
+  const ids = MapValidator.validate(withBlocks({
+    '0,5,0': '1',
+    '1,5,0': 'stone',
+    '2,5,0': 1.5,
+    '3,5,0': -1,
+    '4,5,0': 2 ** 31,
+    '5,5,0': MapValidator.MAX_VARINT_VALUE + 1,
+    '6,5,0': 70000,
+    '7,5,0': 0
+  }));
+  check('block IDs: string, fractional, negative and too-large IDs', () => {
+    assert.deepStrictEqual(codes(ids), {
+      errors: ['non-numeric-block-id', 'non-integer-block-id', 'negative-block-id', 'block-id-out-of-range'],
+      warnings: ['wide-block-id', 'air-block-id', 'unknown-block-type']
+    });
+    assert.deepStrictEqual(ids.errors[0].keys, ['0,5,0 = "1"', '1,5,0 = "stone"']);
+    assert.deepStrictEqual(ids.errors[3].keys, [`4,5,0 = ${2 ** 31}`, `5,5,0 = ${MapValidator.MAX_VARINT_VALUE + 1}`]);
+    assert.deepStrictEqual(ids.warnings[2].keys, ['70000 (e.g. 6,5,0)']);
+  });
+  
+  // Unknown block types are warnings, errors only in strict mode
+  const unknown = createMap();
+  unknown.blocks['0,2,0'] = 7;
+  unknown.blocks['1,2,0'] = 7;
+  unknown.blocks['2,2,0'] = 9;
+  const lenient = MapValidator.validate(unknown);
+  const strict = MapValidator.validate(unknown, { strict: true, maxSamples: 1 });
+  const untyped = MapValidator.validate({ ...createMap(), blockTypes: undefined });
+  check('unknown block types: warnings, invalid when strict', () => {
+    assert.strictEqual(lenient.valid, true);
+    assert.deepStrictEqual(codes(lenient), { errors: [], warnings: ['unknown-block-type'] });
+    assert.deepStrictEqual(lenient.warnings[0].keys, ['7 (e.g. 0,2,0)', '9 (e.g. 2,2,0)']);
+    assert.strictEqual(strict.valid, false);
+    assert.deepStrictEqual(strict.warnings[0].keys, ['7 (e.g. 0,2,0)']);
+    assert.match(MapValidator.summarize(strict)[0], /^warning unknown-block-type: .* \(2x: "7 \(e\.g\. 0,2,0\)", \.\.\.\)$/);
+    assert.deepStrictEqual(codes(untyped), { errors: [], warnings: ['missing-block-types'] });
+  });
+  
+  // Spans the varint encoder cannot represent, and the VoxelStore range
+  const span = MapValidator.validate(withBlocks({ '-600000000,0,0': 1, '600000000,0,0': 1 }));
+  const voxel = MapValidator.validate(withBlocks({ '0,0,2000000': 1 }), { voxelStore: true });
+  const voxelOff = MapValidator.validate(withBlocks({ '0,0,2000000': 1 }));
+  check('out-of-range spans: x axis reported from min to max key', () => {
+    assert.deepStrictEqual(codes(span), { errors: ['coordinate-out-of-range'], warnings: [] });
+    assert.deepStrictEqual(span.errors[0].keys, ['x: -600000000,0,0 .. 600000000,0,0']);
+    assert.deepStrictEqual(codes(voxel), { errors: ['outside-voxel-range'], warnings: [] });
+    assert.strictEqual(voxelOff.valid, true);
+  });
+  
+  const missing = MapValidator.validate({ blockTypes });
+  let thrown: Error | null = null;
+  try {
+    MapValidator.assertValid(withBlocks({ '1,2': 1 }));
+  } catch (error: any) {
+    thrown = error;
+  }
+  check('missing blocks and assertValid()', () => {
+    assert.deepStrictEqual(codes(missing), { errors: ['missing-blocks'], warnings: [] });
+    assert.strictEqual(thrown!.message, 'Invalid map data:\n  error malformed-coordinates: Keys that are not three comma-separated numbers ("x,y,z") (1x: "1,2")');
+  });
+  
+  // validation.onAutoLoad (autoLoad reads its options from the config file): an
+  // invalid map file is rejected before any cache is written
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hmc-validator-'));
+  const mapPath = path.join(dir, 'map.json');
+  const configPath = path.join(dir, 'map-compression.yaml');
+  fs.writeFileSync(configPath, 'validation:\n  onAutoLoad: true\n');
+  fs.writeFileSync(mapPath, JSON.stringify(withBlocks({ '1.5,0,0': 1, '2,9,0': 'stone' })));
+  const world = new FakeWorld();
+  let autoLoadError: Error | null = null;
+  await new MapCompression(world, { metrics: false }).autoLoad(mapPath, configPath).catch(error => autoLoadError = error);
+  check('onAutoLoad: invalid map aborts before caches and world', () => {
+    assert.ok(autoLoadError!.message.startsWith(`Invalid map data in ${mapPath}:\n  error non-integer-coordinates`), autoLoadError!.message);
+    assert.match(autoLoadError!.message, /error non-numeric-block-id/);
+    assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['map-compression.yaml', 'map.json']);
+    assert.strictEqual(world.loadedMaps.length, 0);
+    assert.deepStrictEqual(world.getBlocks(), {});
+  });
+  
+  // Once the file is fixed, the same config builds the caches
+  fs.writeFileSync(mapPath, JSON.stringify(createMap()));
+  const fixedWorld = new FakeWorld();
+  await new MapCompression(fixedWorld, { metrics: false }).autoLoad(mapPath, configPath);
+  check('onAutoLoad: valid map loaded and cached', () => {
+    assert.deepStrictEqual(fixedWorld.getBlocks(), createMap().blocks);
+    assert.deepStrictEqual(fs.readdirSync(dir).map(file => path.extname(file)).sort(), ['.bin', '.hmc', '.json', '.yaml']);
+  });
+  
+  fs.rmSync(dir, { recursive: true, force: true });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every bad map was reported and none was cached');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testValidator().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,155 @@
+/**
+ * Verify test - one flipped byte in each checksummed file format is caught
+ * MapCompression.verify() names the bad section of an .hmc file, an MCB2 chunk
+ * cache and a checksummed JSON cache, and autoLoad() discards a corrupted
+ * .chunks.bin or .hmc and rebuilds it instead of loading garbage
+ */
+
+import { MapCompression, MapCompressor, MapContainer, DirectChunkLoader, FakeWorld } from './src/index';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -20; x < 20; x++) {
+    for (let z = -20; z < 20; z++) {
+      blocks[`${x},0,${z}`] = 2;
+      if ((x + z) % 5 === 0) blocks[`${x},1,${z}`] = 1;
+    }
+  }
+  return { blockTypes, blocks, entities: { '0.5,2,0.5': { modelUri: 'models/flag.gltf' } }, version: '2.0.0' };
+}
+
+/**
+ * Copy of a buffer with one bit flipped at an offset
+ */
+function flip(buffer: Buffer, offset: number): Buffer {
+  const copy = Buffer.from(buffer);
+  copy[offset] ^= 0x01;
+  return copy;
+}
+
+async function testVerify() {
+  console.log('=== VERIFY TEST ===\n');
+  
+  const mapData = createMap();
+  const mc = new MapCompression(new FakeWorld(), { metrics: false });
+  const compressor = new MapCompressor();
+  const compressedMap = compressor.createCompressedMap(await compressor.compress(mapData), mapData);
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // .hmc: a byte inside the blocks section
+  const container = MapContainer.encode(compressedMap);
+  const containerResult = await mc.verify(container);
+  const blocksSection = containerResult.sections.find(section => section.name === 'blocks')!;
+  const corruptContainer = await mc.verify(flip(container, blocksSection.offset! + Math.floor(blocksSection.length! / 2)));
+  check('hmc: flipped byte in the blocks section', () => {
+    assert.strictEqual(containerResult.valid, true);
+    assert.strictEqual(containerResult.checksummed, true);
+    assert.strictEqual(corruptContainer.valid, false);
+    assert.strictEqual(corruptContainer.format, 'hmc');
+    assert.deepStrictEqual(corruptContainer.sections.filter(section => !section.valid).map(section => section.name), ['blocks']);
+    assert.strictEqual(corruptContainer.errors.length, 1);
+  });
+  
+  // MCB2: a byte inside one chunk's records
+  const chunkCache = await new DirectChunkLoader(new FakeWorld()).precomputeChunks(mapData.blocks, blockTypes);
+  const chunkResult = await mc.verify(chunkCache);
+  const chunk = chunkResult.sections.find(section => section.name.startsWith('chunk '))!;
+  const corruptChunks = await mc.verify(flip(chunkCache, chunk.offset! + chunk.length! - 1));
+  check('MCB2: flipped byte in one chunk', () => {
+    assert.strictEqual(chunkResult.valid, true);
+    assert.strictEqual(chunkResult.format, 'chunks-binary');
+    assert.strictEqual(chunkResult.checksummed, true);
+    assert.strictEqual(corruptChunks.valid, false);
+    assert.deepStrictEqual(corruptChunks.sections.filter(section => !section.valid).map(section => section.name), [chunk.name]);
+  });
+  
+  // Checksummed JSON: one character of the base64 block data
+  const jsonResult = await mc.verify(Buffer.from(JSON.stringify(compressedMap)));
+  const data: string = compressedMap.data;
+  const middle = Math.floor(data.length / 2);
+  const corruptJson = await mc.verify({ ...compressedMap, data: data.slice(0, middle) + (data[middle] === 'A' ? 'B' : 'A') + data.slice(middle + 1) });
+  check('JSON: changed block data fails its checksum', () => {
+    assert.strictEqual(jsonResult.valid, true);
+    assert.strictEqual(jsonResult.format, 'compressed-json');
+    assert.strictEqual(jsonResult.checksummed, true);
+    assert.strictEqual(corruptJson.valid, false);
+    assert.deepStrictEqual(corruptJson.sections.filter(section => !section.valid).map(section => section.name), ['data']);
+  });
+  
+  // autoLoad: corrupted caches are deleted and rebuilt, the world gets the map
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hmc-verify-'));
+  const mapPath = path.join(dir, 'map.json');
+  fs.writeFileSync(mapPath, JSON.stringify(mapData));
+  const autoLoad = async () => {
+    const world = new FakeWorld();
+    const loader = new MapCompression(world, { metrics: false });
+    await loader.autoLoad(mapPath);
+    return { world, method: loader.getMetrics().method };
+  };
+  const cacheFile = (extension: string) => path.join(dir, fs.readdirSync(dir).find(file => file.endsWith(extension))!);
+  
+  const first = await autoLoad();
+  const chunksPath = cacheFile('.chunks.bin');
+  const hmcPath = cacheFile('.hmc');
+  check('autoLoad: first run writes verified caches', () => {
+    assert.strictEqual(first.method, 'initial-compression');
+    assert.deepStrictEqual(first.world.getBlocks(), mapData.blocks);
+    assert.strictEqual(MapContainer.verify(fs.readFileSync(hmcPath)).every(section => section.valid), true);
+  });
+  
+  const chunks = fs.readFileSync(chunksPath);
+  const firstChunk = (await mc.verify(chunks)).sections.find(section => section.name.startsWith('chunk '))!;
+  fs.writeFileSync(chunksPath, flip(chunks, firstChunk.offset! + firstChunk.length! - 1));
+  const afterChunks = await autoLoad();
+  const rebuiltChunks = await mc.verify(chunksPath);
+  check('autoLoad: corrupted .chunks.bin discarded and rebuilt', () => {
+    assert.strictEqual(afterChunks.method, 'compressed-fast');
+    assert.deepStrictEqual(afterChunks.world.getBlocks(), mapData.blocks);
+    assert.strictEqual(rebuiltChunks.valid, true);
+    assert.strictEqual(rebuiltChunks.sections.length, chunkResult.sections.length);
+  });
+  
+  const hmc = fs.readFileSync(hmcPath);
+  const hmcBlocks = (await mc.verify(hmc)).sections.find(section => section.name === 'blocks')!;
+  fs.writeFileSync(hmcPath, flip(hmc, hmcBlocks.offset! + 1));
+  const afterHmc = await autoLoad();
+  check('autoLoad: corrupted .hmc discarded and rebuilt', () => {
+    assert.strictEqual(afterHmc.method, 'initial-compression');
+    assert.deepStrictEqual(afterHmc.world.getBlocks(), mapData.blocks);
+    assert.strictEqual(MapContainer.verify(fs.readFileSync(hmcPath)).every(section => section.valid), true);
+  });
+  
+  fs.rmSync(dir, { recursive: true, force: true });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every corrupted byte was caught');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testVerify().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
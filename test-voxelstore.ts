@@ -0,0 +1,138 @@
+/**
+ * VoxelStore test - blocks stored in 16³ typed-array chunks read back exactly
+ * (negative coordinates, IDs above 65534, every conversion), bad coordinates and
+ * keys are rejected instead of stored, and compressing with preParseCoordinates
+ * writes the same file as compressing the dictionary
+ */
+
+import { MapCompressor, MapDecompressor, VoxelStore } from './src/index';
+import * as assert from 'assert';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -20; x < 20; x++) {
+    for (let z = -20; z < 20; z++) {
+      blocks[`${x},-1,${z}`] = 2;
+      if ((x * 3 + z) % 5 === 0) blocks[`${x},${x & 15},${z}`] = 1;
+    }
+  }
+  return { blockTypes, blocks, entities: {} };
+}
+
+/**
+ * The message a function throws, or null
+ */
+function thrown(run: () => void): string | null {
+  try {
+    run();
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+async function testVoxelStore() {
+  console.log('=== VOXEL STORE TEST ===\n');
+  
+  const mapData = createMap();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // Single blocks across chunk borders and negative coordinates
+  const store = new VoxelStore();
+  store.set(0, 0, 0, 1).set(-1, -1, -1, 2).set(15, 16, -17, 0).set(0, 0, 0, 3);
+  check('set, get, has and delete across chunks', () => {
+    assert.strictEqual(store.size, 3);
+    assert.strictEqual(store.chunkCount, 3);
+    assert.strictEqual(store.get(0, 0, 0), 3);
+    assert.strictEqual(store.get(-1, -1, -1), 2);
+    assert.strictEqual(store.get(15, 16, -17), 0);
+    assert.strictEqual(store.get(1, 0, 0), undefined);
+    assert.deepStrictEqual(store.bounds(), { minX: -1, minY: -1, minZ: -17, maxX: 15, maxY: 16, maxZ: 0 });
+    assert.strictEqual(store.delete(-1, -1, -1), true);
+    assert.strictEqual(store.delete(-1, -1, -1), false);
+    assert.strictEqual(store.has(-1, -1, -1), false);
+    assert.strictEqual(store.chunkCount, 2);
+  });
+  
+  // A chunk is promoted to 32-bit cells without losing the blocks it holds
+  const wide = new VoxelStore().set(1, 2, 3, 65534).set(4, 5, 6, 7).set(4, 5, 7, 70000).set(8, 8, 8, 0xfffffffe);
+  check('IDs above 65534 promote the chunk', () => {
+    assert.deepStrictEqual(wide.toDictionary(), { '1,2,3': 65534, '4,5,6': 7, '4,5,7': 70000, '8,8,8': 0xfffffffe });
+  });
+  
+  // Every conversion gives back the same blocks
+  const fromMap = VoxelStore.fromDictionary(mapData.blocks);
+  check('fromDictionary, toDictionary, toFlat, fromFlat, toChunks and JSON', () => {
+    assert.strictEqual(fromMap.size, Object.keys(mapData.blocks).length);
+    assert.deepStrictEqual(fromMap.toDictionary(), mapData.blocks);
+    assert.deepStrictEqual(VoxelStore.fromFlat(fromMap.toFlat()).toDictionary(), mapData.blocks);
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(fromMap)), mapData.blocks);
+    assert.strictEqual(fromMap.toChunks().length, fromMap.chunkCount);
+    assert.strictEqual(fromMap.toChunks().reduce((sum, chunk) => sum + chunk.blocks.filter(id => id !== 0).length, 0), fromMap.size);
+    assert.strictEqual(VoxelStore.count(fromMap), VoxelStore.count(mapData.blocks));
+    assert.strictEqual(VoxelStore.from(fromMap), fromMap);
+  });
+  
+  // Bad coordinates, keys and IDs throw and leave the store as it was
+  const strict = new VoxelStore().set(0, 0, 0, 1);
+  check('coordinates that are not finite integers are rejected', () => {
+    assert.strictEqual(thrown(() => strict.set(1.5, 0, 0, 1)), 'Invalid coordinates (1.5, 0, 0) for block 1: expected integers');
+    assert.strictEqual(thrown(() => strict.set(0, NaN, 0, 1)), 'Invalid coordinates (0, NaN, 0) for block 1: expected integers');
+    assert.strictEqual(thrown(() => strict.set(0, 0, Infinity, 1)), 'Invalid coordinates (0, 0, Infinity) for block 1: expected integers');
+    assert.strictEqual(thrown(() => strict.set(0, 0, 2 ** 21, 1)), `Coordinates (0, 0, ${2 ** 21}) are outside the voxel store range`);
+    assert.strictEqual(thrown(() => strict.set(0, 0, 0, -1)), 'Invalid block ID -1 at (0, 0, 0)');
+    assert.strictEqual(thrown(() => strict.set(0, 0, 0, 1.5)), 'Invalid block ID 1.5 at (0, 0, 0)');
+    assert.deepStrictEqual(strict.toDictionary(), { '0,0,0': 1 });
+  });
+  check('malformed "x,y,z" keys are rejected, not stored at 0', () => {
+    for (const key of ['1,2', '1,,3', '1,2,3,4', ' ,0,0']) {
+      assert.strictEqual(thrown(() => VoxelStore.fromDictionary({ '0,0,0': 1, [key]: 1 })), `Malformed block key "${key}" (expected "x,y,z")`);
+    }
+    assert.strictEqual(thrown(() => VoxelStore.fromDictionary({ 'a,b,c': 1 })), 'Invalid coordinates (NaN, NaN, NaN) for block 1: expected integers');
+    assert.strictEqual(thrown(() => VoxelStore.fromDictionary({ '0.5,0,0': 1 })), 'Invalid coordinates (0.5, 0, 0) for block 1: expected integers');
+  });
+  
+  // preParseCoordinates: the compressor works from a store parsed once
+  const preParsed = new MapCompressor({ optimization: { preParseCoordinates: true } });
+  const dictionary = new MapCompressor({ optimization: { preParseCoordinates: false } });
+  const preParsedResult = await preParsed.compress(mapData);
+  const dictionaryResult = await dictionary.compress(mapData);
+  const storeResult = await dictionary.compress({ ...mapData, blocks: VoxelStore.fromDictionary(mapData.blocks) });
+  const voxels = await new MapDecompressor().decompressVoxels(preParsed.createCompressedMap(preParsedResult, mapData));
+  let malformed: string | null = null;
+  await preParsed.compress({ ...mapData, blocks: { ...mapData.blocks, '1,2': 1 } }).catch(error => malformed = error.message);
+  check('preParseCoordinates: same file as the dictionary, malformed keys rejected', () => {
+    assert.strictEqual(preParsedResult.data, dictionaryResult.data);
+    assert.strictEqual(storeResult.data, dictionaryResult.data);
+    assert.deepStrictEqual(voxels.blocks.toDictionary(), mapData.blocks);
+    assert.strictEqual(malformed, 'Malformed block key "1,2" (expected "x,y,z")');
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every block read back exactly and every bad coordinate was rejected');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testVoxelStore().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
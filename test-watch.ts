@@ -0,0 +1,128 @@
+/**
+ * Watch test - MapWatcher against FakeWorld and a map file in a temp directory
+ * Checks debouncing, content-hash dedup, the order of the watcher's events,
+ * that a broken save leaves the world alone and that cleanup() stops watching
+ */
+
+import { MapCompression, FakeWorld } from './src/index';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const DEBOUNCE_MS = 50;
+const SETTLE_MS = 500;
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 2, name: 'stone', textureUri: 'blocks/stone.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = 0; x < 20; x++) {
+    for (let z = 0; z < 20; z++) {
+      blocks[`${x},0,${z}`] = 1;
+    }
+  }
+  return { blockTypes, blocks, entities: {} };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function testWatch() {
+  console.log('=== WATCH TEST (FakeWorld) ===\n');
+  
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hmc-watch-'));
+  const mapPath = path.join(dir, 'map.json');
+  const mapData = createMap();
+  fs.writeFileSync(mapPath, JSON.stringify(mapData));
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  const world = new FakeWorld();
+  const mc = new MapCompression(world, { metrics: false, validation: { onAutoLoad: true }, loading: { method: 'chunks' } });
+  await mc.loadMap(mapData);
+  
+  const watcher = mc.watch(mapPath, { debounceMs: DEBOUNCE_MS });
+  const events: string[] = [];
+  watcher.on('change', () => events.push('change'));
+  watcher.on('reloading', ({ chunks }) => events.push(`reloading ${chunks.length}`));
+  watcher.on('reloaded', () => events.push('reloaded'));
+  watcher.on('error', () => events.push('error'));
+  
+  // Three saves inside the debounce window are one reload
+  const edited = createMap();
+  edited.blocks['3,0,3'] = 2;
+  edited.blocks['17,5,17'] = 2;
+  delete edited.blocks['0,0,0'];
+  world.resetRecording();
+  fs.writeFileSync(mapPath, JSON.stringify(createMap()));
+  fs.writeFileSync(mapPath, JSON.stringify({ ...edited, blocks: {} }));
+  fs.writeFileSync(mapPath, JSON.stringify(edited));
+  await sleep(SETTLE_MS);
+  check('debounce: saves in quick succession reloaded once', () => {
+    assert.deepStrictEqual(events, ['change', 'reloading 2', 'reloaded']);
+    assert.strictEqual(world.callsTo('chunkLattice.setBlock').length, 3);
+    assert.deepStrictEqual(world.getBlocks(), edited.blocks);
+    assert.deepStrictEqual(fs.readdirSync(dir).map(file => path.extname(file)).sort(), ['.bin', '.hmc', '.json']);
+  });
+  
+  // The same content again (touched, or saved unchanged) is not reloaded
+  events.length = 0;
+  fs.writeFileSync(mapPath, JSON.stringify(edited));
+  await sleep(SETTLE_MS);
+  const unchanged = await watcher.check();
+  check('hash dedup: unchanged content not reloaded', () => {
+    assert.deepStrictEqual(events, []);
+    assert.strictEqual(unchanged, null);
+  });
+  
+  // A broken save fails before 'reloading' and leaves the world on the previous map
+  for (const [name, content] of [['invalid JSON', '{ "blocks": '], ['failed validation', JSON.stringify({ blockTypes, blocks: { '1,2': 1 } })]]) {
+    events.length = 0;
+    world.resetRecording();
+    fs.writeFileSync(mapPath, content);
+    await sleep(SETTLE_MS);
+    check(`error: ${name} reported, world unchanged`, () => {
+      assert.deepStrictEqual(events, ['change', 'error']);
+      assert.strictEqual(world.calls.length, 0);
+      assert.deepStrictEqual(world.getBlocks(), edited.blocks);
+    });
+  }
+  
+  // cleanup() closes the fs watcher: later saves are not seen
+  mc.cleanup();
+  events.length = 0;
+  fs.writeFileSync(mapPath, JSON.stringify(createMap()));
+  await sleep(SETTLE_MS);
+  check('cleanup: fs watcher closed, later saves ignored', () => {
+    assert.strictEqual(watcher.watching, false);
+    assert.deepStrictEqual(events, []);
+    assert.deepStrictEqual(world.getBlocks(), edited.blocks);
+  });
+  
+  fs.rmSync(dir, { recursive: true, force: true });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every save was reloaded once, in order, or rejected');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testWatch().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,161 @@
+/**
+ * Wide ID test - block IDs above 255 survive every chunk path: ChunkArray widths,
+ * JSON and binary chunk caches, DirectChunkLoaderV3 and decompressChunks()
+ * IDs wider than a chunk declares load widened with a warning, and IDs above
+ * 65535 are refused instead of being truncated
+ */
+
+import { MapDecompressor, MapCompressor, DirectChunkLoader, DirectChunkLoaderV3, ChunkArray, FakeWorld } from './src/index';
+import { PrecomputeChunks } from './src/tools/PrecomputeChunks';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const blockTypes = [
+  { id: 1, name: 'grass', textureUri: 'blocks/grass' },
+  { id: 300, name: 'marble', textureUri: 'blocks/marble.png' },
+  { id: 4000, name: 'neon', textureUri: 'blocks/neon.png', lightLevel: 15 },
+  { id: 65535, name: 'last', textureUri: 'blocks/last.png' }
+];
+
+function createMap(): any {
+  const blocks: { [key: string]: number } = {};
+  for (let x = -20; x < 20; x++) {
+    for (let z = -20; z < 20; z++) {
+      blocks[`${x},0,${z}`] = 1;
+      if ((x + z) % 4 === 0) blocks[`${x},1,${z}`] = x < 0 ? 300 : 4000;
+    }
+  }
+  blocks['19,5,19'] = 65535;
+  return { blockTypes, blocks, entities: {} };
+}
+
+/**
+ * Run a function with console output captured instead of printed
+ */
+async function captured<T>(run: () => T | Promise<T>): Promise<{ result: T; output: string }> {
+  const lines: string[] = [];
+  const { log, warn } = console;
+  console.log = console.warn = (...args: any[]) => { lines.push(args.join(' ')); };
+  try {
+    return { result: await run(), output: lines.join('\n') };
+  } finally {
+    Object.assign(console, { log, warn });
+  }
+}
+
+/**
+ * One chunk at the origin holding the given IDs from index 0
+ */
+function chunkOf(ids: number[]): any {
+  const blocks = new Array(ChunkArray.VOLUME).fill(0);
+  ids.forEach((id, i) => blocks[i] = id);
+  return { origin: { x: 0, y: 0, z: 0 }, blocks };
+}
+
+async function testWideIds() {
+  console.log('=== WIDE ID TEST ===\n');
+  
+  const mapData = createMap();
+  let failures = 0;
+  
+  const check = (name: string, test: () => void) => {
+    try {
+      test();
+      console.log(`✅ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.log(`❌ ${name}: ${error.message}`);
+    }
+  };
+  
+  // ChunkArray: narrowest width that holds every ID, never truncated
+  const declaredNarrow = await captured(() => ChunkArray.from(chunkOf([1, 300]).blocks, 8));
+  check('ChunkArray: 8-bit while IDs fit, 16-bit above 255, refused above 65535', () => {
+    assert.strictEqual(ChunkArray.widthFor(255), 8);
+    assert.strictEqual(ChunkArray.widthFor(256), 16);
+    assert.strictEqual(ChunkArray.widthFor(65535), 16);
+    assert.throws(() => ChunkArray.widthFor(65536), /^Error: Block ID 65536 does not fit in 16-bit chunk storage \(max 65535\)$/);
+    assert.ok(ChunkArray.from(chunkOf([1, 255]).blocks) instanceof Uint8Array);
+    assert.ok(ChunkArray.from(chunkOf([1, 300]).blocks) instanceof Uint16Array);
+    assert.ok(ChunkArray.from(chunkOf([1, 2]).blocks, 16) instanceof Uint16Array);
+    assert.ok(declaredNarrow.result instanceof Uint16Array);
+    assert.strictEqual(declaredNarrow.result[1], 300);
+    assert.strictEqual(declaredNarrow.output, '[ChunkArray] Chunk declared 8-bit holds block ID 300, loading as 16-bit');
+    assert.throws(() => ChunkArray.from(chunkOf([70000]).blocks), /does not fit in 16-bit chunk storage/);
+    assert.throws(() => ChunkArray.from(chunkOf([1, -1]).blocks), /^Error: Invalid block ID -1 at chunk index 1$/);
+    const widened = ChunkArray.widen(new Uint8Array([7, 0, 9]), 4000);
+    assert.ok(widened instanceof Uint16Array);
+    assert.deepStrictEqual(Array.from(widened), [7, 0, 9]);
+  });
+  
+  // JSON chunk cache: idWidth written from the IDs, chunks read back as 16-bit
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hmc-wide-ids-'));
+  const mapPath = path.join(dir, 'map.json');
+  const chunksPath = path.join(dir, 'map.chunks');
+  fs.writeFileSync(mapPath, JSON.stringify(mapData));
+  await captured(() => PrecomputeChunks.precomputeFromMapFile(mapPath, chunksPath));
+  const precomputed = await PrecomputeChunks.loadPrecomputedChunks(chunksPath);
+  const jsonWorld = new FakeWorld();
+  new DirectChunkLoaderV3(jsonWorld).loadDirectly(fs.readFileSync(chunksPath), blockTypes);
+  fs.writeFileSync(mapPath, JSON.stringify({ ...mapData, blocks: { '0,0,0': 1, '1,0,0': 255 } }));
+  await captured(() => PrecomputeChunks.precomputeFromMapFile(mapPath, chunksPath));
+  const narrow = await PrecomputeChunks.loadPrecomputedChunks(chunksPath);
+  fs.rmSync(dir, { recursive: true, force: true });
+  check('JSON chunks: idWidth 16 for wide maps, 8 otherwise, IDs exact', () => {
+    assert.strictEqual(precomputed.idWidth, 16);
+    assert.ok(precomputed.chunks.every(chunk => chunk.blocks instanceof Uint16Array));
+    assert.deepStrictEqual(PrecomputeChunks.convertToMapFormat(precomputed).blocks, mapData.blocks);
+    assert.deepStrictEqual(jsonWorld.getBlocks(), mapData.blocks);
+    assert.strictEqual(narrow.idWidth, 8);
+    assert.ok(narrow.chunks[0].blocks instanceof Uint8Array);
+  });
+  
+  // Binary (MCB2) chunk cache and chunks decompressed from a compressed map
+  const binary = await new DirectChunkLoader(new FakeWorld()).precomputeChunks(mapData.blocks);
+  const binaryWorld = new FakeWorld();
+  new DirectChunkLoaderV3(binaryWorld).loadDirectly(binary, blockTypes);
+  const compressor = new MapCompressor();
+  const decoded = await new MapDecompressor().decompressChunks(compressor.createCompressedMap(await compressor.compress(mapData), mapData));
+  const decodedWorld = new FakeWorld();
+  new DirectChunkLoaderV3(decodedWorld).loadDirectly({ chunks: decoded.chunks }, blockTypes);
+  check('binary chunks and decompressChunks(): IDs exact in DirectChunkLoaderV3', () => {
+    assert.deepStrictEqual(binaryWorld.getBlocks(), mapData.blocks);
+    assert.ok(decoded.chunks.every(chunk => chunk.blocks instanceof Uint16Array));
+    assert.deepStrictEqual(decodedWorld.getBlocks(), mapData.blocks);
+  });
+  
+  // DirectChunkLoaderV3: a chunk declared 8-bit with wide IDs loads widened, a chunk
+  // with an ID above 16 bits is refused before it reaches the world
+  const mislabelledWorld = new FakeWorld();
+  const mislabelled = await captured(() =>
+    new DirectChunkLoaderV3(mislabelledWorld).loadDirectly({ idWidth: 8, chunks: [chunkOf([1, 300, 4000])] }, blockTypes)
+  );
+  const refusedWorld = new FakeWorld();
+  let refused: Error | null = null;
+  try {
+    new DirectChunkLoaderV3(refusedWorld).loadDirectly({ chunks: [chunkOf([1, 70000])] }, blockTypes);
+  } catch (error: any) {
+    refused = error;
+  }
+  check('DirectChunkLoaderV3: declared width widened with a warning, IDs above 65535 refused', () => {
+    assert.deepStrictEqual(mislabelledWorld.getBlocks(), { '0,0,0': 1, '1,0,0': 300, '2,0,0': 4000 });
+    assert.match(mislabelled.output, /Chunk declared 8-bit holds block ID 4000, loading as 16-bit/);
+    assert.match(refused!.message, /^Block ID 70000 does not fit in 16-bit chunk storage/);
+    assert.deepStrictEqual(refusedWorld.getBlocks(), {});
+  });
+  
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ SUCCESS: Every wide block ID survived or was refused, none truncated');
+  } else {
+    console.log(`❌ FAILURE: ${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+testWideIds().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});